@@ -0,0 +1,4 @@
+import { createModelsHandler } from '../providers';
+
+// GET: every model with its availability (based on configured keys), capabilities and pricing
+export default createModelsHandler();
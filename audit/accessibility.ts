@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Accessibility audit that runs against a rendered artifact document (the card's iframe),
+// so contrast can use computed styles rather than guessing from the source.
+
+export type A11yRule = 'contrast' | 'alt-text' | 'form-label' | 'heading-order' | 'focusable' | 'aria';
+
+export interface A11yIssue {
+  rule: A11yRule;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Short description of the offending element, e.g. `button.cta "Buy now"` */
+  element: string;
+}
+
+export interface A11yReport {
+  score: number;
+  issues: A11yIssue[];
+}
+
+export const A11Y_RULE_LABELS: Record<A11yRule, string> = {
+  'contrast': 'Contrast',
+  'alt-text': 'Alt text',
+  'form-label': 'Form labels',
+  'heading-order': 'Heading order',
+  'focusable': 'Keyboard access',
+  'aria': 'ARIA'
+};
+
+const SEVERITY_PENALTY = { error: 8, warning: 3 };
+// One broken pattern repeated across a list shouldn't zero the score on its own
+const MAX_PENALTY_PER_RULE = 30;
+const MAX_ISSUES_PER_RULE = 8;
+
+const VALID_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'button', 'cell', 'checkbox', 'columnheader',
+  'combobox', 'complementary', 'contentinfo', 'definition', 'dialog', 'directory', 'document', 'feed', 'figure',
+  'form', 'grid', 'gridcell', 'group', 'heading', 'img', 'link', 'list', 'listbox', 'listitem', 'log', 'main',
+  'marquee', 'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation',
+  'none', 'note', 'option', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row', 'rowgroup',
+  'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status', 'switch', 'tab',
+  'table', 'tablist', 'tabpanel', 'term', 'textbox', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'
+]);
+
+const VALID_ARIA_ATTRIBUTES = new Set([
+  'activedescendant', 'atomic', 'autocomplete', 'busy', 'checked', 'colcount', 'colindex', 'colspan', 'controls',
+  'current', 'describedby', 'description', 'details', 'disabled', 'dropeffect', 'errormessage', 'expanded',
+  'flowto', 'grabbed', 'haspopup', 'hidden', 'invalid', 'keyshortcuts', 'label', 'labelledby', 'level', 'live',
+  'modal', 'multiline', 'multiselectable', 'orientation', 'owns', 'placeholder', 'posinset', 'pressed', 'readonly',
+  'relevant', 'required', 'roledescription', 'rowcount', 'rowindex', 'rowspan', 'selected', 'setsize', 'sort',
+  'valuemax', 'valuemin', 'valuenow', 'valuetext'
+]);
+
+const FOCUSABLE_SELECTOR = 'a[href], button, input:not([type="hidden"]), select, textarea, summary, [tabindex]:not([tabindex="-1"]), [contenteditable="true"]';
+
+export function describeElement(el: Element): string {
+  let description = el.localName;
+  if (el.id) description += `#${el.id}`;
+  else if (el.classList.length) description += `.${el.classList[0]}`;
+  const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+  if (text) description += ` "${text.length > 40 ? text.slice(0, 40) + '…' : text}"`;
+  return description;
+}
+
+function isVisible(el: Element, win: Window): boolean {
+  if (!(el as HTMLElement).getClientRects().length) return false;
+  const style = win.getComputedStyle(el);
+  return style.visibility !== 'hidden' && style.display !== 'none';
+}
+
+function accessibleName(el: Element, doc: Document): string {
+  const labelledBy = el.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/).map(id => doc.getElementById(id)?.textContent || '').join(' ').trim();
+    if (text) return text;
+  }
+  const label = el.getAttribute('aria-label') || el.getAttribute('title') || '';
+  if (label.trim()) return label.trim();
+  const imageAlt = Array.from(el.querySelectorAll('img[alt], svg[aria-label]'))
+    .map(img => img.getAttribute('alt') || img.getAttribute('aria-label') || '')
+    .join(' ');
+  return ((el.textContent || '') + ' ' + imageAlt).trim();
+}
+
+// --- Contrast ---
+
+type Rgba = [number, number, number, number];
+
+function parseColor(value: string): Rgba | null {
+  const match = value.match(/rgba?\(([^)]+)\)/);
+  if (!match) return null;
+  const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+  if (parts.length < 3 || parts.some(isNaN)) return null;
+  return [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1];
+}
+
+function blend(top: Rgba, bottom: Rgba): Rgba {
+  const a = top[3];
+  return [
+    top[0] * a + bottom[0] * (1 - a),
+    top[1] * a + bottom[1] * (1 - a),
+    top[2] * a + bottom[2] * (1 - a),
+    1
+  ];
+}
+
+function luminance([r, g, b]: Rgba): number {
+  const [R, G, B] = [r, g, b].map(c => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+}
+
+export function contrastRatio(a: Rgba, b: Rgba): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// Walk up to the first opaque background; images and gradients make the result unknowable
+function effectiveBackground(el: Element, win: Window): Rgba | null {
+  const layers: Rgba[] = [];
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const style = win.getComputedStyle(node);
+    if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+    const color = parseColor(style.backgroundColor);
+    if (color && color[3] > 0) {
+      layers.push(color);
+      if (color[3] >= 1) break;
+    }
+  }
+  return layers.reduceRight<Rgba>((below, layer) => blend(layer, below), [255, 255, 255, 1]);
+}
+
+function checkContrast(doc: Document, win: Window): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  const seen = new Set<string>();
+
+  doc.body.querySelectorAll('*').forEach(el => {
+    const hasText = Array.from(el.childNodes).some(n => n.nodeType === Node.TEXT_NODE && n.textContent?.trim());
+    if (!hasText || !isVisible(el, win)) return;
+
+    const style = win.getComputedStyle(el);
+    if (parseFloat(style.opacity) === 0) return;
+    const foreground = parseColor(style.color);
+    const background = effectiveBackground(el, win);
+    if (!foreground || !background) return;
+
+    const ratio = contrastRatio(blend(foreground, background), background);
+    const fontSize = parseFloat(style.fontSize);
+    const isLarge = fontSize >= 24 || (fontSize >= 18.66 && parseInt(style.fontWeight, 10) >= 700);
+    const required = isLarge ? 3 : 4.5;
+    const key = `${style.color}|${background.join(',')}|${isLarge}`;
+    if (ratio < required && !seen.has(key)) {
+      seen.add(key);
+      issues.push({
+        rule: 'contrast',
+        severity: 'error',
+        message: `Contrast ${ratio.toFixed(2)}:1 is below ${required}:1 (${style.color} on rgb(${background.slice(0, 3).map(Math.round).join(', ')}))`,
+        element: describeElement(el)
+      });
+    }
+  });
+  return issues;
+}
+
+// --- Content and structure ---
+
+function checkAltText(doc: Document): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  doc.querySelectorAll('img:not([alt]), input[type="image"]:not([alt])').forEach(el => {
+    issues.push({ rule: 'alt-text', severity: 'error', message: 'Image has no alt attribute (use alt="" if decorative)', element: describeElement(el) });
+  });
+  doc.querySelectorAll('[role="img"]').forEach(el => {
+    if (!accessibleName(el, doc)) {
+      issues.push({ rule: 'alt-text', severity: 'error', message: 'role="img" element has no accessible name', element: describeElement(el) });
+    }
+  });
+  return issues;
+}
+
+function checkFormLabels(doc: Document): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  doc.querySelectorAll('input, select, textarea').forEach(el => {
+    const type = (el.getAttribute('type') || '').toLowerCase();
+    if (['hidden', 'submit', 'button', 'reset', 'image'].includes(type)) return;
+
+    const hasLabel = (el.id && doc.querySelector(`label[for="${CSS.escape(el.id)}"]`))
+      || el.closest('label')
+      || el.getAttribute('aria-label')?.trim()
+      || el.getAttribute('aria-labelledby')
+      || el.getAttribute('title')?.trim();
+    if (!hasLabel) {
+      issues.push({
+        rule: 'form-label',
+        severity: 'error',
+        message: el.getAttribute('placeholder') ? 'Field relies on placeholder text instead of a label' : 'Form field has no label',
+        element: describeElement(el)
+      });
+    }
+  });
+  return issues;
+}
+
+function checkHeadingOrder(doc: Document): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  let previousLevel = 0;
+  doc.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(el => {
+    const level = parseInt(el.localName.slice(1), 10);
+    if (previousLevel && level > previousLevel + 1) {
+      issues.push({ rule: 'heading-order', severity: 'warning', message: `Heading jumps from h${previousLevel} to h${level}`, element: describeElement(el) });
+    }
+    previousLevel = level;
+  });
+  return issues;
+}
+
+function checkFocusable(doc: Document): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  doc.querySelectorAll('[onclick]').forEach(el => {
+    if (!el.matches(FOCUSABLE_SELECTOR)) {
+      issues.push({ rule: 'focusable', severity: 'error', message: 'Clickable element cannot be reached with the keyboard', element: describeElement(el) });
+    }
+  });
+  doc.querySelectorAll('button, a[href], [role="button"], [role="link"]').forEach(el => {
+    if (!accessibleName(el, doc)) {
+      issues.push({ rule: 'focusable', severity: 'error', message: 'Control has no accessible name', element: describeElement(el) });
+    }
+  });
+  doc.querySelectorAll('[tabindex]').forEach(el => {
+    if (parseInt(el.getAttribute('tabindex') || '0', 10) > 0) {
+      issues.push({ rule: 'focusable', severity: 'warning', message: 'Positive tabindex overrides the natural focus order', element: describeElement(el) });
+    }
+  });
+  return issues;
+}
+
+function checkAria(doc: Document): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  doc.querySelectorAll('*').forEach(el => {
+    const role = el.getAttribute('role');
+    if (role && !role.split(/\s+/).some(r => VALID_ROLES.has(r))) {
+      issues.push({ rule: 'aria', severity: 'error', message: `Unknown role "${role}"`, element: describeElement(el) });
+    }
+    Array.from(el.attributes).forEach(({ name, value }) => {
+      if (!name.startsWith('aria-')) return;
+      if (!VALID_ARIA_ATTRIBUTES.has(name.slice(5))) {
+        issues.push({ rule: 'aria', severity: 'error', message: `Unknown attribute ${name}`, element: describeElement(el) });
+      } else if (['aria-labelledby', 'aria-describedby', 'aria-controls'].includes(name)
+        && value.split(/\s+/).some(id => id && !doc.getElementById(id))) {
+        issues.push({ rule: 'aria', severity: 'error', message: `${name} points at a missing id`, element: describeElement(el) });
+      }
+    });
+    if (el.getAttribute('aria-hidden') === 'true' && (el.matches(FOCUSABLE_SELECTOR) || el.querySelector(FOCUSABLE_SELECTOR))) {
+      issues.push({ rule: 'aria', severity: 'error', message: 'aria-hidden content contains focusable elements', element: describeElement(el) });
+    }
+  });
+  return issues;
+}
+
+export function auditDocument(doc: Document): A11yReport {
+  const win = doc.defaultView;
+  if (!win || !doc.body) return { score: 100, issues: [] };
+
+  const byRule = [
+    checkContrast(doc, win),
+    checkAltText(doc),
+    checkFormLabels(doc),
+    checkHeadingOrder(doc),
+    checkFocusable(doc),
+    checkAria(doc)
+  ];
+
+  const penalty = byRule.reduce((sum, issues) => sum + Math.min(
+    MAX_PENALTY_PER_RULE,
+    issues.reduce((s, issue) => s + SEVERITY_PENALTY[issue.severity], 0)
+  ), 0);
+
+  return {
+    score: Math.max(0, 100 - penalty),
+    issues: byRule.flatMap(issues => issues.slice(0, MAX_ISSUES_PER_RULE))
+  };
+}
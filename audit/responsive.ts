@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describeElement } from './accessibility';
+
+export interface OverflowReport {
+  /** Viewport width the document was rendered at */
+  width: number;
+  /** How far the page scrolls past the viewport horizontally */
+  overflowPx: number;
+  /** The outermost elements that stick out past the right edge */
+  offenders: string[];
+}
+
+const MAX_OFFENDERS = 5;
+// Sub-pixel rounding and scrollbar gutters shouldn't count as a broken layout
+const OVERFLOW_TOLERANCE = 2;
+
+// Measures horizontal overflow of a document rendered in an iframe at its current viewport width
+export function detectOverflow(doc: Document): OverflowReport | null {
+  const win = doc.defaultView;
+  if (!win || !doc.body) return null;
+
+  const width = win.innerWidth;
+  const overflowPx = Math.max(doc.documentElement.scrollWidth, doc.body.scrollWidth) - width;
+  if (overflowPx <= OVERFLOW_TOLERANCE) return { width, overflowPx: 0, offenders: [] };
+
+  const offenders: Element[] = [];
+  doc.body.querySelectorAll('*').forEach(el => {
+    if (offenders.length >= MAX_OFFENDERS) return;
+    // An overflowing child of an element already reported adds nothing
+    if (offenders.some(o => o.contains(el))) return;
+    const rect = el.getBoundingClientRect();
+    if (rect.width > 0 && rect.right > width + OVERFLOW_TOLERANCE) {
+      const position = win.getComputedStyle(el).position;
+      if (position !== 'fixed') offenders.push(el);
+    }
+  });
+
+  return { width, overflowPx: Math.round(overflowPx), offenders: offenders.map(describeElement) };
+}
@@ -3,9 +3,12 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Artifact } from '../types';
-import { StarIcon } from './Icons';
+import { StarIcon, StopIcon, RefreshIcon, XIcon } from './Icons';
+import { isAbortError } from '../utils';
+import { A11Y_RULE_LABELS, A11yIssue, A11yReport, auditDocument } from '../audit/accessibility';
+import { InspectedElement, attachInspector, inspectElement } from '../editor/inspect';
 
 interface ArtifactCardProps {
     artifact: Artifact;
@@ -13,8 +16,17 @@ interface ArtifactCardProps {
     onClick: () => void;
     onSaveToLibrary?: () => void;
     onFavorite?: () => void;
+    onCancel?: () => void;
+    onRegenerate?: (newStyle: boolean) => void;
+    /** Rejects with a user-facing message when the fix fails */
+    onFixAccessibility?: (issues: A11yIssue[]) => Promise<void>;
     isSaved?: boolean;
     isFavorite?: boolean;
+    /** Unsaved source edits to show in place of the artifact's html */
+    previewHtml?: string;
+    /** Turns the preview into an element picker */
+    isInspecting?: boolean;
+    onInspectElement?: (element: InspectedElement) => void;
 }
 
 const ArtifactCard = React.memo(({ 
@@ -23,10 +35,23 @@ const ArtifactCard = React.memo(({
     onClick,
     onSaveToLibrary,
     onFavorite,
+    onCancel,
+    onRegenerate,
+    onFixAccessibility,
     isSaved = false,
-    isFavorite = false
+    isFavorite = false,
+    previewHtml,
+    isInspecting = false,
+    onInspectElement
 }: ArtifactCardProps) => {
     const codeRef = useRef<HTMLPreElement>(null);
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const [isRegenerateMenuOpen, setIsRegenerateMenuOpen] = useState(false);
+    const [a11yReport, setA11yReport] = useState<A11yReport | null>(null);
+    const [isA11yPanelOpen, setIsA11yPanelOpen] = useState(false);
+    const [fixError, setFixError] = useState<string | null>(null);
+    // Bumped on every iframe load so the inspector re-attaches to the new document
+    const [loadCount, setLoadCount] = useState(0);
 
     // Auto-scroll logic for this specific card
     useEffect(() => {
@@ -35,16 +60,141 @@ const ArtifactCard = React.memo(({
         }
     }, [artifact.html]);
 
+    // Audit the rendered document once the final HTML has loaded into the iframe
+    const runAudit = useCallback(() => {
+        const doc = iframeRef.current?.contentDocument;
+        if (artifact.status !== 'complete' || !doc || doc.readyState !== 'complete') return;
+        try {
+            setA11yReport(auditDocument(doc));
+        } catch (err) {
+            console.error('Accessibility audit failed:', err);
+        }
+    }, [artifact.status]);
+
+    useEffect(() => {
+        if (artifact.status === 'complete') {
+            runAudit();
+        } else {
+            setA11yReport(null);
+            setIsA11yPanelOpen(false);
+        }
+    }, [artifact.status, runAudit]);
+
+    const handleLoad = () => {
+        runAudit();
+        setLoadCount(n => n + 1);
+    };
+
+    // Read through a ref so a new callback each render doesn't re-attach and drop the selection
+    const onInspectRef = useRef(onInspectElement);
+    onInspectRef.current = onInspectElement;
+
+    useEffect(() => {
+        const doc = iframeRef.current?.contentDocument;
+        if (!isInspecting || artifact.status !== 'complete' || !doc) return;
+        return attachInspector(doc, el => onInspectRef.current?.(inspectElement(el, artifact.html)));
+    }, [isInspecting, artifact.status, artifact.html, loadCount]);
+
     const isBlurring = artifact.status === 'streaming';
+    const a11yGrade = a11yReport && (a11yReport.score >= 90 ? 'good' : a11yReport.score >= 70 ? 'ok' : 'poor');
 
     return (
         <div 
-            className={`artifact-card ${isFocused ? 'focused' : ''} ${isBlurring ? 'generating' : ''}`}
+            className={`artifact-card ${isFocused ? 'focused' : ''} ${isBlurring ? 'generating' : ''} ${artifact.status === 'cancelled' ? 'cancelled' : ''} ${isInspecting ? 'inspecting' : ''}`}
             onClick={onClick}
         >
             <div className="artifact-header">
                 <span className="artifact-style-tag">{artifact.styleName}</span>
                 <div className="artifact-header-actions">
+                    {a11yReport && (
+                        <div className="a11y-audit" onMouseLeave={() => setIsA11yPanelOpen(false)}>
+                            <button
+                                className={`a11y-badge ${a11yGrade}`}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setIsA11yPanelOpen(open => !open);
+                                }}
+                                aria-label={`Accessibility score ${a11yReport.score} out of 100`}
+                                title={`Accessibility score: ${a11yReport.score}/100`}
+                            >
+                                A11y {a11yReport.score}
+                            </button>
+                            {isA11yPanelOpen && (
+                                <div className="a11y-panel" onClick={(e) => e.stopPropagation()}>
+                                    {a11yReport.issues.length === 0 ? (
+                                        <div className="a11y-panel-empty">No issues found</div>
+                                    ) : (
+                                        <>
+                                            <ul className="a11y-issues">
+                                                {a11yReport.issues.map((issue, i) => (
+                                                    <li key={i} className={`a11y-issue ${issue.severity}`}>
+                                                        <span className="a11y-issue-rule">{A11Y_RULE_LABELS[issue.rule]}</span>
+                                                        <span className="a11y-issue-message">{issue.message}</span>
+                                                        <code className="a11y-issue-element">{issue.element}</code>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                            {onFixAccessibility && (
+                                                <button
+                                                    className="a11y-fix-button"
+                                                    onClick={() => {
+                                                        setIsA11yPanelOpen(false);
+                                                        setFixError(null);
+                                                        onFixAccessibility(a11yReport.issues).catch((err: any) => {
+                                                            if (!isAbortError(err)) setFixError(err.message || 'The fix could not be applied');
+                                                        });
+                                                    }}
+                                                >
+                                                    Fix issues with AI
+                                                </button>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {artifact.status === 'cancelled' && (
+                        <span className="artifact-status-badge">Cancelled</span>
+                    )}
+                    {onCancel && artifact.status === 'streaming' && (
+                        <button
+                            className="cancel-artifact-button"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onCancel();
+                            }}
+                            aria-label="Stop generating this design"
+                            title="Stop generating this design"
+                        >
+                            <StopIcon />
+                        </button>
+                    )}
+                    {onRegenerate && artifact.status !== 'streaming' && (
+                        <div className="regenerate-artifact" onMouseLeave={() => setIsRegenerateMenuOpen(false)}>
+                            <button
+                                className="regenerate-artifact-button"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setIsRegenerateMenuOpen(open => !open);
+                                }}
+                                aria-label="Regenerate this design"
+                                title="Regenerate this design"
+                            >
+                                <RefreshIcon />
+                            </button>
+                            {isRegenerateMenuOpen && (
+                                <div className="regenerate-artifact-menu">
+                                    <button onClick={(e) => { e.stopPropagation(); setIsRegenerateMenuOpen(false); onRegenerate(false); }}>
+                                        Same style
+                                    </button>
+                                    <button onClick={(e) => { e.stopPropagation(); setIsRegenerateMenuOpen(false); onRegenerate(true); }}>
+                                        New style
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
                     {onFavorite && artifact.status === 'complete' && (
                         <button
                             className={`favorite-button-card ${isFavorite ? 'active' : ''}`}
@@ -74,6 +224,14 @@ const ArtifactCard = React.memo(({
                 </div>
             </div>
             <div className="artifact-card-inner">
+                {fixError && (
+                    <div className="artifact-fix-error" role="alert" onClick={(e) => e.stopPropagation()}>
+                        <span>Accessibility fix failed: {fixError}</span>
+                        <button onClick={() => setFixError(null)} aria-label="Dismiss" title="Dismiss">
+                            <XIcon />
+                        </button>
+                    </div>
+                )}
                 {isBlurring && (
                     <div className="generating-overlay">
                         <pre ref={codeRef} className="code-stream-preview">
@@ -82,7 +240,9 @@ const ArtifactCard = React.memo(({
                     </div>
                 )}
                 <iframe 
-                    srcDoc={artifact.html} 
+                    ref={iframeRef}
+                    srcDoc={previewHtml ?? artifact.html} 
+                    onLoad={handleLoad}
                     title={artifact.id} 
                     sandbox="allow-scripts allow-forms allow-modals allow-popups allow-presentation allow-same-origin"
                     className="artifact-iframe"
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect } from 'react';
+import { MAX_ARTIFACT_COUNT, MIN_ARTIFACT_COUNT } from '../generation/engine';
+import { GridIcon } from './Icons';
+
+interface ArtifactCountPickerProps {
+  count: number;
+  onChange: (count: number) => void;
+}
+
+const COUNTS = Array.from({ length: MAX_ARTIFACT_COUNT - MIN_ARTIFACT_COUNT + 1 }, (_, i) => MIN_ARTIFACT_COUNT + i);
+
+export default function ArtifactCountPicker({ count, onChange }: ArtifactCountPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  return (
+    <div className="model-selector artifact-count-picker" ref={dropdownRef}>
+      <button
+        className="model-selector-button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={`Designs per prompt: ${count}`}
+        title="Designs per prompt"
+      >
+        <span className="model-selector-label">
+          <GridIcon />
+          <span className="model-name">{count === 1 ? '1 design' : `${count} designs`}</span>
+        </span>
+        <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d={isOpen ? "M3 9l3-3 3 3" : "M9 3l-3 3-3-3"} />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="model-selector-dropdown artifact-count-dropdown">
+          <div className="model-group-header">Designs per prompt</div>
+          <div className="artifact-count-options">
+            {COUNTS.map(n => (
+              <button
+                key={n}
+                className={n === count ? 'selected' : ''}
+                onClick={() => {
+                  onChange(n);
+                  setIsOpen(false);
+                }}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+          <div className="artifact-count-hint">1 for a quick single shot, 9 or more for wide explorations.</div>
+        </div>
+      )}
+    </div>
+  );
+}
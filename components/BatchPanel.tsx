@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo, useRef } from 'react';
+import { StylePreset } from '../types';
+import { AIModel, getModelById } from '../models';
+import type { BatchRow, BatchRowStatus, BatchRun } from '../generation/types';
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, parseBatchInput } from '../generation/batch';
+
+interface BatchPanelProps {
+  run: BatchRun | null;
+  presets: StylePreset[];
+  /** Models as reported by /api/models, for checking the model column */
+  models: AIModel[];
+  defaultModelId: string;
+  /** Finished artifacts per session, for the per-row progress bars */
+  progress: Record<string, { finished: number; total: number }>;
+  onStart: (rows: BatchRow[], concurrency: number) => void;
+  onCancel: () => void;
+  onViewSession: (sessionId: string) => void;
+  onSaveToCollection: (name: string) => void;
+  onReset: () => void;
+}
+
+const STATUS_LABELS: Record<BatchRowStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  complete: 'Done',
+  partial: 'Partly done',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const EXAMPLE = `prompt,preset,model
+Pricing table with three tiers,,
+Onboarding checklist for a budgeting app,,`;
+
+export default function BatchPanel({
+  run,
+  presets,
+  models,
+  defaultModelId,
+  progress,
+  onStart,
+  onCancel,
+  onViewSession,
+  onSaveToCollection,
+  onReset
+}: BatchPanelProps) {
+  const [text, setText] = useState('');
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [collectionName, setCollectionName] = useState(() => `Batch ${new Date().toLocaleDateString()}`);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(() => parseBatchInput(text, presets, models), [text, presets, models]);
+  const runnable = rows.filter(r => !r.problem);
+  const presetName = (id?: string) => presets.find(p => p.id === id)?.name;
+  const modelName = (id?: string) => {
+    const modelId = id ?? defaultModelId;
+    return (models.find(m => m.id === modelId) ?? getModelById(modelId))?.name ?? modelId;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setText(await file.text());
+    } catch (err) {
+      console.error('Failed to read batch file:', err);
+    }
+  };
+
+  if (!run) {
+    return (
+      <div className="batch-panel">
+        <p className="batch-hint">
+          Paste one brief per line, or a CSV with a <code>prompt</code> column and optional <code>preset</code> and <code>model</code> columns.
+          Each brief becomes its own session.
+        </p>
+        <textarea
+          className="batch-input"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={EXAMPLE}
+          rows={8}
+          spellCheck={false}
+          aria-label="Briefs"
+        />
+        <div className="export-toolbar">
+          <button className="export-action" onClick={() => fileInputRef.current?.click()}>
+            Upload CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" hidden onChange={handleFile} />
+          <label className="batch-concurrency">
+            Run at once
+            <input
+              type="number"
+              min={1}
+              max={MAX_BATCH_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            />
+          </label>
+          <button className="export-action active" onClick={() => onStart(rows, concurrency)} disabled={runnable.length === 0}>
+            Start batch ({runnable.length})
+          </button>
+        </div>
+
+        {rows.length > 0 && (
+          <table className="batch-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Brief</th>
+                <th>Style</th>
+                <th>Model</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.id} className={row.problem ? 'invalid' : ''} title={row.problem ? `Skipped: ${row.problem}` : undefined}>
+                  <td>{row.line}</td>
+                  <td>
+                    {row.prompt}
+                    {row.problem && <div className="batch-problem">Skipped: {row.problem}</div>}
+                  </td>
+                  <td>{presetName(row.presetId) ?? '—'}</td>
+                  <td>{modelName(row.modelId)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  }
+
+  const counts = run.rows.reduce((acc, row) => {
+    acc[row.status] = (acc[row.status] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<BatchRowStatus, number>>);
+  const settled = run.rows.filter(r => r.status !== 'queued' && r.status !== 'running').length;
+  const isFinished = !!run.finishedAt;
+  const elapsed = Math.round(((run.finishedAt ?? Date.now()) - run.startedAt) / 1000);
+
+  return (
+    <div className="batch-panel">
+      <div className="batch-summary">
+        <div className="batch-progress" role="progressbar" aria-valuemin={0} aria-valuemax={run.rows.length} aria-valuenow={settled}>
+          <div className="batch-progress-fill" style={{ width: `${(settled / run.rows.length) * 100}%` }} />
+        </div>
+        <div className="batch-counts">
+          <span>{settled}/{run.rows.length} briefs</span>
+          {(Object.keys(STATUS_LABELS) as BatchRowStatus[]).filter(status => counts[status]).map(status => (
+            <span key={status} className={`batch-status ${status}`}>{STATUS_LABELS[status]} {counts[status]}</span>
+          ))}
+          {isFinished && <span>in {elapsed}s</span>}
+        </div>
+      </div>
+
+      <div className="export-toolbar">
+        {isFinished ? (
+          <button className="export-action" onClick={onReset}>New batch</button>
+        ) : (
+          <button className="export-action" onClick={onCancel}>Cancel batch</button>
+        )}
+        <span className="batch-concurrency">{run.concurrency} at a time</span>
+      </div>
+
+      {isFinished && (
+        run.collectionId ? (
+          <div className="batch-saved">Saved to a new collection.</div>
+        ) : (counts.complete || counts.partial) ? (
+          <form
+            className="batch-collection"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (collectionName.trim()) onSaveToCollection(collectionName.trim());
+            }}
+          >
+            <input value={collectionName} onChange={(e) => setCollectionName(e.target.value)} aria-label="Collection name" />
+            <button type="submit" className="export-action active" disabled={!collectionName.trim()}>
+              Save results to collection
+            </button>
+          </form>
+        ) : null
+      )}
+
+      <table className="batch-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Brief</th>
+            <th>Status</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {run.rows.map(row => {
+            const rowProgress = row.sessionId ? progress[row.sessionId] : undefined;
+            return (
+              <tr key={row.id}>
+                <td>{row.line}</td>
+                <td>
+                  {row.prompt}
+                  <div className="batch-row-meta">
+                    {[presetName(row.presetId), modelName(row.modelId)].filter(Boolean).join(' · ')}
+                  </div>
+                </td>
+                <td>
+                  <span className={`batch-status ${row.status}`}>{STATUS_LABELS[row.status]}</span>
+                  {row.status === 'running' && rowProgress && (
+                    <div className="batch-row-progress">{rowProgress.finished}/{rowProgress.total}</div>
+                  )}
+                </td>
+                <td>
+                  {row.sessionId && (
+                    <button className="export-action" onClick={() => onViewSession(row.sessionId!)}>View</button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
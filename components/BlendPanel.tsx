@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { BlendDimension, BlendMix, StyleReference } from '../types';
+import { BLEND_DIMENSIONS, defaultBlendMixes, describeBlendMix, MIN_BLEND_SOURCES, normalizeWeights, sourceLetter } from '../generation/blend';
+import { MAX_ARTIFACT_COUNT } from '../generation/engine';
+import { BlendIcon, PlusIcon, XIcon } from './Icons';
+
+interface BlendPanelProps {
+  sources: StyleReference[];
+  /** How many mixes to start with; follows the designs-per-prompt setting */
+  defaultCount: number;
+  onGenerate: (mixes: BlendMix[]) => void;
+  onRemoveSource: (index: number) => void;
+}
+
+// One color per source letter, used for its slider and its share of each preview bar
+const SOURCE_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24'];
+
+export default function BlendPanel({ sources, defaultCount, onGenerate, onRemoveSource }: BlendPanelProps) {
+  const [mixes, setMixes] = useState<BlendMix[]>(() => defaultBlendMixes(sources.length, defaultCount));
+
+  // Weights are per source, so a different set of sources starts over
+  useEffect(() => {
+    setMixes(defaultBlendMixes(sources.length, defaultCount));
+  }, [sources.length]);
+
+  const updateMix = (index: number, patch: Partial<BlendMix>) => {
+    setMixes(prev => prev.map((mix, i) => (i === index ? { ...mix, ...patch } : mix)));
+  };
+
+  const setWeight = (mixIndex: number, sourceIndex: number, value: number) => {
+    const weights = [...mixes[mixIndex].weights];
+    weights[sourceIndex] = value;
+    updateMix(mixIndex, { weights });
+  };
+
+  const setDimension = (mixIndex: number, dimension: BlendDimension, owner: string) => {
+    const dimensions = { ...mixes[mixIndex].dimensions };
+    if (owner === '') delete dimensions[dimension];
+    else dimensions[dimension] = Number(owner);
+    updateMix(mixIndex, { dimensions: Object.keys(dimensions).length > 0 ? dimensions : undefined });
+  };
+
+  const normalized = mixes.map(mix => ({ ...mix, weights: normalizeWeights(mix.weights) }));
+
+  return (
+    <div className="blend-panel">
+      <div className="blend-sources">
+        {sources.map((source, i) => (
+          <div key={i} className="blend-source">
+            <div className="blend-source-preview">
+              <iframe srcDoc={source.html} title={source.styleName} sandbox="allow-same-origin" tabIndex={-1} />
+            </div>
+            <div className="blend-source-label">
+              <span className="blend-source-letter" style={{ background: SOURCE_COLORS[i] }}>{sourceLetter(i)}</span>
+              <span title={source.styleName}>{source.styleName}</span>
+              {sources.length > MIN_BLEND_SOURCES && (
+                <button onClick={() => onRemoveSource(i)} aria-label={`Remove ${source.styleName} from blend`}>
+                  <XIcon />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="export-toolbar">
+        <button className="export-action" onClick={() => setMixes(prev => [...prev, { weights: normalizeWeights(sources.map(() => 1)) }])} disabled={mixes.length >= MAX_ARTIFACT_COUNT}>
+          <PlusIcon /> Add mix
+        </button>
+        <button className="export-action" onClick={() => setMixes(defaultBlendMixes(sources.length, defaultCount))}>
+          Reset
+        </button>
+        <button className="export-action active" onClick={() => onGenerate(normalized)} disabled={mixes.length === 0}>
+          <BlendIcon /> Generate {mixes.length} {mixes.length === 1 ? 'blend' : 'blends'}
+        </button>
+      </div>
+
+      <div className="blend-mix-grid">
+        {mixes.map((mix, mixIndex) => (
+          <div key={mixIndex} className="blend-mix">
+            <div className="blend-mix-header">
+              <span className="blend-mix-name" title={describeBlendMix(sources, normalized[mixIndex])}>
+                {describeBlendMix(sources, normalized[mixIndex])}
+              </span>
+              <button onClick={() => setMixes(prev => prev.filter((_, i) => i !== mixIndex))} aria-label="Remove mix" disabled={mixes.length === 1}>
+                <XIcon />
+              </button>
+            </div>
+
+            <div className="blend-mix-bar" aria-hidden="true">
+              {normalized[mixIndex].weights.map((weight, i) => (
+                <span key={i} style={{ width: `${weight}%`, background: SOURCE_COLORS[i] }} />
+              ))}
+            </div>
+
+            {sources.map((source, sourceIndex) => (
+              <label key={sourceIndex} className="blend-slider">
+                <span className="blend-source-letter" style={{ background: SOURCE_COLORS[sourceIndex] }}>{sourceLetter(sourceIndex)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={mix.weights[sourceIndex] ?? 0}
+                  onChange={(e) => setWeight(mixIndex, sourceIndex, Number(e.target.value))}
+                  style={{ accentColor: SOURCE_COLORS[sourceIndex] }}
+                  aria-label={`Weight of ${source.styleName}`}
+                />
+                <span className="blend-slider-value">{normalized[mixIndex].weights[sourceIndex]}%</span>
+              </label>
+            ))}
+
+            <div className="blend-dimensions">
+              {BLEND_DIMENSIONS.map(dimension => (
+                <label key={dimension.id} title={dimension.covers}>
+                  {dimension.label}
+                  <select
+                    value={mix.dimensions?.[dimension.id] ?? ''}
+                    onChange={(e) => setDimension(mixIndex, dimension.id, e.target.value)}
+                  >
+                    <option value="">Mixed</option>
+                    {sources.map((_, i) => (
+                      <option key={i} value={i}>From {sourceLetter(i)}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { CompareIcon, LibraryIcon, TrophyIcon, XIcon } from './Icons';
+
+export interface CompareItem {
+  key: string;
+  styleName: string;
+  prompt: string;
+  html: string;
+  fromLibrary: boolean;
+  /** How this design fared in earlier comparisons */
+  record?: { wins: number; total: number };
+}
+
+interface CompareViewProps {
+  items: CompareItem[];
+  /** Key of the winner once one has been picked */
+  winnerKey: string | null;
+  onPickWinner: (key: string) => void;
+  onRemove: (key: string) => void;
+  onClose: () => void;
+}
+
+type CompareMode = 'side-by-side' | 'overlay';
+
+export default function CompareView({ items, winnerKey, onPickWinner, onRemove, onClose }: CompareViewProps) {
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [linkedScroll, setLinkedScroll] = useState(true);
+  const [baseKey, setBaseKey] = useState(items[0]?.key);
+  const [topKey, setTopKey] = useState(items[1]?.key);
+  const [opacity, setOpacity] = useState(50);
+
+  const framesRef = useRef(new Map<string, HTMLIFrameElement>());
+  const detachRef = useRef(new Map<string, () => void>());
+  // Frames we just scrolled ourselves; their next scroll event is an echo, not the user
+  const echoesRef = useRef(new Set<string>());
+  const linkedRef = useRef(linkedScroll);
+  linkedRef.current = linkedScroll;
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Keep the overlay pair pointing at items that are still being compared
+  useEffect(() => {
+    const keys = items.map(item => item.key);
+    const nextBase = baseKey && keys.includes(baseKey) ? baseKey : keys[0];
+    const nextTop = topKey && keys.includes(topKey) && topKey !== nextBase ? topKey : keys.find(key => key !== nextBase);
+    if (nextBase !== baseKey) setBaseKey(nextBase);
+    if (nextTop !== topKey) setTopKey(nextTop);
+  }, [items, baseKey, topKey]);
+
+  useEffect(() => () => detachRef.current.forEach(detach => detach()), []);
+
+  // Side by side, designs differ in height so scroll is matched proportionally; stacked, by pixel
+  const syncScroll = useCallback((sourceKey: string) => {
+    const source = framesRef.current.get(sourceKey)?.contentWindow;
+    if (!source) return;
+    const sourceRoot = source.document.documentElement;
+    const sourceRange = sourceRoot.scrollHeight - source.innerHeight;
+    const ratio = sourceRange > 0 ? source.scrollY / sourceRange : 0;
+
+    framesRef.current.forEach((frame, key) => {
+      const target = frame.contentWindow;
+      if (key === sourceKey || !target) return;
+      const targetRange = target.document.documentElement.scrollHeight - target.innerHeight;
+      const top = modeRef.current === 'overlay' ? source.scrollY : ratio * targetRange;
+      if (Math.abs(target.scrollY - top) < 1) return;
+      echoesRef.current.add(key);
+      target.scrollTo({ top, left: modeRef.current === 'overlay' ? source.scrollX : target.scrollX });
+    });
+  }, []);
+
+  const handleFrameLoad = useCallback((key: string) => {
+    detachRef.current.get(key)?.();
+    const win = framesRef.current.get(key)?.contentWindow;
+    if (!win) return;
+    const handleScroll = () => {
+      if (echoesRef.current.delete(key)) return;
+      if (linkedRef.current) syncScroll(key);
+    };
+    win.addEventListener('scroll', handleScroll, { passive: true });
+    detachRef.current.set(key, () => win.removeEventListener('scroll', handleScroll));
+  }, [syncScroll]);
+
+  // Scroll listeners live on the frame's window, so they go away with the frame itself
+  const frameRef = (key: string) => (frame: HTMLIFrameElement | null) => {
+    if (frame) framesRef.current.set(key, frame);
+    else framesRef.current.delete(key);
+  };
+
+  const renderFrame = (item: CompareItem, style?: React.CSSProperties) => (
+    <iframe
+      ref={frameRef(item.key)}
+      srcDoc={item.html}
+      onLoad={() => handleFrameLoad(item.key)}
+      title={item.styleName}
+      sandbox="allow-scripts allow-forms allow-modals allow-same-origin"
+      className="compare-frame"
+      style={style}
+    />
+  );
+
+  const renderHeader = (item: CompareItem) => (
+    <div className={`compare-column-header ${winnerKey === item.key ? 'winner' : ''}`}>
+      <div className="compare-column-title">
+        <span title={item.styleName}>{item.styleName}</span>
+        <div className="compare-column-meta">
+          {item.fromLibrary && <span className="compare-badge"><LibraryIcon /> Library</span>}
+          {item.record && item.record.total > 0 && (
+            <span className="compare-badge">Won {item.record.wins} of {item.record.total} before</span>
+          )}
+        </div>
+      </div>
+      {winnerKey === item.key ? (
+        <span className="compare-winner-badge"><TrophyIcon /> Winner saved</span>
+      ) : (
+        <button className="export-action" onClick={() => onPickWinner(item.key)} disabled={!!winnerKey}>
+          <TrophyIcon /> Pick winner
+        </button>
+      )}
+      {items.length > 2 && !winnerKey && (
+        <button className="compare-remove" onClick={() => onRemove(item.key)} aria-label={`Remove ${item.styleName} from comparison`}>
+          <XIcon />
+        </button>
+      )}
+    </div>
+  );
+
+  const base = items.find(item => item.key === baseKey);
+  const top = items.find(item => item.key === topKey);
+
+  return (
+    <div className="compare-view" role="dialog" aria-label="Compare designs">
+      <div className="compare-toolbar">
+        <div className="compare-title"><CompareIcon /> Comparing {items.length} designs</div>
+        <div className="compare-modes">
+          <button className={mode === 'side-by-side' ? 'active' : ''} onClick={() => setMode('side-by-side')}>Side by side</button>
+          <button className={mode === 'overlay' ? 'active' : ''} onClick={() => setMode('overlay')}>Onion skin</button>
+        </div>
+        <label className="compare-option">
+          <input type="checkbox" checked={linkedScroll} onChange={(e) => setLinkedScroll(e.target.checked)} />
+          Linked scroll
+        </label>
+        <button className="compare-close" onClick={onClose} aria-label="Close compare">
+          <XIcon />
+        </button>
+      </div>
+
+      {mode === 'side-by-side' ? (
+        <div className="compare-columns" style={{ gridTemplateColumns: `repeat(${items.length}, 1fr)` }}>
+          {items.map(item => (
+            <div key={item.key} className={`compare-column ${winnerKey === item.key ? 'winner' : ''}`}>
+              {renderHeader(item)}
+              {renderFrame(item)}
+            </div>
+          ))}
+        </div>
+      ) : base && top ? (
+        <div className="compare-overlay">
+          <div className="compare-overlay-controls">
+            <label>
+              Base
+              <select value={base.key} onChange={(e) => setBaseKey(e.target.value)}>
+                {items.filter(item => item.key !== top.key).map(item => (
+                  <option key={item.key} value={item.key}>{item.styleName}</option>
+                ))}
+              </select>
+            </label>
+            <label className="compare-opacity">
+              <span>{100 - opacity}%</span>
+              <input type="range" min={0} max={100} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} aria-label="Top layer opacity" />
+              <span>{opacity}%</span>
+            </label>
+            <label>
+              Top
+              <select value={top.key} onChange={(e) => setTopKey(e.target.value)}>
+                {items.filter(item => item.key !== base.key).map(item => (
+                  <option key={item.key} value={item.key}>{item.styleName}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="compare-overlay-headers">
+            {renderHeader(base)}
+            {renderHeader(top)}
+          </div>
+          <div className="compare-overlay-stage">
+            <React.Fragment key={base.key}>{renderFrame(base)}</React.Fragment>
+            <React.Fragment key={top.key}>{renderFrame(top, { opacity: opacity / 100 })}</React.Fragment>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
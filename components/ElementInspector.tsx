@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { InspectedElement } from '../editor/inspect';
+import { isAbortError } from '../utils';
+import { StopIcon, ThinkingIcon } from './Icons';
+
+interface ElementInspectorProps {
+  element: InspectedElement | null;
+  /** Resolves once the edit is spliced in; rejects with a user-facing message */
+  onApply: (request: string) => Promise<void>;
+  onStop: () => void;
+  disabled?: boolean;
+}
+
+export default function ElementInspector({ element, onApply, onStop, disabled }: ElementInspectorProps) {
+  const [request, setRequest] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+
+  // A new pick starts a new edit
+  useEffect(() => {
+    setError(null);
+    setShowSource(false);
+  }, [element]);
+
+  const apply = async () => {
+    const trimmed = request.trim();
+    if (!trimmed || isApplying) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply(trimmed);
+      setRequest('');
+    } catch (e: any) {
+      if (!isAbortError(e)) setError(e.message || 'The edit could not be applied');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!element) {
+    return (
+      <div className="element-inspector">
+        <p className="element-inspector-hint">
+          Hover the focused design to highlight elements, then click one to select it. Links and buttons won't fire while inspecting.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="element-inspector">
+      <div className="element-inspector-selector">
+        <span className="element-inspector-tag">&lt;{element.tagName}&gt;</span>
+        <code>{element.selector}</code>
+      </div>
+
+      {element.styles.length > 0 && (
+        <table className="element-inspector-styles">
+          <tbody>
+            {element.styles.map(([prop, value]) => (
+              <tr key={prop}>
+                <th>{prop}</th>
+                <td>{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {element.source ? (
+        <>
+          <button className="element-inspector-toggle" onClick={() => setShowSource(s => !s)}>
+            {showSource ? 'Hide source' : `Show source (${element.source.split('\n').length} lines)`}
+          </button>
+          {showSource && <pre className="element-inspector-source">{element.source}</pre>}
+
+          <div className="element-inspector-edit">
+            <textarea
+              value={request}
+              onChange={(e) => setRequest(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault();
+                  apply();
+                }
+              }}
+              placeholder={`Change this ${element.tagName}, e.g. "make it a pill with an icon"`}
+              rows={3}
+              disabled={isApplying || disabled}
+              aria-label="Describe a change to the selected element"
+            />
+            {isApplying ? (
+              <button className="export-action" onClick={onStop}>
+                <StopIcon /> Stop
+              </button>
+            ) : (
+              <button className="export-action active" onClick={apply} disabled={!request.trim() || disabled} title="Apply (Ctrl/Cmd+Enter)">
+                Apply to element
+              </button>
+            )}
+          </div>
+          {isApplying && (
+            <div className="element-inspector-status">
+              <ThinkingIcon /> Rewriting {element.selector}...
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="element-inspector-warning">
+          This element can't be traced back to the source (it was likely created by a script), so it can't be edited on its own. Try its parent.
+        </p>
+      )}
+
+      {error && <p className="element-inspector-warning">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { CopyIcon, DownloadIcon, SparklesIcon, ThinkingIcon } from './Icons';
+import { exportToReact, ReactStyleMode } from '../exporters/react';
+import { EXPORT_FORMATS, ExportFormat, exportArtifact } from '../exporters';
+import { downloadExportFiles } from '../exporters/shared';
+import { buildReactCleanupPrompt } from '../generation/prompts';
+import { stripMarkdownFences } from '../generation/pipeline';
+import { generateContent, isAbortError } from '../utils';
+import type { TokenUsage } from '../types';
+
+interface ExportPanelProps {
+  html: string;
+  styleName: string;
+  modelId: string;
+  initialFormat?: ExportFormat;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export default function ExportPanel({ html, styleName, modelId, initialFormat = 'react', onUsage }: ExportPanelProps) {
+  const [format, setFormat] = useState<ExportFormat>(initialFormat);
+  const [styleMode, setStyleMode] = useState<ReactStyleMode>('module');
+  const [cleanedComponent, setCleanedComponent] = useState<string | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [cleanupError, setCleanupError] = useState<string | null>(null);
+  const [copiedFile, setCopiedFile] = useState<string | null>(null);
+  const cleanupControllerRef = useRef<AbortController | null>(null);
+
+  const result = useMemo(
+    () => (format === 'react' ? exportToReact(html, { styleName, styleMode }) : exportArtifact(format, html, styleName)),
+    [html, styleName, format, styleMode]
+  );
+
+  // The model pass only rewrites the .tsx; companion files always come from the deterministic export
+  const files = cleanedComponent
+    ? result.files.map((file, i) => (i === 0 ? { ...file, content: cleanedComponent } : file))
+    : result.files;
+
+  useEffect(() => {
+    setCleanedComponent(null);
+    setCleanupError(null);
+  }, [result]);
+
+  // Don't leave a cleanup request running once the drawer is closed
+  useEffect(() => () => cleanupControllerRef.current?.abort(), []);
+
+  const handleCleanup = async () => {
+    if (isCleaning) {
+      cleanupControllerRef.current?.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    cleanupControllerRef.current = controller;
+    setIsCleaning(true);
+    setCleanupError(null);
+    try {
+      const prompt = buildReactCleanupPrompt(result.files[0].content, result.warnings);
+      const response = await generateContent(prompt, modelId, controller.signal);
+      if (response.usage) onUsage?.(response.usage);
+      const cleaned = stripMarkdownFences(response.text);
+      if (!cleaned) throw new Error('The model returned an empty component');
+      setCleanedComponent(cleaned.endsWith('\n') ? cleaned : cleaned + '\n');
+    } catch (e: any) {
+      if (!isAbortError(e)) {
+        console.error('Failed to clean up React export:', e);
+        setCleanupError(e.message || 'Cleanup failed');
+      }
+    } finally {
+      if (cleanupControllerRef.current === controller) cleanupControllerRef.current = null;
+      setIsCleaning(false);
+    }
+  };
+
+  const handleCopy = async (filename: string, content: string) => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopiedFile(filename);
+      setTimeout(() => setCopiedFile(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy code:', err);
+    }
+  };
+
+  return (
+    <div className="export-panel">
+      <div className="export-toolbar">
+        <div className="export-toggle" role="group" aria-label="Framework">
+          {EXPORT_FORMATS.map(f => (
+            <button
+              key={f.id}
+              className={format === f.id ? 'active' : ''}
+              onClick={() => setFormat(f.id)}
+              disabled={isCleaning}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        {format === 'react' && (
+          <>
+            <div className="export-toggle" role="group" aria-label="CSS output">
+              <button className={styleMode === 'module' ? 'active' : ''} onClick={() => setStyleMode('module')} disabled={isCleaning}>
+                CSS module
+              </button>
+              <button className={styleMode === 'styled' ? 'active' : ''} onClick={() => setStyleMode('styled')} disabled={isCleaning}>
+                Style block
+              </button>
+            </div>
+            <button
+              className={`export-action ${isCleaning ? 'active' : ''}`}
+              onClick={handleCleanup}
+              title={isCleaning ? 'Stop the cleanup request' : 'Ask the selected model to tidy up the converted component'}
+            >
+              {isCleaning ? <><ThinkingIcon /> Cleaning up... (stop)</> : <><SparklesIcon /> {cleanedComponent ? 'Clean up again' : 'Clean up with AI'}</>}
+            </button>
+            {cleanedComponent && (
+              <button className="export-action" onClick={() => setCleanedComponent(null)}>
+                Show original
+              </button>
+            )}
+          </>
+        )}
+        <button className="export-action" onClick={() => downloadExportFiles(files)}>
+          <DownloadIcon /> Download
+        </button>
+      </div>
+
+      {cleanupError && <div className="export-error">{cleanupError}</div>}
+
+      {result.warnings.length > 0 && !cleanedComponent && (
+        <ul className="export-warnings">
+          {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+
+      {files.map(file => (
+        <div key={file.filename} className="export-file">
+          <div className="export-file-header">
+            <span>{file.filename}</span>
+            <button
+              className={`copy-code-button ${copiedFile === file.filename ? 'copied' : ''}`}
+              onClick={() => handleCopy(file.filename, file.content)}
+            >
+              <CopyIcon /> {copiedFile === file.filename ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+          <pre className="code-block"><code>{file.content}</code></pre>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { ArtifactVersion } from '../types';
+import { DiffLine, VERSION_SOURCE_LABELS, diffLines } from '../versions';
+
+interface HistoryPanelProps {
+  versions: ArtifactVersion[];
+  pinnedVersionId?: string;
+  onRevert: (versionId: string) => void;
+  onPin: (versionId: string) => void;
+  disabled?: boolean;
+}
+
+// Unchanged runs longer than this collapse, keeping a few lines of context either side
+const DIFF_CONTEXT = 3;
+
+type DiffRow = DiffLine | { type: 'skip'; count: number };
+
+function collapseUnchanged(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let run: DiffLine[] = [];
+  const flush = (isEdge: 'start' | 'end' | null) => {
+    const keepBefore = isEdge === 'start' ? 0 : DIFF_CONTEXT;
+    const keepAfter = isEdge === 'end' ? 0 : DIFF_CONTEXT;
+    if (run.length > keepBefore + keepAfter + 1) {
+      rows.push(...run.slice(0, keepBefore), { type: 'skip', count: run.length - keepBefore - keepAfter }, ...run.slice(run.length - keepAfter));
+    } else {
+      rows.push(...run);
+    }
+    run = [];
+  };
+  lines.forEach(line => {
+    if (line.type === 'same') {
+      run.push(line);
+    } else {
+      flush(rows.length === 0 ? 'start' : null);
+      rows.push(line);
+    }
+  });
+  flush(rows.length === 0 ? null : 'end');
+  return rows;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export default function HistoryPanel({ versions, pinnedVersionId, onRevert, onPin, disabled }: HistoryPanelProps) {
+  const current = versions[versions.length - 1];
+  const [selectedId, setSelectedId] = useState<string>(() => versions[Math.max(0, versions.length - 2)].id);
+  const [view, setView] = useState<'preview' | 'diff'>('preview');
+
+  // Follow the list when a revert or new edit appends a version
+  useEffect(() => {
+    if (!versions.some(v => v.id === selectedId)) setSelectedId(current.id);
+  }, [versions, selectedId, current.id]);
+
+  const selected = versions.find(v => v.id === selectedId) ?? current;
+  const selectedNumber = versions.indexOf(selected) + 1;
+  const isCurrent = selected.id === current.id;
+
+  const diffRows = useMemo(
+    () => (view === 'diff' ? collapseUnchanged(diffLines(selected.html, current.html)) : []),
+    [view, selected.html, current.html]
+  );
+  const changeCount = diffRows.filter(r => r.type === 'added' || r.type === 'removed').length;
+
+  return (
+    <div className="history-panel">
+      <ol className="history-list" reversed>
+        {versions.slice().reverse().map(version => {
+          const number = versions.indexOf(version) + 1;
+          const revertedFrom = version.revertedFrom ? versions.findIndex(v => v.id === version.revertedFrom) + 1 : 0;
+          return (
+            <li key={version.id}>
+              <button
+                className={`history-item ${version.id === selected.id ? 'active' : ''}`}
+                onClick={() => setSelectedId(version.id)}
+              >
+                <span className="history-item-number">v{number}</span>
+                <span className="history-item-source">
+                  {VERSION_SOURCE_LABELS[version.source]}{revertedFrom > 0 ? ` to v${revertedFrom}` : ''}
+                </span>
+                <span className="history-item-time">{formatTime(version.createdAt)}</span>
+                {version.id === current.id && <span className="history-item-badge">Current</span>}
+                {version.id === pinnedVersionId && <span className="history-item-badge pinned">In library</span>}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="export-toolbar">
+        <div className="export-toggle" role="group" aria-label="Comparison view">
+          <button className={view === 'preview' ? 'active' : ''} onClick={() => setView('preview')}>Side by side</button>
+          <button className={view === 'diff' ? 'active' : ''} onClick={() => setView('diff')}>HTML diff</button>
+        </div>
+        <button
+          className="export-action"
+          onClick={() => onPin(selected.id)}
+          disabled={disabled || selected.id === pinnedVersionId}
+          title="Keep this version in the library"
+        >
+          {selected.id === pinnedVersionId ? 'Pinned' : 'Pin to library'}
+        </button>
+        <button className="export-action" onClick={() => onRevert(selected.id)} disabled={disabled || isCurrent}>
+          Revert to v{selectedNumber}
+        </button>
+      </div>
+
+      {view === 'preview' ? (
+        <div className="history-compare">
+          <figure>
+            <figcaption>v{selectedNumber} · {selected.styleName}</figcaption>
+            <iframe srcDoc={selected.html} title={`Version ${selectedNumber}`} sandbox="allow-scripts allow-same-origin" />
+          </figure>
+          {!isCurrent && (
+            <figure>
+              <figcaption>Current · {current.styleName}</figcaption>
+              <iframe srcDoc={current.html} title="Current version" sandbox="allow-scripts allow-same-origin" />
+            </figure>
+          )}
+        </div>
+      ) : isCurrent ? (
+        <div className="library-empty">Select an earlier version to compare it with the current one.</div>
+      ) : (
+        <div className="export-file">
+          <div className="export-file-header">
+            <span>v{selectedNumber} → current</span>
+            <span>{changeCount} changed {changeCount === 1 ? 'line' : 'lines'}</span>
+          </div>
+          <pre className="code-block history-diff">
+            {diffRows.map((row, i) => row.type === 'skip' ? (
+              <div key={i} className="diff-skip">⋯ {row.count} unchanged lines</div>
+            ) : (
+              <div key={i} className={`diff-line ${row.type}`}>
+                {row.type === 'added' ? '+ ' : row.type === 'removed' ? '- ' : '  '}{row.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
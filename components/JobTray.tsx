@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { QueuedJob, QueuedJobStatus } from '../generation/types';
+import { getModelById } from '../models';
+import { RefreshIcon, StopIcon, ThinkingIcon, XIcon } from './Icons';
+
+interface JobTrayProps {
+  jobs: QueuedJob[];
+  onCancel: (jobId: string) => void;
+  onRetry: (job: QueuedJob) => void;
+  onView: (sessionId: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<QueuedJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  failed: 'Failed',
+  done: 'Done',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_ORDER: QueuedJobStatus[] = ['running', 'queued', 'failed', 'done', 'cancelled'];
+
+export default function JobTray({ jobs, onCancel, onRetry, onView, onClearFinished }: JobTrayProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (jobs.length === 0) return null;
+
+  const counts = jobs.reduce((acc, job) => {
+    acc[job.status] = (acc[job.status] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<QueuedJobStatus, number>>);
+  const isBusy = !!(counts.running || counts.queued);
+  const hasFinished = jobs.some(job => job.status !== 'running' && job.status !== 'queued');
+  // Newest first within each status
+  const sorted = [...jobs].sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || b.enqueuedAt - a.enqueuedAt
+  );
+
+  return (
+    <div className={`job-tray ${isOpen ? 'open' : ''}`}>
+      {isOpen && (
+        <div className="job-tray-panel">
+          <div className="job-tray-header">
+            <span>Generation jobs</span>
+            <button onClick={onClearFinished} disabled={!hasFinished}>Clear finished</button>
+          </div>
+          <ul className="job-tray-list">
+            {sorted.map(job => (
+              <li key={job.id} className={`job-tray-item ${job.status}`}>
+                <div className="job-tray-item-main">
+                  <button className="job-tray-label" onClick={() => onView(job.sessionId)} title={job.label}>
+                    {job.label}
+                  </button>
+                  <div className="job-tray-meta">
+                    <span className={`job-status ${job.status}`}>{STATUS_LABELS[job.status]}</span>
+                    <span>{getModelById(job.modelId)?.name ?? job.modelId}</span>
+                    {job.status === 'running' && <span>{job.completedSlots}/{job.slotCount}</span>}
+                    {job.status === 'running' && job.retry && (
+                      <span className="job-tray-retry">Rate limited, retry {job.retry.attempt} in {Math.ceil(job.retry.delayMs / 1000)}s</span>
+                    )}
+                  </div>
+                  {job.status === 'failed' && job.error && <div className="job-tray-error">{job.error}</div>}
+                </div>
+                {(job.status === 'running' || job.status === 'queued') && (
+                  <button className="job-tray-action" onClick={() => onCancel(job.id)} aria-label="Cancel job" title="Cancel">
+                    <StopIcon />
+                  </button>
+                )}
+                {job.status === 'failed' && job.failedArtifactIds.length > 0 && (
+                  <button className="job-tray-action" onClick={() => onRetry(job)} aria-label="Retry failed designs" title="Retry failed designs">
+                    <RefreshIcon />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <button className="job-tray-toggle" onClick={() => setIsOpen(open => !open)} aria-expanded={isOpen} aria-label="Generation jobs">
+        {isBusy && <ThinkingIcon />}
+        {STATUS_ORDER.filter(status => counts[status]).map(status => (
+          <span key={status} className={`job-status ${status}`}>{counts[status]} {STATUS_LABELS[status].toLowerCase()}</span>
+        ))}
+        {isOpen && <XIcon />}
+      </button>
+    </div>
+  );
+}
@@ -4,9 +4,11 @@
 */
 
 import React, { useState, useMemo } from 'react';
-import { SavedComponent, Collection } from '../types';
-import { getCollections, deleteCollection } from '../utils';
-import { LibraryIcon, FolderIcon, StarIcon, TagIcon, XIcon, PlusIcon } from './Icons';
+import { SavedComponent, Collection, DesignToken } from '../types';
+import { LibraryIcon, FolderIcon, StarIcon, TagIcon, XIcon, PlusIcon, DownloadIcon, CheckIcon, CompareIcon } from './Icons';
+import { EXPORT_FORMATS, exportArtifact } from '../exporters';
+import { downloadExportFiles } from '../exporters/shared';
+import { tokenCssValue } from '../exporters/tokens';
 
 interface LibrarySidebarProps {
   savedComponents: SavedComponent[];
@@ -16,6 +18,9 @@ interface LibrarySidebarProps {
   onCollectionUpdate: (collection: Collection) => void;
   onCollectionDelete: (id: string) => void;
   onClose: () => void;
+  /** Ids of library entries currently picked for comparison */
+  compareIds?: string[];
+  onToggleCompare?: (component: SavedComponent) => void;
 }
 
 interface LibrarySidebarPropsWithData extends LibrarySidebarProps {
@@ -30,6 +35,8 @@ export default function LibrarySidebar({
   onCollectionUpdate,
   onCollectionDelete,
   onClose,
+  compareIds = [],
+  onToggleCompare,
   initialFilter
 }: LibrarySidebarPropsWithData) {
   const [activeTab, setActiveTab] = useState<'all' | 'favorites' | 'collections'>(initialFilter === 'favorites' ? 'favorites' : 'all');
@@ -160,9 +167,21 @@ export default function LibrarySidebar({
             {filteredComponents.map(component => (
               <div
                 key={component.id}
-                className="library-component-card"
+                className={`library-component-card ${compareIds.includes(component.id) ? 'compare-selected' : ''}`}
                 onClick={() => onComponentSelect(component)}
               >
+                {onToggleCompare && (
+                  <button
+                    className={`compare-toggle ${compareIds.includes(component.id) ? 'selected' : ''}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onToggleCompare(component);
+                    }}
+                    title={compareIds.includes(component.id) ? 'Remove from compare' : 'Add to compare'}
+                  >
+                    {compareIds.includes(component.id) ? <CheckIcon /> : <CompareIcon />}
+                  </button>
+                )}
                 <div className="component-preview">
                   <iframe
                     srcDoc={component.html}
@@ -173,6 +192,13 @@ export default function LibrarySidebar({
                 <div className="component-info">
                   <div className="component-title">{component.styleName}</div>
                   <div className="component-prompt">{component.prompt}</div>
+                  {component.tokens?.color && (
+                    <div className="component-palette" title="Design token palette">
+                      {Object.entries<DesignToken>(component.tokens.color).slice(0, 8).map(([name, token]) => (
+                        <span key={name} style={{ background: tokenCssValue(token) }} />
+                      ))}
+                    </div>
+                  )}
                   {component.tags.length > 0 && (
                     <div className="component-tags">
                       {component.tags.map(tag => (
@@ -182,6 +208,19 @@ export default function LibrarySidebar({
                       ))}
                     </div>
                   )}
+                  <div className="component-export" onClick={(e) => e.stopPropagation()}>
+                    <DownloadIcon />
+                    {EXPORT_FORMATS.map(format => (
+                      <button
+                        key={format.id}
+                        className="component-export-button"
+                        onClick={() => downloadExportFiles(exportArtifact(format.id, component.html, component.styleName).files)}
+                        title={`Download as a ${format.label} component`}
+                      >
+                        {format.label}
+                      </button>
+                    ))}
+                  </div>
                   {component.isFavorite && (
                     <div className="component-favorite-badge">
                       <StarIcon filled />
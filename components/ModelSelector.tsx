@@ -4,19 +4,36 @@
 */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { AIModel, AVAILABLE_MODELS, ModelProvider } from '../models';
+import { AIModel, AVAILABLE_MODELS, ModelProvider, getModelById } from '../models';
 import { XIcon } from './Icons';
 
 interface ModelSelectorProps {
+  /** Built-in models plus any discovered on a local server; defaults to the built-in list */
+  models?: AIModel[];
   selectedModelId: string;
   onModelChange: (modelId: string) => void;
 }
 
-export default function ModelSelector({ selectedModelId, onModelChange }: ModelSelectorProps) {
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${Math.round(tokens / 1000)}K` : String(tokens);
+}
+
+// One line of what the server reported: vision, output limit, temperature range and list price
+function describeCapabilities(model: AIModel): string {
+  const parts: string[] = [];
+  if (model.capabilities?.vision) parts.push('Vision');
+  const maxOutputTokens = model.capabilities?.maxOutputTokens ?? model.maxOutputTokens;
+  if (maxOutputTokens) parts.push(`${formatTokens(maxOutputTokens)} output`);
+  if (model.capabilities) parts.push(`Temp ${model.capabilities.temperature.min}–${model.capabilities.temperature.max}`);
+  if (model.pricing) parts.push(`$${model.pricing.input} / $${model.pricing.output} per 1M tokens`);
+  return parts.join(' · ');
+}
+
+export default function ModelSelector({ models: modelList = AVAILABLE_MODELS, selectedModelId, onModelChange }: ModelSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const selectedModel = AVAILABLE_MODELS.find(m => m.id === selectedModelId) || AVAILABLE_MODELS[0];
+  const selectedModel = modelList.find(m => m.id === selectedModelId) || getModelById(selectedModelId) || modelList[0];
 
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -30,7 +47,7 @@ export default function ModelSelector({ selectedModelId, onModelChange }: ModelS
     }
   }, [isOpen]);
 
-  const groupedModels = AVAILABLE_MODELS.reduce((acc, model) => {
+  const groupedModels = modelList.reduce((acc, model) => {
     if (!acc[model.provider]) {
       acc[model.provider] = [];
     }
@@ -41,7 +58,9 @@ export default function ModelSelector({ selectedModelId, onModelChange }: ModelS
   const providerLabels: Record<ModelProvider, string> = {
     gemini: 'Google Gemini',
     claude: 'Anthropic Claude',
-    openai: 'OpenAI'
+    openai: 'OpenAI',
+    local: 'Local',
+    mock: 'Offline'
   };
 
   return (
@@ -50,6 +69,7 @@ export default function ModelSelector({ selectedModelId, onModelChange }: ModelS
         className="model-selector-button"
         onClick={() => setIsOpen(!isOpen)}
         aria-label="Select AI model"
+        title={selectedModel.available ? undefined : selectedModel.unavailableReason}
       >
         <span className="model-selector-label">
           <span className="model-provider-badge" data-provider={selectedModel.provider}>
@@ -78,6 +98,7 @@ export default function ModelSelector({ selectedModelId, onModelChange }: ModelS
                     setIsOpen(false);
                   }}
                   disabled={!model.available}
+                  title={model.unavailableReason}
                 >
                   <div className="model-option-header">
                     <span className="model-option-name">{model.name}</span>
@@ -86,8 +107,11 @@ export default function ModelSelector({ selectedModelId, onModelChange }: ModelS
                     )}
                   </div>
                   <div className="model-option-description">{model.description}</div>
+                  {describeCapabilities(model) && (
+                    <div className="model-option-meta">{describeCapabilities(model)}</div>
+                  )}
                   {!model.available && (
-                    <div className="model-option-unavailable">Not available</div>
+                    <div className="model-option-unavailable">{model.unavailableReason || 'Not available'}</div>
                   )}
                 </button>
               ))}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect } from 'react';
+import { ArtifactVersion, RefinementMessage } from '../types';
+import { ArrowUpIcon, StopIcon, ThinkingIcon } from './Icons';
+
+interface RefinePanelProps {
+  conversation: RefinementMessage[];
+  versions: ArtifactVersion[];
+  isStreaming: boolean;
+  onSend: (request: string) => void;
+  onStop: () => void;
+  onRevert: (versionId: string) => void;
+  disabled?: boolean;
+}
+
+const SUGGESTIONS = [
+  'Make the header sticky',
+  'Use a warmer accent color',
+  'Tighten the spacing',
+  'Add hover and focus states'
+];
+
+export default function RefinePanel({ conversation, versions, isStreaming, onSend, onStop, onRevert, disabled }: RefinePanelProps) {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Keep the latest turn in view as messages arrive
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [conversation.length, isStreaming]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const currentVersionId = versions[versions.length - 1]?.id;
+  const versionNumber = (versionId: string) => versions.findIndex(v => v.id === versionId) + 1;
+
+  const send = (request: string) => {
+    const trimmed = request.trim();
+    if (!trimmed || isStreaming || disabled) return;
+    onSend(trimmed);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      send(draft);
+    }
+  };
+
+  return (
+    <div className="refine-panel">
+      <div className="refine-messages" ref={listRef}>
+        {conversation.length === 0 && (
+          <div className="refine-empty">
+            <p>Describe a change and the design is rewritten in place. Each turn builds on the last.</p>
+            <div className="refine-suggestions">
+              {SUGGESTIONS.map(suggestion => (
+                <button key={suggestion} onClick={() => send(suggestion)} disabled={isStreaming || disabled}>
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {conversation.map(message => (
+          <div key={message.id} className={`refine-message ${message.role} ${message.status ?? ''}`}>
+            <div className="refine-bubble">{message.content}</div>
+            {message.versionId && versionNumber(message.versionId) > 0 && (
+              <div className="refine-meta">
+                <span>v{versionNumber(message.versionId)}</span>
+                {message.versionId !== currentVersionId && (
+                  <button onClick={() => onRevert(message.versionId!)} disabled={isStreaming || disabled}>
+                    Restore
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {isStreaming && (
+          <div className="refine-message assistant pending">
+            <div className="refine-bubble"><ThinkingIcon /> Updating the design...</div>
+          </div>
+        )}
+      </div>
+
+      <div className="refine-input">
+        <textarea
+          ref={inputRef}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="e.g. make the header sticky and use a warmer accent"
+          rows={2}
+          disabled={disabled}
+          aria-label="Describe a change"
+        />
+        {isStreaming ? (
+          <button className="send-button stop" onClick={onStop} aria-label="Stop refining" title="Stop">
+            <StopIcon />
+          </button>
+        ) : (
+          <button className="send-button" onClick={() => send(draft)} disabled={!draft.trim() || disabled} aria-label="Send">
+            <ArrowUpIcon />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { OverflowReport, detectOverflow } from '../audit/responsive';
+import { PlusIcon, RefreshIcon, XIcon } from './Icons';
+import { isAbortError } from '../utils';
+
+interface Viewport {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+interface ResponsivePreviewProps {
+  html: string;
+  /** Rejects with a user-facing message when the rewrite fails */
+  onMakeResponsive: (reports: OverflowReport[]) => Promise<void>;
+  disabled?: boolean;
+}
+
+const DEVICE_VIEWPORTS: Viewport[] = [
+  { id: 'phone', label: 'Phone', width: 390, height: 844 },
+  { id: 'tablet', label: 'Tablet', width: 820, height: 1180 },
+  { id: 'desktop', label: 'Desktop', width: 1440, height: 900 }
+];
+
+const CUSTOM_HEIGHT = 900;
+const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1];
+const FRAME_GAP = 16;
+// Fonts and images can shift the layout after load, so measure once more a little later
+const REMEASURE_DELAY_MS = 600;
+
+interface ViewportFrameProps {
+  viewport: Viewport;
+  html: string;
+  scale: number;
+  report?: OverflowReport;
+  onMeasure: (id: string, report: OverflowReport) => void;
+  onRemove?: () => void;
+}
+
+function ViewportFrame({ viewport, html, scale, report, onMeasure, onRemove }: ViewportFrameProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const measure = useCallback(() => {
+    const doc = iframeRef.current?.contentDocument;
+    const result = doc && detectOverflow(doc);
+    if (result) onMeasure(viewport.id, result);
+  }, [viewport.id, onMeasure]);
+
+  const handleLoad = () => {
+    measure();
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(measure, REMEASURE_DELAY_MS);
+  };
+
+  // Resizing keeps the same document loaded, so it has to be measured again by hand
+  useEffect(() => {
+    measure();
+  }, [viewport.width, viewport.height, measure]);
+
+  useEffect(() => () => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+  }, []);
+
+  const isBroken = !!report && report.overflowPx > 0;
+
+  return (
+    <figure className={`viewport-frame ${isBroken ? 'broken' : ''}`}>
+      <figcaption>
+        <span className="viewport-label">{viewport.label}</span>
+        <span className="viewport-size">{viewport.width}×{viewport.height}</span>
+        {isBroken && (
+          <span className="viewport-overflow" title={report!.offenders.join('\n')}>
+            +{report!.overflowPx}px overflow
+          </span>
+        )}
+        {onRemove && (
+          <button className="viewport-remove" onClick={onRemove} aria-label={`Remove ${viewport.label} breakpoint`}>
+            <XIcon />
+          </button>
+        )}
+      </figcaption>
+      <div className="viewport-screen" style={{ width: viewport.width * scale, height: viewport.height * scale }}>
+        <iframe
+          ref={iframeRef}
+          srcDoc={html}
+          title={`${viewport.label} preview`}
+          sandbox="allow-scripts allow-same-origin"
+          onLoad={handleLoad}
+          style={{ width: viewport.width, height: viewport.height, transform: `scale(${scale})` }}
+        />
+      </div>
+    </figure>
+  );
+}
+
+export default function ResponsivePreview({ html, onMakeResponsive, disabled }: ResponsivePreviewProps) {
+  const [customWidths, setCustomWidths] = useState<number[]>([]);
+  const [draftWidth, setDraftWidth] = useState('');
+  const [isRotated, setIsRotated] = useState(false);
+  const [zoom, setZoom] = useState<'fit' | number>('fit');
+  const [reports, setReports] = useState<Record<string, OverflowReport>>({});
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [fixError, setFixError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setContainerWidth(entries[0].contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const viewports: Viewport[] = [
+    ...DEVICE_VIEWPORTS,
+    ...customWidths.map(width => ({ id: `custom-${width}`, label: 'Custom', width, height: CUSTOM_HEIGHT }))
+  ].map(v => (isRotated ? { ...v, width: v.height, height: v.width } : v));
+
+  // Fit scales every frame by the same factor so relative sizes stay honest
+  const framesWidth = viewports.reduce((sum, v) => sum + v.width, 0);
+  const availableWidth = containerWidth - FRAME_GAP * (viewports.length - 1);
+  const scale = zoom === 'fit' ? Math.min(1, availableWidth > 0 ? availableWidth / framesWidth : ZOOM_LEVELS[0]) : zoom;
+
+  const handleMeasure = useCallback((id: string, report: OverflowReport) => {
+    setReports(prev => (prev[id]?.width === report.width && prev[id]?.overflowPx === report.overflowPx ? prev : { ...prev, [id]: report }));
+  }, []);
+
+  const handleAddWidth = (e: React.FormEvent) => {
+    e.preventDefault();
+    const width = parseInt(draftWidth, 10);
+    if (!width || width < 240 || width > 3840 || customWidths.includes(width)) return;
+    setCustomWidths(prev => [...prev, width].sort((a, b) => a - b));
+    setDraftWidth('');
+  };
+
+  const visibleIds = new Set(viewports.map(v => v.id));
+  const broken = Object.entries<OverflowReport>(reports)
+    .filter(([id, report]) => visibleIds.has(id) && report.overflowPx > 0)
+    .map(([, report]) => report)
+    .sort((a, b) => a.width - b.width);
+
+  const handleMakeResponsive = async () => {
+    setFixError(null);
+    try {
+      await onMakeResponsive(broken);
+    } catch (e: any) {
+      if (!isAbortError(e)) setFixError(e.message || 'The rewrite failed');
+    }
+  };
+
+  return (
+    <div className="responsive-preview">
+      <div className="export-toolbar">
+        <div className="export-toggle" role="group" aria-label="Zoom">
+          <button className={zoom === 'fit' ? 'active' : ''} onClick={() => setZoom('fit')}>Fit</button>
+          {ZOOM_LEVELS.map(level => (
+            <button key={level} className={zoom === level ? 'active' : ''} onClick={() => setZoom(level)}>
+              {level * 100}%
+            </button>
+          ))}
+        </div>
+        <button className={`export-action ${isRotated ? 'active' : ''}`} onClick={() => setIsRotated(r => !r)}>
+          <RefreshIcon /> Rotate
+        </button>
+        <form className="viewport-add" onSubmit={handleAddWidth}>
+          <input
+            type="number"
+            min={240}
+            max={3840}
+            value={draftWidth}
+            onChange={(e) => setDraftWidth(e.target.value)}
+            placeholder="Width"
+            aria-label="Custom breakpoint width in pixels"
+          />
+          <button type="submit" className="export-action" disabled={!draftWidth}>
+            <PlusIcon /> Breakpoint
+          </button>
+        </form>
+      </div>
+
+      <div className="responsive-status">
+        {broken.length === 0 ? (
+          <span className="responsive-ok">No horizontal overflow at these widths</span>
+        ) : (
+          <>
+            <span className="responsive-broken">
+              Layout overflows at {broken.map(r => `${r.width}px`).join(', ')}
+            </span>
+            <button className="export-action active" onClick={handleMakeResponsive} disabled={disabled}>
+              Make responsive
+            </button>
+          </>
+        )}
+      </div>
+
+      {fixError && <p className="responsive-error" role="alert">Couldn't make this responsive: {fixError}</p>}
+
+      <div className="viewport-row" ref={containerRef} style={{ gap: FRAME_GAP }}>
+        {viewports.map(viewport => (
+          <React.Fragment key={viewport.id}>
+            <ViewportFrame
+              viewport={viewport}
+              html={html}
+              scale={scale}
+              report={reports[viewport.id]}
+              onMeasure={handleMeasure}
+              onRemove={viewport.id.startsWith('custom-')
+                ? () => setCustomWidths(prev => prev.filter(w => `custom-${w}` !== viewport.id))
+                : undefined}
+            />
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -9,15 +9,19 @@ interface SideDrawerProps {
     isOpen: boolean;
     onClose: () => void;
     title: string;
+    /** Widens the drawer for side-by-side content such as the source editor */
+    wide?: boolean;
+    /** Leaves the page behind the drawer interactive, e.g. for picking elements in a preview */
+    modeless?: boolean;
     children?: React.ReactNode;
 }
 
-const SideDrawer = ({ isOpen, onClose, title, children }: SideDrawerProps) => {
+const SideDrawer = ({ isOpen, onClose, title, wide = false, modeless = false, children }: SideDrawerProps) => {
     if (!isOpen) return null;
 
     return (
-        <div className="drawer-overlay" onClick={onClose}>
-            <div className="drawer-content" onClick={(e) => e.stopPropagation()}>
+        <div className={`drawer-overlay ${modeless ? 'modeless' : ''}`} onClick={modeless ? undefined : onClose}>
+            <div className={`drawer-content ${wide ? 'wide' : ''}`} onClick={(e) => e.stopPropagation()}>
                 <div className="drawer-header">
                     <h2>{title}</h2>
                     <button onClick={onClose} className="close-button">&times;</button>
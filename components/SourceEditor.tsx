@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef } from 'react';
+import { CopyIcon } from './Icons';
+import { highlightHtml } from '../editor/highlight';
+import { lintArtifactHtml } from '../editor/lint';
+
+interface SourceEditorProps {
+  value: string;
+  savedHtml: string;
+  /** Debounced copy of `value` that the preview iframes render */
+  previewHtml: string;
+  onChange: (html: string) => void;
+  onSave: () => void;
+  onCopy: () => void;
+  copySuccess: boolean;
+  readOnly?: boolean;
+}
+
+const INDENT = '  ';
+
+export default function SourceEditor({
+  value,
+  savedHtml,
+  previewHtml,
+  onChange,
+  onSave,
+  onCopy,
+  copySuccess,
+  readOnly
+}: SourceEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  // A trailing newline keeps the highlight layer as tall as the textarea's last empty line
+  const highlighted = useMemo(() => highlightHtml(value) + '\n', [value]);
+  const lint = useMemo(() => lintArtifactHtml(previewHtml), [previewHtml]);
+  const lineCount = value.split('\n').length;
+  const lintLines = new Map(lint.map(m => [m.line, m.severity]));
+  const isDirty = value !== savedHtml;
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    if ((e.metaKey || e.ctrlKey) && e.key === 's') {
+      e.preventDefault();
+      if (isDirty && !readOnly) onSave();
+      return;
+    }
+    if (e.key !== 'Tab' || readOnly) return;
+    e.preventDefault();
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+    requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  const jumpToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = value.split('\n');
+    const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+    textarea.scrollTop = Math.max(0, (line - 4) * parseFloat(getComputedStyle(textarea).lineHeight || '18'));
+    syncScroll();
+  };
+
+  return (
+    <div className="source-editor">
+      <div className="export-toolbar">
+        <button className={`copy-code-button ${copySuccess ? 'copied' : ''}`} onClick={onCopy} aria-label="Copy code">
+          <CopyIcon /> {copySuccess ? 'Copied!' : 'Copy Code'}
+        </button>
+        <button className="export-action" onClick={() => onChange(savedHtml)} disabled={!isDirty}>
+          Reset
+        </button>
+        <button className="export-action active" onClick={onSave} disabled={!isDirty || readOnly} title="Save as a new version (Ctrl/Cmd+S)">
+          Save version
+        </button>
+      </div>
+
+      <div className="source-editor-split">
+        <div className="source-editor-code">
+          <div className="source-editor-gutter" ref={gutterRef} aria-hidden="true">
+            {Array.from({ length: lineCount }, (_, i) => (
+              <div key={i} className={lintLines.get(i + 1) ?? ''}>{i + 1}</div>
+            ))}
+          </div>
+          <div className="source-editor-surface">
+            <pre className="source-editor-highlight" ref={highlightRef} aria-hidden="true" dangerouslySetInnerHTML={{ __html: highlighted }} />
+            <textarea
+              ref={textareaRef}
+              className="source-editor-input"
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              onScroll={syncScroll}
+              onKeyDown={handleKeyDown}
+              readOnly={readOnly}
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+              aria-label="Artifact HTML source"
+            />
+          </div>
+        </div>
+        <iframe
+          className="source-editor-preview"
+          srcDoc={previewHtml}
+          title="Live preview"
+          sandbox="allow-scripts allow-same-origin"
+        />
+      </div>
+
+      {lint.length > 0 && (
+        <ul className="export-warnings source-editor-lint">
+          {lint.map((message, i) => (
+            <li key={i} className={message.severity}>
+              <button onClick={() => jumpToLine(message.line)}>Line {message.line}</button> {message.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
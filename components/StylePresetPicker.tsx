@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect } from 'react';
+import { DesignToken, StylePreset, StyleReference } from '../types';
+import { StyleIcon, XIcon } from './Icons';
+import { describeDesignTokens, extractDesignTokens, tokenCssValue } from '../exporters/tokens';
+
+interface StylePresetPickerProps {
+  presets: StylePreset[];
+  activePresetId: string | null;
+  lockedStyle: StyleReference | null;
+  onApply: (preset: StylePreset) => void;
+  onClear: () => void;
+  onSave: (name: string, description: string) => void;
+  onDelete: (presetId: string) => void;
+  disabled?: boolean;
+}
+
+export default function StylePresetPicker({
+  presets,
+  activePresetId,
+  lockedStyle,
+  onApply,
+  onClear,
+  onSave,
+  onDelete,
+  disabled
+}: StylePresetPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [draftDescription, setDraftDescription] = useState('');
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const canSaveLock = lockedStyle !== null && activePresetId === null;
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  // Prefill the save form from whatever style is currently locked
+  useEffect(() => {
+    if (isOpen && canSaveLock && lockedStyle) {
+      setDraftName(lockedStyle.styleName);
+      setDraftDescription(describeDesignTokens(extractDesignTokens(lockedStyle.html)));
+    }
+  }, [isOpen, canSaveLock, lockedStyle]);
+
+  const activePreset = presets.find(p => p.id === activePresetId);
+  const label = activePreset?.name ?? (lockedStyle ? `${lockedStyle.styleName} (unsaved)` : 'Style DNA');
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draftName.trim()) return;
+    onSave(draftName.trim(), draftDescription.trim());
+  };
+
+  return (
+    <div className="model-selector style-preset-picker" ref={dropdownRef}>
+      <button
+        className={`model-selector-button ${lockedStyle ? 'active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        aria-label="Choose a saved style"
+      >
+        <span className="model-selector-label">
+          <StyleIcon />
+          <span className="model-name">{label}</span>
+        </span>
+        <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d={isOpen ? "M3 9l3-3 3 3" : "M9 3l-3 3-3-3"} />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="model-selector-dropdown">
+          {canSaveLock && (
+            <form className="style-preset-form" onSubmit={handleSave}>
+              <div className="model-group-header">Save locked style</div>
+              <input
+                type="text"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                placeholder="Preset name"
+                autoFocus
+              />
+              <textarea
+                value={draftDescription}
+                onChange={(e) => setDraftDescription(e.target.value)}
+                placeholder="Describe the style (palette, type, mood...)"
+                rows={3}
+              />
+              <button type="submit" disabled={!draftName.trim()}>Save Style DNA</button>
+            </form>
+          )}
+
+          <div className="model-group">
+            <div className="model-group-header">Saved styles</div>
+            {presets.length === 0 && (
+              <div className="model-option-description style-preset-empty">
+                Lock a design's style, then save it here to reuse it later.
+              </div>
+            )}
+            {presets.map(preset => (
+              <div key={preset.id} className="style-preset-row">
+                <button
+                  className={`model-option ${activePresetId === preset.id ? 'selected' : ''}`}
+                  onClick={() => {
+                    onApply(preset);
+                    setIsOpen(false);
+                  }}
+                >
+                  <div className="model-option-header">
+                    <span className="model-option-name">{preset.name}</span>
+                    {activePresetId === preset.id && <span className="model-option-check">✓</span>}
+                  </div>
+                  {preset.tokens.color && (
+                    <div className="component-palette">
+                      {Object.values<DesignToken>(preset.tokens.color).slice(0, 8).map((token, i) => (
+                        <span key={i} style={{ background: tokenCssValue(token) }} />
+                      ))}
+                    </div>
+                  )}
+                  {preset.description && <div className="model-option-description">{preset.description}</div>}
+                </button>
+                <button
+                  className="style-preset-delete"
+                  onClick={() => {
+                    if (confirm(`Delete "${preset.name}"?`)) onDelete(preset.id);
+                  }}
+                  aria-label={`Delete ${preset.name}`}
+                >
+                  <XIcon />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {lockedStyle && (
+            <button
+              className="model-option style-preset-clear"
+              onClick={() => {
+                onClear();
+                setIsOpen(false);
+              }}
+            >
+              <div className="model-option-name">No style lock</div>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
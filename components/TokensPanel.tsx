@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo } from 'react';
+import { DesignTokens } from '../types';
+import { CopyIcon, DownloadIcon } from './Icons';
+import { countDesignTokens, tokenCssValue, tokensToCssVariables, tokensToJson, tokensToTailwindTheme } from '../exporters/tokens';
+import { downloadExportFiles, toComponentName } from '../exporters/shared';
+
+type TokenOutput = 'json' | 'css' | 'tailwind';
+
+interface TokensPanelProps {
+  tokens: DesignTokens;
+  styleName: string;
+}
+
+const OUTPUTS: { id: TokenOutput; label: string }[] = [
+  { id: 'json', label: 'Tokens JSON' },
+  { id: 'css', label: 'CSS variables' },
+  { id: 'tailwind', label: 'Tailwind' }
+];
+
+export default function TokensPanel({ tokens, styleName }: TokensPanelProps) {
+  const [output, setOutput] = useState<TokenOutput>('json');
+  const [copied, setCopied] = useState(false);
+
+  const file = useMemo(() => {
+    const baseName = toComponentName(styleName, 'Tokens');
+    switch (output) {
+      case 'json': return { filename: `${baseName}.tokens.json`, content: tokensToJson(tokens) };
+      case 'css': return { filename: `${baseName}.tokens.css`, content: tokensToCssVariables(tokens) };
+      case 'tailwind': return { filename: 'tailwind.config.js', content: tokensToTailwindTheme(tokens) };
+    }
+  }, [tokens, styleName, output]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(file.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy tokens:', err);
+    }
+  };
+
+  if (countDesignTokens(tokens) === 0) {
+    return <div className="library-empty">No reusable values found in this design's CSS.</div>;
+  }
+
+  return (
+    <div className="export-panel">
+      {tokens.color && (
+        <div className="token-swatches">
+          {Object.entries(tokens.color).map(([name, token]) => (
+            <div key={name} className="token-swatch" title={`${name}: ${tokenCssValue(token)}`}>
+              <span className="token-swatch-color" style={{ background: tokenCssValue(token) }} />
+              <span className="token-swatch-name">{name}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="export-toolbar">
+        <div className="export-toggle" role="group" aria-label="Token format">
+          {OUTPUTS.map(o => (
+            <button key={o.id} className={output === o.id ? 'active' : ''} onClick={() => setOutput(o.id)}>
+              {o.label}
+            </button>
+          ))}
+        </div>
+        <button className="export-action" onClick={() => downloadExportFiles([file])}>
+          <DownloadIcon /> Download
+        </button>
+      </div>
+
+      <div className="export-file">
+        <div className="export-file-header">
+          <span>{file.filename}</span>
+          <button className={`copy-code-button ${copied ? 'copied' : ''}`} onClick={handleCopy}>
+            <CopyIcon /> {copied ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+        <pre className="code-block"><code>{file.content}</code></pre>
+      </div>
+    </div>
+  );
+}
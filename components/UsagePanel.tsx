@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo } from 'react';
+import { Session, UsageFlow, UsageRecord } from '../types';
+import { getModelById } from '../models';
+import {
+  FLOW_LABELS,
+  UsageGroup,
+  addUsage,
+  budgetStatus,
+  dayKey,
+  formatTokenCount,
+  formatUsd,
+  groupUsage,
+  isSameMonth
+} from '../usage';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  currentSession?: Session;
+  /** Monthly budget in USD, or null when no warning is set */
+  budget: number | null;
+  onBudgetChange: (budget: number | null) => void;
+}
+
+type Scope = 'month' | 'all';
+
+function UsageTable({ title, groups, labelOf }: { title: string; groups: UsageGroup[]; labelOf: (key: string) => string }) {
+  if (groups.length === 0) return null;
+  return (
+    <div className="usage-section">
+      <h4>{title}</h4>
+      <table className="usage-table">
+        <thead>
+          <tr><th></th><th>Calls</th><th>Input</th><th>Output</th><th>Cost</th></tr>
+        </thead>
+        <tbody>
+          {groups.map(group => (
+            <tr key={group.key}>
+              <td>{labelOf(group.key)}</td>
+              <td>{group.calls}</td>
+              <td>{formatTokenCount(group.usage.inputTokens)}</td>
+              <td>{formatTokenCount(group.usage.outputTokens)}</td>
+              <td>{formatUsd(group.usage.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function UsagePanel({ records, currentSession, budget, onBudgetChange }: UsagePanelProps) {
+  const [scope, setScope] = useState<Scope>('month');
+  const [budgetDraft, setBudgetDraft] = useState(budget ? String(budget) : '');
+
+  const monthRecords = useMemo(() => records.filter(r => isSameMonth(r.timestamp)), [records]);
+  const scoped = scope === 'month' ? monthRecords : records;
+
+  const monthTotal = useMemo(
+    () => monthRecords.reduce((total, r) => addUsage(total, r), { inputTokens: 0, outputTokens: 0 }),
+    [monthRecords]
+  );
+  const status = budgetStatus(monthTotal.costUsd ?? 0, budget);
+
+  const byModel = useMemo(() => groupUsage(scoped, r => r.modelId), [scoped]);
+  const byFlow = useMemo(() => groupUsage(scoped, r => r.flow), [scoped]);
+  // Newest day first, unlike the other groupings which rank by cost
+  const byDay = useMemo(() => groupUsage(scoped, r => dayKey(r.timestamp)).sort((a, b) => b.key.localeCompare(a.key)), [scoped]);
+  const hasUnpriced = scoped.some(r => r.costUsd === undefined);
+
+  const commitBudget = () => {
+    const value = parseFloat(budgetDraft);
+    onBudgetChange(Number.isFinite(value) && value > 0 ? value : null);
+    if (!(value > 0)) setBudgetDraft('');
+  };
+
+  return (
+    <div className="usage-panel">
+      <div className="usage-summary">
+        <div>
+          <span className="usage-label">This month</span>
+          <span className="usage-total">{formatUsd(monthTotal.costUsd ?? 0)}</span>
+          <span className="usage-meta">
+            {formatTokenCount(monthTotal.inputTokens)} in · {formatTokenCount(monthTotal.outputTokens)} out · {monthRecords.length} calls
+          </span>
+        </div>
+        {currentSession?.usage && (
+          <div>
+            <span className="usage-label">This session</span>
+            <span className="usage-total">{formatUsd(currentSession.usage.costUsd)}</span>
+            <span className="usage-meta">
+              {formatTokenCount(currentSession.usage.inputTokens)} in · {formatTokenCount(currentSession.usage.outputTokens)} out
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="usage-budget">
+        <label>
+          Monthly budget (USD)
+          <input
+            type="number"
+            min="0"
+            step="1"
+            placeholder="No budget"
+            value={budgetDraft}
+            onChange={(e) => setBudgetDraft(e.target.value)}
+            onBlur={commitBudget}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitBudget(); }}
+          />
+        </label>
+        {budget && (
+          <div className="usage-budget-bar">
+            <div className={`usage-budget-fill ${status}`} style={{ width: `${Math.min(100, ((monthTotal.costUsd ?? 0) / budget) * 100)}%` }} />
+          </div>
+        )}
+      </div>
+
+      {status === 'warning' && (
+        <div className="usage-alert warning">
+          {formatUsd(monthTotal.costUsd)} of your {formatUsd(budget!)} monthly budget is used.
+        </div>
+      )}
+      {status === 'exceeded' && (
+        <div className="usage-alert exceeded">
+          Over budget: {formatUsd(monthTotal.costUsd)} spent against {formatUsd(budget!)} this month.
+        </div>
+      )}
+
+      <div className="usage-scope">
+        <button className={scope === 'month' ? 'active' : ''} onClick={() => setScope('month')}>This month</button>
+        <button className={scope === 'all' ? 'active' : ''} onClick={() => setScope('all')}>All time</button>
+      </div>
+
+      {scoped.length === 0 ? (
+        <div className="usage-empty">No model calls recorded yet.</div>
+      ) : (
+        <>
+          <UsageTable title="By model" groups={byModel} labelOf={id => getModelById(id)?.name ?? id} />
+          <UsageTable title="By flow" groups={byFlow} labelOf={flow => FLOW_LABELS[flow as UsageFlow] ?? flow} />
+          <UsageTable title="By day" groups={byDay} labelOf={day => new Date(`${day}T00:00`).toLocaleDateString()} />
+          <p className="usage-note">
+            Costs are estimates from list prices at the time of each call.
+            {hasUnpriced && ' Local and offline models are counted in tokens only.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
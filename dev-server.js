@@ -2,46 +2,22 @@ import express from 'express';
 import { createServer as createViteServer } from 'vite';
 import { createServer as createHttpServer } from 'http';
 import dotenv from 'dotenv';
-import { GoogleGenAI } from '@google/genai';
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
-import { getModelById, DEFAULT_MODEL } from './models.ts';
+import generateHandler from './api/generate.ts';
+import variationsHandler from './api/variations.ts';
+import modelsHandler from './api/models.ts';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
 
+// --mock answers every request with recorded or canned responses; --record saves live responses as fixtures
+if (process.argv.includes('--mock')) process.env.LLM_MOCK = '1';
+if (process.argv.includes('--record')) process.env.LLM_RECORD = '1';
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Middleware
-app.use(express.json());
-
-// Helper to parse provider-specific errors
-function parseProviderError(error, provider) {
-  const errorMessage = error?.message || error?.error?.message || String(error);
-  const statusCode = error?.status || error?.statusCode || 500;
-
-  if (errorMessage.includes('API key') || errorMessage.includes('api_key') || errorMessage.includes('unauthorized') || statusCode === 401) {
-    return { status: 401, message: `Invalid or missing ${provider} API key. Check your ${provider.toUpperCase()}_API_KEY in .env.local` };
-  }
-  if (errorMessage.includes('quota') || errorMessage.includes('rate limit') || errorMessage.includes('Rate limit') || statusCode === 429) {
-    return { status: 429, message: `${provider} rate limit exceeded. Please wait a moment and try again.` };
-  }
-  if (errorMessage.includes('not found') || errorMessage.includes('does not exist') || errorMessage.includes('Could not find model') || statusCode === 404) {
-    return { status: 404, message: `Model not found. The model ID "${error.modelId || 'unknown'}" may be incorrect or unavailable.` };
-  }
-  if (errorMessage.includes('context length') || errorMessage.includes('too long') || errorMessage.includes('maximum')) {
-    return { status: 400, message: `Request too large. Try a shorter prompt.` };
-  }
-  if (errorMessage.includes('billing') || errorMessage.includes('payment') || errorMessage.includes('insufficient')) {
-    return { status: 402, message: `${provider} billing issue. Check your account at ${provider === 'gemini' ? 'console.cloud.google.com' : provider === 'openai' ? 'platform.openai.com' : 'console.anthropic.com'}` };
-  }
-  if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT') || errorMessage.includes('ECONNRESET')) {
-    return { status: 504, message: `Request timed out. The ${provider} API is slow or unreachable.` };
-  }
-
-  return { status: statusCode >= 400 ? statusCode : 500, message: `${provider} error: ${errorMessage}` };
-}
+// Middleware - the raised limit leaves room for base64 image attachments
+app.use(express.json({ limit: '5mb' }));
 
 // Helper to convert Express req/res to Vercel format
 function createVercelHandler(handler) {
@@ -62,239 +38,26 @@ function createVercelHandler(handler) {
       setHeader: (name, value) => res.setHeader(name, value),
       write: (chunk) => res.write(chunk),
       end: () => res.end(),
+      on: (event, listener) => {
+        res.on(event, listener);
+        return vercelRes;
+      },
+      get writableEnded() {
+        return res.writableEnded;
+      },
+      get headersSent() {
+        return res.headersSent;
+      },
     };
 
     await handler(vercelReq, vercelRes);
   };
 }
 
-// API: Generate
-app.post('/api/generate', createVercelHandler(async (req, res) => {
-  const { prompt, model = DEFAULT_MODEL, stream = false, temperature } = req.body;
-
-  if (!prompt) {
-    return res.status(400).json({ error: 'Prompt is required' });
-  }
-
-  const modelConfig = getModelById(model);
-  if (!modelConfig) {
-    return res.status(400).json({ error: `Unknown model: ${model}` });
-  }
-
-  try {
-    if (modelConfig.provider === 'gemini') {
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: 'GEMINI_API_KEY is not configured' });
-      }
-
-      const ai = new GoogleGenAI({ apiKey });
-
-      if (stream) {
-        res.setHeader('Content-Type', 'text/event-stream');
-        res.setHeader('Cache-Control', 'no-cache');
-        res.setHeader('Connection', 'keep-alive');
-
-        const responseStream = await ai.models.generateContentStream({
-          model: modelConfig.id,
-          contents: [{ parts: [{ text: prompt }], role: 'user' }],
-          config: temperature ? { temperature } : undefined
-        });
-
-        for await (const chunk of responseStream) {
-          const text = chunk.text;
-          if (typeof text === 'string') {
-            res.write(`data: ${JSON.stringify({ text })}\n\n`);
-          }
-        }
-
-        res.write('data: [DONE]\n\n');
-        res.end();
-      } else {
-        const response = await ai.models.generateContent({
-          model: modelConfig.id,
-          contents: [{ parts: [{ text: prompt }], role: 'user' }]
-        });
-
-        return res.status(200).json({ text: response.text || '' });
-      }
-    } else if (modelConfig.provider === 'claude') {
-      const apiKey = process.env.ANTHROPIC_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: 'ANTHROPIC_API_KEY is not configured' });
-      }
-
-      const client = new Anthropic({ apiKey });
-
-      if (stream) {
-        res.setHeader('Content-Type', 'text/event-stream');
-        res.setHeader('Cache-Control', 'no-cache');
-        res.setHeader('Connection', 'keep-alive');
-
-        const stream = await client.messages.stream({
-          model: modelConfig.id,
-          max_tokens: 8192,
-          temperature: temperature || 1.0,
-          messages: [{ role: 'user', content: prompt }]
-        });
-
-        for await (const event of stream) {
-          if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-            res.write(`data: ${JSON.stringify({ text: event.delta.text })}\n\n`);
-          }
-        }
-
-        res.write('data: [DONE]\n\n');
-        res.end();
-      } else {
-        const response = await client.messages.create({
-          model: modelConfig.id,
-          max_tokens: 8192,
-          temperature: temperature || 1.0,
-          messages: [{ role: 'user', content: prompt }]
-        });
-
-        const text = response.content.find(c => c.type === 'text')?.text || '';
-        return res.status(200).json({ text });
-      }
-    } else if (modelConfig.provider === 'openai') {
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: 'OPENAI_API_KEY is not configured' });
-      }
-
-      const client = new OpenAI({ apiKey });
-
-      if (stream) {
-        res.setHeader('Content-Type', 'text/event-stream');
-        res.setHeader('Cache-Control', 'no-cache');
-        res.setHeader('Connection', 'keep-alive');
-
-        const stream = await client.chat.completions.create({
-          model: modelConfig.id,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: temperature || 1.0,
-          stream: true
-        });
-
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content;
-          if (content) {
-            res.write(`data: ${JSON.stringify({ text: content })}\n\n`);
-          }
-        }
-
-        res.write('data: [DONE]\n\n');
-        res.end();
-      } else {
-        const response = await client.chat.completions.create({
-          model: modelConfig.id,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: temperature || 1.0
-        });
-
-        const text = response.choices[0]?.message?.content || '';
-        return res.status(200).json({ text });
-      }
-    } else {
-      return res.status(400).json({ error: `Unsupported provider: ${modelConfig.provider}` });
-    }
-  } catch (error) {
-    console.error('API Error:', error);
-    const { status, message } = parseProviderError(error, modelConfig.provider);
-    return res.status(status).json({ error: message });
-  }
-}));
-
-// API: Variations
-app.post('/api/variations', createVercelHandler(async (req, res) => {
-  const { prompt, model = DEFAULT_MODEL, temperature } = req.body;
-
-  if (!prompt) {
-    return res.status(400).json({ error: 'Prompt is required' });
-  }
-
-  const modelConfig = getModelById(model);
-  if (!modelConfig) {
-    return res.status(400).json({ error: `Unknown model: ${model}` });
-  }
-
-  try {
-    // Default temperature for creative tasks, clamped per provider
-    const baseTemp = typeof temperature === 'number' ? temperature : 1.0;
-
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-
-    if (modelConfig.provider === 'gemini') {
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: 'GEMINI_API_KEY is not configured' });
-      }
-
-      const ai = new GoogleGenAI({ apiKey });
-      const responseStream = await ai.models.generateContentStream({
-        model: modelConfig.id,
-        contents: [{ parts: [{ text: prompt }], role: 'user' }],
-        config: { temperature: baseTemp }
-      });
-
-      for await (const chunk of responseStream) {
-        const text = chunk.text;
-        if (typeof text === 'string') {
-          res.write(`data: ${JSON.stringify({ text })}\n\n`);
-        }
-      }
-    } else if (modelConfig.provider === 'claude') {
-      const apiKey = process.env.ANTHROPIC_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: 'ANTHROPIC_API_KEY is not configured' });
-      }
-
-      const client = new Anthropic({ apiKey });
-      const stream = await client.messages.stream({
-        model: modelConfig.id,
-        max_tokens: 8192,
-        temperature: Math.min(baseTemp, 1.0), // Claude max is 1.0
-        messages: [{ role: 'user', content: prompt }]
-      });
-
-      for await (const event of stream) {
-        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-          res.write(`data: ${JSON.stringify({ text: event.delta.text })}\n\n`);
-        }
-      }
-    } else if (modelConfig.provider === 'openai') {
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ error: 'OPENAI_API_KEY is not configured' });
-      }
-
-      const client = new OpenAI({ apiKey });
-      const stream = await client.chat.completions.create({
-        model: modelConfig.id,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: baseTemp,
-        stream: true
-      });
-
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          res.write(`data: ${JSON.stringify({ text: content })}\n\n`);
-        }
-      }
-    }
-
-    res.write('data: [DONE]\n\n');
-    res.end();
-  } catch (error) {
-    console.error('Variations API Error:', error);
-    const { status, message } = parseProviderError(error, modelConfig.provider);
-    return res.status(status).json({ error: message });
-  }
-}));
+// API routes: the same handlers Vercel deploys, so providers behave identically in dev
+app.post('/api/generate', createVercelHandler(generateHandler));
+app.post('/api/variations', createVercelHandler(variationsHandler));
+app.get('/api/models', createVercelHandler(modelsHandler));
 
 // Create Vite server and use as middleware
 async function startServer() {
@@ -310,7 +73,14 @@ async function startServer() {
   server.listen(PORT, () => {
     console.log(`🚀 Dev server running at http://localhost:${PORT}`);
     console.log(`📡 API routes available at http://localhost:${PORT}/api/*`);
-    console.log(`🔑 Make sure your .env.local file has GEMINI_API_KEY set`);
+    if (process.env.LLM_MOCK) {
+      console.log(`🧪 Mock mode: every model replays fixtures or canned responses`);
+    } else {
+      console.log(`🔑 Make sure your .env.local file has GEMINI_API_KEY set`);
+    }
+    if (process.env.LLM_RECORD) {
+      console.log(`⏺️  Recording responses to ${process.env.LLM_FIXTURES_DIR || 'fixtures/llm'}`);
+    }
   });
 }
 
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Small single-pass highlighter for artifact documents: HTML markup with embedded <style> and <script>.
+// Output is escaped markup with `tok-*` spans, laid under the editor's textarea so it must keep every character.
+
+const JS_KEYWORDS = new Set([
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'export',
+  'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'null',
+  'of', 'return', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'while', 'yield'
+]);
+
+function escape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function span(kind: string, text: string): string {
+  return text ? `<span class="tok-${kind}">${escape(text)}</span>` : '';
+}
+
+// Runs a list of sticky patterns over the text, wrapping each match in its token class
+function tokenize(text: string, rules: [RegExp, string | null][]): string {
+  let out = '';
+  let pos = 0;
+  while (pos < text.length) {
+    let matched = false;
+    for (const [pattern, kind] of rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(text);
+      if (match && match[0].length > 0) {
+        out += kind ? span(kind, match[0]) : escape(match[0]);
+        pos += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) out += escape(text[pos++]);
+  }
+  return out;
+}
+
+export function highlightCss(css: string): string {
+  let out = '';
+  let prelude = '';
+  // Each open brace is either a style rule (declarations inside) or a grouping at-rule (more rules inside)
+  const blocks: ('rule' | 'group')[] = [];
+  for (const part of css.split(/(\/\*[\s\S]*?(?:\*\/|$)|[{}])/)) {
+    if (!part) continue;
+    const inDeclarations = blocks[blocks.length - 1] === 'rule';
+    if (part.startsWith('/*')) {
+      out += span('comment', part);
+    } else if (part === '{') {
+      blocks.push(/^\s*@(media|supports|container|layer|document)\b/.test(prelude) ? 'group' : 'rule');
+      out += span('punct', part);
+    } else if (part === '}') {
+      blocks.pop();
+      out += span('punct', part);
+    } else if (!inDeclarations) {
+      prelude = part;
+      out += tokenize(part, [
+        [/@[\w-]+/y, 'keyword'],
+        [/[^@{}]+/y, 'selector']
+      ]);
+    } else {
+      out += tokenize(part, [
+        [/--[\w-]+(?=\s*:)|[a-zA-Z-]+(?=\s*:)/y, 'property'],
+        [/"[^"]*"?|'[^']*'?/y, 'string'],
+        [/#[0-9a-fA-F]{3,8}\b/y, 'number'],
+        [/-?\d*\.?\d+(?:[a-z%]+)?/y, 'number'],
+        [/[:;,()]/y, 'punct'],
+        [/[\w-]+/y, null],
+        [/\s+/y, null]
+      ]);
+    }
+  }
+  return out;
+}
+
+export function highlightJs(js: string): string {
+  return tokenize(js, [
+    [/\/\/[^\n]*/y, 'comment'],
+    [/\/\*[\s\S]*?(?:\*\/|$)/y, 'comment'],
+    [/`(?:\\[\s\S]|[^`\\])*`?|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?/y, 'string'],
+    [/\b\d*\.?\d+\b/y, 'number'],
+    [/[A-Za-z_$][\w$]*/y, 'word'],
+    [/\s+/y, null]
+  ]).replace(/<span class="tok-word">([^<]*)<\/span>/g, (_, word) => (JS_KEYWORDS.has(word) ? span('keyword', word) : word));
+}
+
+function highlightTag(tag: string): string {
+  const match = tag.match(/^(<\/?)([\w-]*)([\s\S]*?)(\/?>)?$/);
+  if (!match) return escape(tag);
+  const [, open, name, attrs, close = ''] = match;
+  const attrHtml = tokenize(attrs, [
+    [/[^\s=>"'\/]+/y, 'attr'],
+    [/=/y, 'punct'],
+    [/"[^"]*"?|'[^']*'?/y, 'string'],
+    [/\s+/y, null]
+  ]);
+  return span('punct', open) + span('tag', name) + attrHtml + span('punct', close);
+}
+
+export function highlightHtml(html: string): string {
+  let out = '';
+  let pos = 0;
+  const markup = /<!--[\s\S]*?(?:-->|$)|<!DOCTYPE[^>]*>?|<\/?[a-zA-Z][^>]*>?/gi;
+
+  while (pos < html.length) {
+    markup.lastIndex = pos;
+    const match = markup.exec(html);
+    if (!match) {
+      out += escape(html.slice(pos));
+      break;
+    }
+    out += escape(html.slice(pos, match.index));
+    const token = match[0];
+    pos = match.index + token.length;
+
+    if (token.startsWith('<!--') || /^<!doctype/i.test(token)) {
+      out += span('comment', token);
+      continue;
+    }
+    out += highlightTag(token);
+
+    // Raw-text elements switch to their own grammar until the matching close tag
+    const rawText = token.match(/^<(style|script)\b/i);
+    if (rawText && !token.endsWith('/>')) {
+      const closeAt = html.toLowerCase().indexOf(`</${rawText[1].toLowerCase()}`, pos);
+      const end = closeAt === -1 ? html.length : closeAt;
+      const body = html.slice(pos, end);
+      out += rawText[1].toLowerCase() === 'style' ? highlightCss(body) : highlightJs(body);
+      pos = end;
+    }
+  }
+  return out;
+}
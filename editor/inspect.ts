@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Inspect mode for artifact previews: hover/click selection inside the iframe, and mapping
+// the picked element back to its exact span in the source so an edit can be spliced in.
+import { maskNonMarkup } from './lint';
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface InspectedElement {
+  selector: string;
+  tagName: string;
+  /** Non-default computed values for a handful of layout and visual properties */
+  styles: [string, string][];
+  /** Where the element sits in the artifact html; null when it can't be traced back (e.g. added by a script) */
+  range: SourceRange | null;
+  /** The element's source markup, exactly as it appears in the artifact html */
+  source: string | null;
+}
+
+const HOVER_ATTR = 'data-inspect-hover';
+const SELECTED_ATTR = 'data-inspect-selected';
+
+const INSPECTED_PROPERTIES = [
+  'display', 'position', 'width', 'height', 'margin', 'padding', 'gap',
+  'color', 'background-color', 'background-image', 'font-family', 'font-size', 'font-weight', 'line-height',
+  'border', 'border-radius', 'box-shadow', 'opacity'
+];
+const DEFAULT_VALUES = new Set(['none', 'normal', 'auto', '0px', 'rgba(0, 0, 0, 0)', 'static', '1']);
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Shortest readable path from <body>, stopping early at a unique id
+export function buildSelector(el: Element): string {
+  const doc = el.ownerDocument;
+  const parts: string[] = [];
+  let node: Element | null = el;
+  while (node && node !== doc.body && node !== doc.documentElement) {
+    if (node.id && doc.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1) {
+      parts.unshift(`#${CSS.escape(node.id)}`);
+      return parts.join(' > ');
+    }
+    let part = node.localName + Array.from(node.classList).slice(0, 2).map(c => `.${CSS.escape(c)}`).join('');
+    const parent: Element | null = node.parentElement;
+    const current = node;
+    const sameTag = parent ? Array.from(parent.children).filter(child => child.localName === current.localName) : [];
+    if (sameTag.length > 1) part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+    parts.unshift(part);
+    node = parent;
+  }
+  if (node === doc.body) parts.unshift('body');
+  return parts.join(' > ');
+}
+
+function readStyles(el: Element): [string, string][] {
+  const view = el.ownerDocument.defaultView;
+  if (!view) return [];
+  const computed = view.getComputedStyle(el);
+  return INSPECTED_PROPERTIES
+    .map(prop => [prop, computed.getPropertyValue(prop).trim()] as [string, string])
+    .filter(([, value]) => value && !DEFAULT_VALUES.has(value));
+}
+
+/**
+ * Finds the element's span in the source. Elements are matched by their position among
+ * same-named tags, which only holds while scripts haven't added or removed any of them;
+ * when the counts disagree (or the end tag is implied) this gives up rather than guess.
+ */
+export function locateElementSource(html: string, el: Element): SourceRange | null {
+  const tag = el.localName.toLowerCase();
+  const domMatches = Array.from(el.ownerDocument.getElementsByTagName(el.localName));
+  const index = domMatches.indexOf(el);
+
+  const scan = maskNonMarkup(html);
+  const tagPattern = new RegExp(`<(/?)${tag}(?=[\\s/>])([^>]*)>`, 'gi');
+  const tags = Array.from(scan.matchAll(tagPattern));
+  const opens = tags.filter(match => !match[1]);
+  if (index < 0 || opens.length !== domMatches.length) return null;
+
+  const open = opens[index];
+  const idMatch = open[2].match(/\bid\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/i);
+  const sourceId = idMatch ? (idMatch[2] ?? idMatch[3] ?? idMatch[4]) : '';
+  if (sourceId !== el.id) return null;
+
+  const start = open.index!;
+  const openEnd = start + open[0].length;
+  if (VOID_TAGS.has(tag) || open[2].trimEnd().endsWith('/')) return { start, end: openEnd };
+
+  let depth = 0;
+  for (const match of tags) {
+    if (match.index! < start) continue;
+    if (match[1]) depth--;
+    else if (!match[2].trimEnd().endsWith('/')) depth++;
+    if (depth === 0) return { start, end: match.index! + match[0].length };
+  }
+  return null;
+}
+
+export function inspectElement(el: Element, html: string): InspectedElement {
+  const range = locateElementSource(html, el);
+  return {
+    selector: buildSelector(el),
+    tagName: el.localName,
+    styles: readStyles(el),
+    range,
+    source: range ? html.slice(range.start, range.end) : null
+  };
+}
+
+export function spliceElementSource(html: string, range: SourceRange, replacement: string): string {
+  return html.slice(0, range.start) + replacement + html.slice(range.end);
+}
+
+// The page's own CSS, so a scoped edit can reuse existing classes and variables
+export function collectPageCss(html: string): string {
+  return Array.from(html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style\s*>/gi), match => match[1].trim()).join('\n\n');
+}
+
+/**
+ * Turns the document into a picker: hovering outlines elements, clicking selects one
+ * instead of triggering it. Returns a function that removes every trace again.
+ */
+export function attachInspector(doc: Document, onSelect: (el: Element) => void): () => void {
+  const style = doc.createElement('style');
+  style.textContent = `
+    [${HOVER_ATTR}] { outline: 2px dashed #60a5fa !important; outline-offset: -2px !important; cursor: crosshair !important; }
+    [${SELECTED_ATTR}] { outline: 2px solid #3b82f6 !important; outline-offset: -2px !important; }
+  `;
+  (doc.head ?? doc.documentElement).appendChild(style);
+
+  let hovered: Element | null = null;
+  const isPickable = (el: Element | null): el is Element => !!el && el !== doc.documentElement && el !== doc.body;
+
+  const handleOver = (e: Event) => {
+    hovered?.removeAttribute(HOVER_ATTR);
+    const target = e.target as Element | null;
+    hovered = isPickable(target) ? target : null;
+    hovered?.setAttribute(HOVER_ATTR, '');
+  };
+  const handleClick = (e: Event) => {
+    // Links, buttons and forms inside the artifact shouldn't fire while picking
+    e.preventDefault();
+    e.stopPropagation();
+    const target = e.target as Element | null;
+    if (!isPickable(target)) return;
+    doc.querySelectorAll(`[${SELECTED_ATTR}]`).forEach(node => node.removeAttribute(SELECTED_ATTR));
+    target.setAttribute(SELECTED_ATTR, '');
+    onSelect(target);
+  };
+  const blockSubmit = (e: Event) => e.preventDefault();
+
+  doc.addEventListener('mouseover', handleOver, true);
+  doc.addEventListener('click', handleClick, true);
+  doc.addEventListener('submit', blockSubmit, true);
+
+  return () => {
+    doc.removeEventListener('mouseover', handleOver, true);
+    doc.removeEventListener('click', handleClick, true);
+    doc.removeEventListener('submit', blockSubmit, true);
+    doc.querySelectorAll(`[${HOVER_ATTR}], [${SELECTED_ATTR}]`).forEach(node => {
+      node.removeAttribute(HOVER_ATTR);
+      node.removeAttribute(SELECTED_ATTR);
+    });
+    style.remove();
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Lightweight HTML/CSS checks for the source editor. These catch the mistakes hand edits
+// usually introduce (stray tags, unbalanced braces, typos in properties), not full validation.
+
+export interface LintMessage {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// Elements whose end tag the parser may imply
+const OPTIONAL_CLOSE_TAGS = new Set(['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'colgroup']);
+
+function lineAt(source: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+// Blanks out comments and raw-text bodies (keeping offsets) so their contents aren't read as tags
+export function maskNonMarkup(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, m => ' '.repeat(m.length))
+    .replace(/(<(script|style)\b[^>]*>)([\s\S]*?)(<\/\2\s*>)/gi, (_, open, __, body, close) => open + ' '.repeat(body.length) + close);
+}
+
+function lintMarkup(html: string, messages: LintMessage[]) {
+  const stack: { name: string; offset: number }[] = [];
+  const ids = new Map<string, number>();
+  const scan = maskNonMarkup(html);
+
+  for (const match of scan.matchAll(/<(\/?)([a-zA-Z][\w-]*)([^>]*)>/g)) {
+    const [, closing, rawName, attrs] = match;
+    const name = rawName.toLowerCase();
+    const offset = match.index!;
+
+    if (closing) {
+      const openIndex = stack.map(t => t.name).lastIndexOf(name);
+      if (openIndex === -1) {
+        if (!VOID_TAGS.has(name)) {
+          messages.push({ line: lineAt(html, offset), severity: 'error', message: `Closing </${name}> has no matching opening tag` });
+        }
+        continue;
+      }
+      stack.splice(openIndex).slice(1).forEach(unclosed => {
+        if (!OPTIONAL_CLOSE_TAGS.has(unclosed.name)) {
+          messages.push({ line: lineAt(html, unclosed.offset), severity: 'error', message: `<${unclosed.name}> is not closed before </${name}>` });
+        }
+      });
+      continue;
+    }
+
+    const seen = new Set<string>();
+    for (const attr of attrs.matchAll(/([^\s=/"']+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g)) {
+      const attrName = attr[1].toLowerCase();
+      if (seen.has(attrName)) {
+        messages.push({ line: lineAt(html, offset), severity: 'warning', message: `Duplicate attribute "${attrName}" on <${name}>` });
+      }
+      seen.add(attrName);
+      if (attrName === 'id' && attr[2]) {
+        const id = attr[2].replace(/^["']|["']$/g, '');
+        if (ids.has(id)) {
+          messages.push({ line: lineAt(html, offset), severity: 'warning', message: `Duplicate id "${id}" (first used on line ${ids.get(id)})` });
+        } else {
+          ids.set(id, lineAt(html, offset));
+        }
+      }
+    }
+
+    if (!VOID_TAGS.has(name) && !attrs.trimEnd().endsWith('/')) stack.push({ name, offset });
+  }
+
+  stack.forEach(unclosed => {
+    if (!OPTIONAL_CLOSE_TAGS.has(unclosed.name)) {
+      messages.push({ line: lineAt(html, unclosed.offset), severity: 'error', message: `<${unclosed.name}> is never closed` });
+    }
+  });
+}
+
+function isKnownDeclaration(property: string, value: string): boolean {
+  if (typeof CSS === 'undefined' || !CSS.supports) return true;
+  // Values that depend on variables or newer syntax can't be judged in isolation
+  if (property.startsWith('--') || /var\(|env\(|attr\(/.test(value)) return true;
+  return CSS.supports(property, value.replace(/\s*!important\s*$/i, ''));
+}
+
+function lintStylesheet(css: string, baseOffset: number, html: string, messages: LintMessage[]) {
+  const text = css.replace(/\/\*[\s\S]*?\*\//g, m => m.replace(/[^\n]/g, ' '));
+  const blocks: ('rule' | 'group')[] = [];
+  let segmentStart = 0;
+
+  for (let i = 0; i <= text.length; i++) {
+    const ch = text[i];
+    if (ch !== '{' && ch !== '}' && ch !== ';' && i < text.length) continue;
+
+    const segment = text.slice(segmentStart, i);
+    const inDeclarations = blocks[blocks.length - 1] === 'rule';
+    const line = lineAt(html, baseOffset + segmentStart + (segment.length - segment.trimStart().length));
+
+    if (ch === '{') {
+      blocks.push(/^\s*@(media|supports|container|layer|document)\b/.test(segment) ? 'group' : 'rule');
+      if (!segment.trim()) messages.push({ line, severity: 'error', message: 'Rule is missing a selector' });
+    } else if (inDeclarations && segment.trim()) {
+      const colon = segment.indexOf(':');
+      if (colon === -1) {
+        messages.push({ line, severity: 'error', message: `Expected "property: value" but found "${segment.trim().slice(0, 40)}"` });
+      } else {
+        const property = segment.slice(0, colon).trim().toLowerCase();
+        const value = segment.slice(colon + 1).trim();
+        if (!value) {
+          messages.push({ line, severity: 'error', message: `"${property}" has no value` });
+        } else if (!isKnownDeclaration(property, value)) {
+          messages.push({ line, severity: 'warning', message: `"${property}: ${value.slice(0, 40)}" is not a valid declaration` });
+        }
+      }
+    } else if (!inDeclarations && ch !== '{' && segment.trim() && !/^\s*@(import|charset|namespace|layer)\b/.test(segment)) {
+      messages.push({ line, severity: 'error', message: `Unexpected "${segment.trim().slice(0, 40)}" outside a rule` });
+    }
+
+    if (ch === '}') {
+      if (blocks.length === 0) {
+        messages.push({ line: lineAt(html, baseOffset + i), severity: 'error', message: 'Unmatched closing brace' });
+      }
+      blocks.pop();
+    }
+    segmentStart = i + 1;
+  }
+
+  if (blocks.length > 0) {
+    messages.push({ line: lineAt(html, baseOffset + css.length), severity: 'error', message: `${blocks.length} unclosed brace${blocks.length > 1 ? 's' : ''} in <style>` });
+  }
+}
+
+export function lintArtifactHtml(html: string): LintMessage[] {
+  const messages: LintMessage[] = [];
+  lintMarkup(html, messages);
+  for (const match of html.matchAll(/(<style\b[^>]*>)([\s\S]*?)<\/style\s*>/gi)) {
+    lintStylesheet(match[2], match.index! + match[1].length, html, messages);
+  }
+  return messages.sort((a, b) => a.line - b.line);
+}
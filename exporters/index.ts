@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ComponentExport } from './shared';
+import { exportToReact } from './react';
+import { exportToVue } from './vue';
+import { exportToSvelte } from './svelte';
+
+export type ExportFormat = 'react' | 'vue' | 'svelte';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'react', label: 'React' },
+  { id: 'vue', label: 'Vue' },
+  { id: 'svelte', label: 'Svelte' }
+];
+
+// Default options for each format; the export drawer exposes the React-specific ones
+export function exportArtifact(format: ExportFormat, html: string, styleName: string): ComponentExport {
+  switch (format) {
+    case 'react': return exportToReact(html, { styleName });
+    case 'vue': return exportToVue(html, { styleName });
+    case 'svelte': return exportToSvelte(html, { styleName });
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Deterministic HTML -> React (.tsx) function component transform
+import {
+  ComponentExport,
+  ExportFile,
+  VOID_ELEMENTS,
+  collapseWhitespace,
+  escapeTemplateLiteral,
+  headLinkWarning,
+  indent,
+  isInlineContent,
+  parseArtifactHtml,
+  rewriteHandlerThis,
+  scopeCss,
+  scriptWarnings,
+  splitTopLevel,
+  toCamelCase,
+  toComponentName,
+  wrapBody
+} from './shared';
+
+/** 'module' writes a companion .module.css file, 'styled' embeds the CSS in a <style> block */
+export type ReactStyleMode = 'module' | 'styled';
+
+export interface ReactExportOptions {
+  styleName: string;
+  styleMode?: ReactStyleMode;
+}
+
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  readonly: 'readOnly',
+  maxlength: 'maxLength',
+  minlength: 'minLength',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  contenteditable: 'contentEditable',
+  autocomplete: 'autoComplete',
+  autofocus: 'autoFocus',
+  autoplay: 'autoPlay',
+  crossorigin: 'crossOrigin',
+  srcset: 'srcSet',
+  enctype: 'encType',
+  novalidate: 'noValidate',
+  frameborder: 'frameBorder',
+  allowfullscreen: 'allowFullScreen',
+  spellcheck: 'spellCheck',
+  cellpadding: 'cellPadding',
+  cellspacing: 'cellSpacing',
+  datetime: 'dateTime',
+  accesskey: 'accessKey',
+  inputmode: 'inputMode',
+  playsinline: 'playsInline',
+  referrerpolicy: 'referrerPolicy',
+  usemap: 'useMap'
+};
+
+const BOOLEAN_ATTRIBUTES = new Set([
+  'disabled', 'checked', 'selected', 'readonly', 'required', 'autofocus', 'autoplay', 'controls',
+  'loop', 'muted', 'multiple', 'hidden', 'open', 'novalidate', 'allowfullscreen', 'playsinline',
+  'defer', 'async', 'default', 'reversed'
+]);
+
+// Events whose React name isn't just "on" + capitalized DOM name
+const COMPOUND_EVENTS = [
+  'DoubleClick', 'MouseDown', 'MouseUp', 'MouseEnter', 'MouseLeave', 'MouseOver', 'MouseOut', 'MouseMove',
+  'KeyDown', 'KeyUp', 'KeyPress', 'TouchStart', 'TouchEnd', 'TouchMove', 'ContextMenu', 'DragStart',
+  'DragEnd', 'DragOver', 'DragEnter', 'DragLeave', 'PointerDown', 'PointerUp', 'PointerMove',
+  'PointerEnter', 'PointerLeave', 'AnimationEnd', 'TransitionEnd'
+];
+const EVENT_NAMES: Record<string, string> = Object.fromEntries(
+  COMPOUND_EVENTS.map(name => [name === 'DoubleClick' ? 'dblclick' : name.toLowerCase(), `on${name}`])
+);
+
+// Elements whose plain text becomes a prop, and the suffix that names it
+const TEXT_SLOTS: Record<string, string> = {
+  h1: 'Heading', h2: 'Heading', h3: 'Heading', h4: 'Heading', h5: 'Heading', h6: 'Heading',
+  p: 'Text', button: 'Label', a: 'LinkText', label: 'Label', figcaption: 'Caption'
+};
+
+// Beyond this the interface stops being "the obvious slots"
+const MAX_PROPS = 12;
+
+interface PropSlot {
+  name: string;
+  defaultValue: string;
+}
+
+interface RenderContext {
+  styleMode: ReactStyleMode;
+  textSlots: Map<Element, PropSlot>;
+  attributeSlots: Map<Element, Record<string, PropSlot>>;
+  cssClasses: Set<string>;
+  handlerCode: string[];
+  usesCustomProperties: boolean;
+}
+
+function propNameFrom(text: string, suffix: string, used: Set<string>): string {
+  const words = (text.match(/[A-Za-z0-9]+/g) || []).slice(0, 3).map(w => w.toLowerCase());
+  let base = words.map((w, i) => (i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1))).join('') + suffix;
+  if (!words.length) base = suffix.charAt(0).toLowerCase() + suffix.slice(1);
+  if (/^[0-9]/.test(base)) base = `text${base}`;
+
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+  used.add(name);
+  return name;
+}
+
+// Pick out plain headings, labels, buttons and images as props, in document order
+function inferPropSlots(body: HTMLElement, ctx: RenderContext): PropSlot[] {
+  const used = new Set<string>();
+  const slots: PropSlot[] = [];
+
+  for (const el of Array.from(body.querySelectorAll('*'))) {
+    if (slots.length >= MAX_PROPS) break;
+    const tag = el.localName;
+    const text = collapseWhitespace(el.textContent || '').trim();
+
+    if (TEXT_SLOTS[tag] && el.children.length === 0 && text) {
+      const slot = { name: propNameFrom(text, TEXT_SLOTS[tag], used), defaultValue: text };
+      ctx.textSlots.set(el, slot);
+      slots.push(slot);
+    } else if (tag === 'img' && el.getAttribute('src') && !el.getAttribute('src')!.startsWith('data:')) {
+      const alt = el.getAttribute('alt');
+      const base = propNameFrom(alt || '', 'Image', used);
+      const attributes: Record<string, PropSlot> = {
+        src: { name: `${base}Src`, defaultValue: el.getAttribute('src')! }
+      };
+      if (alt) attributes.alt = { name: `${base}Alt`, defaultValue: alt };
+      ctx.attributeSlots.set(el, attributes);
+      slots.push(...Object.values(attributes));
+    }
+  }
+  return slots;
+}
+
+// "-webkit-transition" -> "WebkitTransition", "-ms-transform" -> "msTransform"
+function stylePropertyKey(property: string): string {
+  if (property.startsWith('-ms-')) return toCamelCase(property.slice(1));
+  if (property.startsWith('-')) {
+    const key = toCamelCase(property.slice(1));
+    return key.charAt(0).toUpperCase() + key.slice(1);
+  }
+  return toCamelCase(property);
+}
+
+function styleObject(style: string, ctx: RenderContext): string {
+  let hasCustomProperties = false;
+  const entries = splitTopLevel(style, ';')
+    .filter(declaration => declaration.includes(':'))
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      const property = declaration.slice(0, colon).trim();
+      const value = declaration.slice(colon + 1).trim();
+      if (property.startsWith('--')) {
+        hasCustomProperties = true;
+        return `${JSON.stringify(property)}: ${JSON.stringify(value)}`;
+      }
+      return `${stylePropertyKey(property)}: ${JSON.stringify(value)}`;
+    });
+
+  const object = `{ ${entries.join(', ')} }`;
+  if (!hasCustomProperties) return object;
+  // CSSProperties has no index signature for custom properties
+  ctx.usesCustomProperties = true;
+  return `${object} as CSSProperties`;
+}
+
+// Classes styled by the module become styles lookups; the rest (script hooks etc.) stay literal
+function classNameValue(value: string, ctx: RenderContext): string {
+  const classes = value.split(/\s+/).filter(Boolean);
+  if (ctx.styleMode === 'styled' || !classes.some(c => ctx.cssClasses.has(c))) {
+    return attributeValue(classes.join(' '));
+  }
+
+  const parts = classes.map(c => {
+    if (!ctx.cssClasses.has(c)) return c;
+    return /^[A-Za-z_$][\w$]*$/.test(c) ? `\${styles.${c}}` : `\${styles[${JSON.stringify(c)}]}`;
+  });
+  return parts.length === 1 ? `{${parts[0].slice(2, -1)}}` : `{\`${parts.join(' ')}\`}`;
+}
+
+function attributeValue(value: string): string {
+  return /["&{}]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+function renderAttributes(el: Element, ctx: RenderContext): string {
+  const tag = el.localName;
+  const slots = ctx.attributeSlots.get(el) || {};
+
+  const attributes = Array.from(el.attributes).map(({ name, value }) => {
+    if (slots[name]) return `${name}={${slots[name].name}}`;
+
+    if (name.startsWith('on') && name.length > 2) {
+      const event = name.slice(2).toLowerCase();
+      const reactName = EVENT_NAMES[event] || `on${event.charAt(0).toUpperCase()}${event.slice(1)}`;
+      const code = rewriteHandlerThis(value, 'event');
+      ctx.handlerCode.push(code);
+      return `${reactName}={(event) => { ${code} }}`;
+    }
+    if (name === 'style') return `style={${styleObject(value, ctx)}}`;
+    if (name === 'class') return `className=${classNameValue(value, ctx)}`;
+
+    // Uncontrolled form fields: React wants defaultValue/defaultChecked without an onChange
+    if ((tag === 'input' || tag === 'select') && name === 'value') return `defaultValue=${attributeValue(value)}`;
+    if (tag === 'input' && name === 'checked') return 'defaultChecked';
+
+    const reactName = ATTRIBUTE_NAMES[name]
+      || (name.startsWith('data-') || name.startsWith('aria-') ? name : toCamelCase(name));
+    if (BOOLEAN_ATTRIBUTES.has(name) && (value === '' || value === name)) return reactName;
+    return `${reactName}=${attributeValue(value)}`;
+  });
+
+  if (tag === 'textarea' && el.textContent) {
+    attributes.push(`defaultValue=${attributeValue(el.textContent)}`);
+  }
+  return attributes.length ? ' ' + attributes.join(' ') : '';
+}
+
+function escapeText(text: string): string {
+  return /[{}<>&]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+function renderInline(node: Node, ctx: RenderContext): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeText(collapseWhitespace(node.textContent || ''));
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.localName;
+  const attributes = renderAttributes(el, ctx);
+  const slot = ctx.textSlots.get(el);
+  if (slot) return `<${tag}${attributes}>{${slot.name}}</${tag}>`;
+
+  const children = Array.from(el.childNodes).map(child => renderInline(child, ctx)).join('');
+  return children && !VOID_ELEMENTS.has(tag)
+    ? `<${tag}${attributes}>${children}</${tag}>`
+    : `<${tag}${attributes} />`;
+}
+
+function renderElement(el: Element, depth: number, ctx: RenderContext): string {
+  const pad = '  '.repeat(depth);
+  const tag = el.localName;
+  const attributes = renderAttributes(el, ctx);
+
+  const slot = ctx.textSlots.get(el);
+  if (slot) return `${pad}<${tag}${attributes}>{${slot.name}}</${tag}>`;
+  if (tag === 'textarea') return `${pad}<${tag}${attributes} />`;
+
+  if (isInlineContent(el)) {
+    const content = Array.from(el.childNodes).map(child => renderInline(child, ctx)).join('').trim();
+    return content ? `${pad}<${tag}${attributes}>${content}</${tag}>` : `${pad}<${tag}${attributes} />`;
+  }
+
+  const children = Array.from(el.childNodes).map(child => {
+    if (child.nodeType === Node.ELEMENT_NODE) return renderElement(child as Element, depth + 1, ctx);
+    if (child.nodeType === Node.COMMENT_NODE) {
+      const comment = (child.textContent || '').trim().replace(/\*\//g, '* /');
+      return comment ? `${pad}  {/* ${comment} */}` : '';
+    }
+    const text = collapseWhitespace(child.textContent || '').trim();
+    return text ? `${pad}  ${escapeText(text)}` : '';
+  }).filter(Boolean);
+
+  return `${pad}<${tag}${attributes}>\n${children.join('\n')}\n${pad}</${tag}>`;
+}
+
+export function exportToReact(html: string, { styleName, styleMode = 'module' }: ReactExportOptions): ComponentExport {
+  const parsed = parseArtifactHtml(html);
+  const componentName = toComponentName(styleName);
+  const ctx: RenderContext = {
+    styleMode,
+    textSlots: new Map(),
+    attributeSlots: new Map(),
+    cssClasses: new Set(),
+    handlerCode: [],
+    usesCustomProperties: false
+  };
+
+  const props = inferPropSlots(parsed.body, ctx);
+  const root = wrapBody(parsed.body);
+  const css = parsed.css ? scopeCss(parsed.css) : '';
+  for (const match of css.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g)) ctx.cssClasses.add(match[1]);
+
+  let jsx = renderElement(root, 2, ctx);
+  if (css && styleMode === 'styled') {
+    jsx = jsx.replace(/^( *<div[^\n]*>)\n/, '$1\n      <style>{css}</style>\n');
+  }
+
+  const warnings = [...headLinkWarning(parsed.headLinks), ...scriptWarnings(parsed, ctx.handlerCode, 'useEffect')];
+  const reactImports: string[] = [];
+  if (parsed.scripts.length) {
+    reactImports.push('useEffect');
+    if (styleMode === 'module' && /classList|querySelector|className/.test(parsed.scripts.join('\n'))) {
+      warnings.push('The script refers to class names as strings, but CSS module classes are hashed; use the style block mode or styles[...] lookups.');
+    }
+  }
+  if (ctx.usesCustomProperties) reactImports.push('type CSSProperties');
+
+  const lines: string[] = [`// Exported from Flash UI: "${styleName}"`];
+  if (reactImports.length) lines.push(`import { ${reactImports.join(', ')} } from 'react';`);
+  if (css && styleMode === 'module') lines.push(`import styles from './${componentName}.module.css';`);
+  lines.push('');
+
+  if (css && styleMode === 'styled') {
+    lines.push(`const css = \`\n${escapeTemplateLiteral(css)}\n\`;`, '');
+  }
+
+  if (props.length) {
+    lines.push(
+      `export interface ${componentName}Props {`,
+      ...props.map(p => `  ${p.name}?: string;`),
+      '}',
+      '',
+      `export default function ${componentName}({`,
+      ...props.map(p => `  ${p.name} = ${JSON.stringify(p.defaultValue)},`),
+      `}: ${componentName}Props) {`
+    );
+  } else {
+    lines.push(`export default function ${componentName}() {`);
+  }
+
+  if (parsed.scripts.length) {
+    lines.push('  useEffect(() => {', indent(parsed.scripts.join('\n\n'), 4), '  }, []);', '');
+  }
+  lines.push('  return (', jsx, '  );', '}', '');
+
+  const files: ExportFile[] = [{ filename: `${componentName}.tsx`, content: lines.join('\n') }];
+  if (css && styleMode === 'module') {
+    files.push({ filename: `${componentName}.module.css`, content: css + '\n' });
+  }
+  return { componentName, files, warnings };
+}
@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Helpers shared by the framework exporters. Everything here is a pure, deterministic
+// transform of the artifact HTML so the same design always exports to the same files.
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+}
+
+export interface ComponentExport {
+  componentName: string;
+  /** The component file comes first, followed by any companion files */
+  files: ExportFile[];
+  /** Things the deterministic transform couldn't carry over on its own */
+  warnings: string[];
+}
+
+export interface ParsedArtifact {
+  body: HTMLElement;
+  css: string;
+  scripts: string[];
+  /** <link> tags (fonts, stylesheets) that belong in the host page's <head> */
+  headLinks: string[];
+}
+
+// Class added to the wrapper element that stands in for <html>/<body>
+export const ROOT_CLASS = 'fui-root';
+
+export const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+export const INLINE_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'br', 'code', 'em', 'i', 'kbd', 'mark', 'q', 's', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u'
+]);
+
+export function parseArtifactHtml(html: string): ParsedArtifact {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const styles = Array.from(doc.querySelectorAll('style'));
+  const css = styles.map(s => dedent(s.textContent || '')).filter(Boolean).join('\n\n');
+  styles.forEach(s => s.remove());
+
+  const scriptElements = Array.from(doc.querySelectorAll('script'));
+  const scripts = scriptElements
+    .filter(s => !s.src)
+    .map(s => dedent(s.textContent || ''))
+    .filter(Boolean);
+  const headLinks = [
+    ...scriptElements.filter(s => s.src).map(s => s.outerHTML),
+    ...Array.from(doc.querySelectorAll('link')).map(l => l.outerHTML)
+  ];
+  scriptElements.forEach(s => s.remove());
+  doc.querySelectorAll('link, meta, title').forEach(el => el.remove());
+
+  return { body: doc.body, css, scripts, headLinks };
+}
+
+// "Molten Glass Cascade" -> "MoltenGlassCascade"
+export function toComponentName(styleName: string, fallback = 'FlashComponent'): string {
+  const name = (styleName.match(/[A-Za-z0-9]+/g) || [])
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  if (!name) return fallback;
+  return /^[0-9]/.test(name) ? `${fallback}${name}` : name;
+}
+
+export function toCamelCase(value: string): string {
+  return value.replace(/[-:]+([a-zA-Z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+export function dedent(text: string): string {
+  const lines = text.replace(/\t/g, '    ').split('\n');
+  while (lines.length && !lines[0].trim()) lines.shift();
+  while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+  const indents = lines.filter(l => l.trim()).map(l => l.match(/^ */)![0].length);
+  const min = indents.length ? Math.min(...indents) : 0;
+  return lines.map(l => l.slice(min)).join('\n');
+}
+
+export function indent(text: string, spaces: number): string {
+  const pad = ' '.repeat(spaces);
+  return text.split('\n').map(l => (l.trim() ? pad + l : '')).join('\n');
+}
+
+export function escapeTemplateLiteral(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+}
+
+// Collapse markup whitespace the way a browser would render it
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+// Elements holding only text and inline markup are written on one line so their whitespace survives
+export function isInlineContent(el: Element): boolean {
+  return Array.from(el.childNodes).every(node =>
+    node.nodeType === Node.TEXT_NODE
+    || node.nodeType === Node.COMMENT_NODE
+    || (node.nodeType === Node.ELEMENT_NODE
+      && INLINE_ELEMENTS.has((node as Element).localName)
+      && isInlineContent(node as Element))
+  );
+}
+
+// Replace <body> with a wrapper div that carries its classes, inline styles and children
+export function wrapBody(body: HTMLElement): HTMLElement {
+  const root = body.ownerDocument.createElement('div');
+  Array.from(body.attributes)
+    .filter(attr => !attr.name.startsWith('on'))
+    .forEach(attr => root.setAttribute(attr.name, attr.value));
+  root.setAttribute('class', [ROOT_CLASS, body.getAttribute('class') || ''].join(' ').trim());
+  while (body.firstChild) root.appendChild(body.firstChild);
+  return root;
+}
+
+export interface MarkupSyntax {
+  /** Render one attribute (without the leading space), or return null to drop it */
+  attribute: (el: Element, name: string, value: string) => string | null;
+  /** Escape a run of text for the target template language */
+  text: (text: string) => string;
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function renderOpenTag(el: Element, syntax: MarkupSyntax): string {
+  const attributes = Array.from(el.attributes)
+    .map(({ name, value }) => syntax.attribute(el, name, value))
+    .filter((attr): attr is string => attr !== null);
+  return `<${el.localName}${attributes.length ? ' ' + attributes.join(' ') : ''}`;
+}
+
+function serializeInline(node: Node, syntax: MarkupSyntax): string {
+  if (node.nodeType === Node.TEXT_NODE) return syntax.text(collapseWhitespace(node.textContent || ''));
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const open = renderOpenTag(el, syntax);
+  if (VOID_ELEMENTS.has(el.localName)) return `${open} />`;
+  const children = Array.from(el.childNodes).map(child => serializeInline(child, syntax)).join('');
+  return `${open}>${children}</${el.localName}>`;
+}
+
+// Pretty-print an element tree as HTML-like template markup (Vue templates, Svelte markup)
+export function serializeMarkup(el: Element, depth: number, syntax: MarkupSyntax): string {
+  const pad = '  '.repeat(depth);
+  const tag = el.localName;
+  const open = renderOpenTag(el, syntax);
+
+  if (VOID_ELEMENTS.has(tag)) return `${pad}${open} />`;
+  if (tag === 'textarea' || tag === 'pre') {
+    return `${pad}${open}>${syntax.text(el.textContent || '')}</${tag}>`;
+  }
+  if (isInlineContent(el)) {
+    const content = Array.from(el.childNodes).map(child => serializeInline(child, syntax)).join('').trim();
+    return `${pad}${open}>${content}</${tag}>`;
+  }
+
+  const children = Array.from(el.childNodes).map(child => {
+    if (child.nodeType === Node.ELEMENT_NODE) return serializeMarkup(child as Element, depth + 1, syntax);
+    if (child.nodeType === Node.COMMENT_NODE) {
+      const comment = (child.textContent || '').trim();
+      return comment ? `${pad}  <!-- ${comment} -->` : '';
+    }
+    const text = collapseWhitespace(child.textContent || '').trim();
+    return text ? `${pad}  ${syntax.text(text)}` : '';
+  }).filter(Boolean);
+
+  return `${pad}${open}>\n${children.join('\n')}\n${pad}</${tag}>`;
+}
+
+// Inline handler code refers to the element as `this`; frameworks hand over the event instead
+export function rewriteHandlerThis(code: string, eventName: string): string {
+  return code.trim().replace(/\bthis\b/g, `${eventName}.currentTarget`);
+}
+
+// Shared caveats about the artifact's <script> once it runs from a lifecycle hook
+export function scriptWarnings(parsed: ParsedArtifact, handlerCode: string[], hookName: string): string[] {
+  const warnings: string[] = [];
+  if (parsed.scripts.length) {
+    warnings.push(`The original <script> now runs once in ${hookName} after mount; consider rewriting it with component state.`);
+    if (parsed.scripts.some(s => /DOMContentLoaded|window\.onload/.test(s))) {
+      warnings.push(`The script waits for DOMContentLoaded/window.onload, which has already fired by the time ${hookName} runs.`);
+    }
+  }
+  const calledFunctions = findDeclaredFunctions(parsed.scripts)
+    .filter(name => handlerCode.some(code => new RegExp(`\\b${name}\\s*\\(`).test(code)));
+  if (calledFunctions.length) {
+    warnings.push(`Inline handlers call functions declared inside ${hookName} (${calledFunctions.join(', ')}); move them to the top level of the component script.`);
+  }
+  return warnings;
+}
+
+function findMatchingBrace(css: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < css.length; i++) {
+    if (css[i] === '{') depth++;
+    else if (css[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return css.length;
+}
+
+// Split on a separator that isn't nested inside parentheses or brackets
+export function splitTopLevel(text: string, separator = ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+// Rewrites every style rule selector, recursing into conditional at-rules (@media, @supports, ...)
+// and leaving @keyframes/@font-face bodies untouched. Comments are dropped.
+export function transformSelectors(css: string, transform: (selector: string) => string): string {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let out = '';
+  let i = 0;
+  while (i < source.length) {
+    const open = source.indexOf('{', i);
+    if (open === -1) {
+      out += source.slice(i);
+      break;
+    }
+    const close = findMatchingBrace(source, open);
+    let prelude = source.slice(i, open);
+    const block = source.slice(open + 1, close);
+
+    // Statements such as @import end with ';' and precede the next rule's selector
+    const lastStatement = prelude.lastIndexOf(';');
+    if (lastStatement !== -1) {
+      out += prelude.slice(0, lastStatement + 1);
+      prelude = prelude.slice(lastStatement + 1);
+    }
+    const leading = prelude.match(/^\s*/)![0];
+    const head = prelude.trim();
+
+    if (head.startsWith('@')) {
+      out += /^@(media|supports|container|layer|document)\b/.test(head)
+        ? `${leading}${head} {${transformSelectors(block, transform)}}`
+        : `${leading}${head} {${block}}`;
+    } else {
+      out += `${leading}${Array.from(new Set(splitTopLevel(head).map(transform))).join(', ')} {${block}}`;
+    }
+    i = close + 1;
+  }
+  return out;
+}
+
+// Styles written against html/body/:root apply to the component wrapper instead,
+// and every other selector is nested under it so the export can't leak into the host page
+export function scopeSelector(selector: string, rootSelector: string): string {
+  const scoped = selector
+    .replace(/(^|\s)html\s+body(?=$|[\s>+~.:#[])/g, '$1body')
+    .replace(/(^|[\s>+~(])(?:html|body|:root)(?=$|[\s>+~.:#[)])/g, `$1${rootSelector}`);
+  return scoped.startsWith(rootSelector) ? scoped : `${rootSelector} ${scoped}`;
+}
+
+export function scopeCss(css: string, rootSelector = `.${ROOT_CLASS}`): string {
+  return transformSelectors(css, selector => scopeSelector(selector, rootSelector)).trim();
+}
+
+// Functions declared at the top level of the artifact's scripts, which inline handlers usually call
+export function findDeclaredFunctions(scripts: string[]): string[] {
+  const names = new Set<string>();
+  scripts.forEach(script => {
+    for (const match of script.matchAll(/function\s+([A-Za-z_$][\w$]*)\s*\(/g)) names.add(match[1]);
+  });
+  return Array.from(names);
+}
+
+export function headLinkWarning(headLinks: string[]): string[] {
+  return headLinks.length > 0
+    ? [`Add these tags to your page's <head>: ${headLinks.join(' ')}`]
+    : [];
+}
+
+export function downloadExportFiles(files: ExportFile[]) {
+  files.forEach(file => {
+    const blob = new Blob([file.content], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Deterministic HTML -> Svelte 5 component (.svelte) transform
+import {
+  ComponentExport,
+  MarkupSyntax,
+  escapeAttribute,
+  escapeHtml,
+  headLinkWarning,
+  indent,
+  parseArtifactHtml,
+  rewriteHandlerThis,
+  scopeCss,
+  scriptWarnings,
+  serializeMarkup,
+  toComponentName,
+  wrapBody
+} from './shared';
+
+// Braces open expressions anywhere in Svelte markup, including attribute values
+function escapeBraces(text: string): string {
+  return text.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+}
+
+export function exportToSvelte(html: string, { styleName }: { styleName: string }): ComponentExport {
+  const parsed = parseArtifactHtml(html);
+  const componentName = toComponentName(styleName);
+  const root = wrapBody(parsed.body);
+  const css = parsed.css ? scopeCss(parsed.css) : '';
+  const handlerCode: string[] = [];
+
+  const syntax: MarkupSyntax = {
+    attribute: (_el, name, value) => {
+      if (name.startsWith('on') && name.length > 2) {
+        const code = rewriteHandlerThis(value, 'event');
+        handlerCode.push(code);
+        return `${name.toLowerCase()}={(event) => { ${code} }}`;
+      }
+      return value === '' ? name : `${name}="${escapeBraces(escapeAttribute(value))}"`;
+    },
+    text: text => escapeBraces(escapeHtml(text))
+  };
+
+  const warnings = [...headLinkWarning(parsed.headLinks), ...scriptWarnings(parsed, handlerCode, 'onMount')];
+  if (parsed.scripts.length && css) {
+    warnings.push('Svelte scopes and prunes component styles, so rules for elements the script creates at runtime need :global(...).');
+  }
+
+  const blocks: string[] = [`<!-- Exported from Flash UI: "${styleName}" -->`];
+  if (parsed.scripts.length) {
+    blocks.push([
+      '<script>',
+      "  import { onMount } from 'svelte';",
+      '',
+      '  onMount(() => {',
+      indent(parsed.scripts.join('\n\n'), 4),
+      '  });',
+      '</script>'
+    ].join('\n'));
+  }
+  blocks.push(serializeMarkup(root, 0, syntax));
+  if (css) blocks.push(['<style>', indent(css, 2), '</style>'].join('\n'));
+
+  return {
+    componentName,
+    files: [{ filename: `${componentName}.svelte`, content: blocks.join('\n\n') + '\n' }],
+    warnings
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Pulls the literal palette, type, radii, shadows and spacing out of an artifact's CSS
+// and writes them as W3C design tokens, :root custom properties or a Tailwind theme.
+import type { DesignToken, DesignTokens, ShadowLayer } from '../types';
+import { parseArtifactHtml, splitTopLevel } from './shared';
+
+interface Declaration {
+  property: string;
+  value: string;
+}
+
+const COLOR_PATTERN = /#(?:[0-9a-fA-F]{8}|[0-9a-fA-F]{6}|[0-9a-fA-F]{3,4})\b|(?:rgba?|hsla?|oklch|oklab|lab|lch)\([^()]*\)/g;
+const LENGTH_PATTERN = /^-?(\d*\.?\d+)(px|rem|em)$/;
+
+const MAX_COLORS = 16;
+const MAX_FONT_FAMILIES = 4;
+// Dimension groups are named on a t-shirt scale, which caps how many steps they can have
+const SCALE_NAMES = ['xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', '4xl', '5xl'];
+const FAMILY_NAMES = ['primary', 'secondary', 'tertiary', 'quaternary'];
+const WEIGHT_NAMES: Record<number, string> = {
+  100: 'thin', 200: 'extralight', 300: 'light', 400: 'normal', 500: 'medium',
+  600: 'semibold', 700: 'bold', 800: 'extrabold', 900: 'black'
+};
+
+// Token group -> Tailwind theme key
+const TAILWIND_KEYS: Record<string, string> = {
+  color: 'colors',
+  fontFamily: 'fontFamily',
+  fontSize: 'fontSize',
+  fontWeight: 'fontWeight',
+  borderRadius: 'borderRadius',
+  shadow: 'boxShadow',
+  spacing: 'spacing'
+};
+
+function collectDeclarations(html: string): Declaration[] {
+  const parsed = parseArtifactHtml(html);
+  const css = parsed.css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const declarations: Declaration[] = [];
+
+  for (const match of css.matchAll(/([-\w]+)\s*:\s*([^;{}]+)(?=[;}])/g)) {
+    declarations.push({ property: match[1].toLowerCase(), value: match[2] });
+  }
+  parsed.body.querySelectorAll('[style]').forEach(el => {
+    splitTopLevel(el.getAttribute('style') || '', ';').forEach(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon > 0) {
+        declarations.push({ property: declaration.slice(0, colon).trim().toLowerCase(), value: declaration.slice(colon + 1) });
+      }
+    });
+  });
+
+  return declarations.map(d => ({ property: d.property, value: d.value.replace(/!important/g, '').trim() }));
+}
+
+// Counts occurrences while remembering first-seen order for stable tie-breaks
+function tally(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!);
+}
+
+function toPx(length: string): number {
+  const match = length.match(LENGTH_PATTERN);
+  if (!match) return NaN;
+  const amount = parseFloat(length);
+  return match[2] === 'px' ? amount : amount * 16;
+}
+
+// Names centred on "md", e.g. 3 values -> sm, md, lg
+function scaleNames(count: number): string[] {
+  const start = Math.max(0, 2 - Math.floor((count - 1) / 2));
+  return SCALE_NAMES.slice(start, start + count);
+}
+
+function dimensionGroup(lengths: string[]): Record<string, DesignToken> {
+  // Keep the most used values, then lay them out smallest to largest
+  const kept = tally(lengths.filter(l => LENGTH_PATTERN.test(l) && toPx(l) > 0))
+    .slice(0, SCALE_NAMES.length)
+    .sort((a, b) => toPx(a) - toPx(b));
+  const names = scaleNames(kept.length);
+  return Object.fromEntries(kept.map((value, i) => [names[i], { $type: 'dimension', $value: value }]));
+}
+
+function lengthsFor(declarations: Declaration[], matches: (property: string) => boolean): string[] {
+  return declarations
+    .filter(d => matches(d.property) && !d.value.includes('var('))
+    .flatMap(d => d.value.split(/\s+/));
+}
+
+function extractColors(declarations: Declaration[]): Record<string, DesignToken> {
+  // A custom property holding exactly one color lends that color its name
+  const customNames = new Map<string, string>();
+  declarations.forEach(d => {
+    const matches = d.value.match(COLOR_PATTERN);
+    if (d.property.startsWith('--') && matches?.length === 1 && matches[0] === d.value) {
+      const name = d.property.slice(2).replace(/^colou?r-/, '').replace(/[^\w-]/g, '');
+      if (name && !customNames.has(d.value.toLowerCase())) customNames.set(d.value.toLowerCase(), name);
+    }
+  });
+
+  const colors = tally(declarations.flatMap(d => (d.value.match(COLOR_PATTERN) || []).map(c => c.toLowerCase())))
+    .slice(0, MAX_COLORS);
+
+  const group: Record<string, DesignToken> = {};
+  let paletteIndex = 1;
+  colors.forEach(color => {
+    let name = customNames.get(color);
+    if (!name || group[name]) name = `palette-${paletteIndex++}`;
+    group[name] = { $type: 'color', $value: color };
+  });
+  return group;
+}
+
+function extractFontFamilies(declarations: Declaration[]): Record<string, DesignToken> {
+  const stacks = tally(
+    declarations
+      .filter(d => d.property === 'font-family' && !d.value.includes('var('))
+      .map(d => splitTopLevel(d.value).map(f => f.replace(/^["']|["']$/g, '')).join(', '))
+  ).slice(0, MAX_FONT_FAMILIES);
+  return Object.fromEntries(stacks.map((stack, i) => [FAMILY_NAMES[i], { $type: 'fontFamily', $value: stack.split(', ') }]));
+}
+
+function extractFontWeights(declarations: Declaration[]): Record<string, DesignToken> {
+  const weights = declarations
+    .filter(d => d.property === 'font-weight')
+    .map(d => (d.value === 'bold' ? 700 : d.value === 'normal' ? 400 : parseInt(d.value, 10)))
+    .filter(w => WEIGHT_NAMES[w]);
+  return Object.fromEntries(
+    Array.from(new Set(weights)).sort((a, b) => a - b).map(w => [WEIGHT_NAMES[w], { $type: 'fontWeight', $value: w }])
+  );
+}
+
+function parseShadow(value: string): ShadowLayer[] | null {
+  const layers = splitTopLevel(value).map(layer => {
+    const color = layer.match(COLOR_PATTERN)?.[0] || '#000000';
+    const inset = /\binset\b/.test(layer);
+    const lengths = layer.replace(color, '').replace(/\binset\b/, '').trim().split(/\s+/)
+      .map(l => (l === '0' ? '0px' : l));
+    if (lengths.length < 2 || lengths.length > 4 || !lengths.every(l => LENGTH_PATTERN.test(l))) return null;
+    const shadow: ShadowLayer = {
+      color,
+      offsetX: lengths[0],
+      offsetY: lengths[1],
+      blur: lengths[2] || '0px',
+      spread: lengths[3] || '0px'
+    };
+    if (inset) shadow.inset = true;
+    return shadow;
+  });
+  return layers.every(Boolean) ? layers as ShadowLayer[] : null;
+}
+
+function extractShadows(declarations: Declaration[]): Record<string, DesignToken> {
+  const shadows = tally(declarations.filter(d => d.property === 'box-shadow').map(d => d.value))
+    .map(parseShadow)
+    .filter((s): s is ShadowLayer[] => s !== null)
+    .slice(0, SCALE_NAMES.length)
+    .sort((a, b) => toPx(a[0].blur) - toPx(b[0].blur));
+  const names = scaleNames(shadows.length);
+  return Object.fromEntries(shadows.map((layers, i) => [names[i], { $type: 'shadow', $value: layers }]));
+}
+
+export function extractDesignTokens(html: string): DesignTokens {
+  const declarations = collectDeclarations(html);
+  const groups: DesignTokens = {
+    color: extractColors(declarations),
+    fontFamily: extractFontFamilies(declarations),
+    fontSize: dimensionGroup(lengthsFor(declarations, p => p === 'font-size')),
+    fontWeight: extractFontWeights(declarations),
+    borderRadius: dimensionGroup(lengthsFor(declarations, p => /^border(-[a-z]+)*-radius$/.test(p))),
+    shadow: extractShadows(declarations),
+    spacing: dimensionGroup(lengthsFor(declarations, p => /^(padding|margin)(-[a-z]+)?$|^(row-|column-)?gap$/.test(p)))
+  };
+  return Object.fromEntries(Object.entries(groups).filter(([, tokens]) => Object.keys(tokens).length > 0));
+}
+
+export function countDesignTokens(tokens: DesignTokens): number {
+  return Object.values(tokens).reduce((sum, group) => sum + Object.keys(group).length, 0);
+}
+
+export function tokenCssValue(token: DesignToken): string {
+  switch (token.$type) {
+    case 'fontFamily':
+      return token.$value.map(f => (/\s/.test(f) ? `"${f}"` : f)).join(', ');
+    case 'fontWeight':
+      return String(token.$value);
+    case 'shadow':
+      return token.$value
+        .map(l => `${l.inset ? 'inset ' : ''}${l.offsetX} ${l.offsetY} ${l.blur} ${l.spread} ${l.color}`)
+        .join(', ');
+    default:
+      return token.$value;
+  }
+}
+
+function kebab(value: string): string {
+  return value.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+}
+
+export function tokensToJson(tokens: DesignTokens): string {
+  return JSON.stringify(tokens, null, 2) + '\n';
+}
+
+export function tokensToCssVariables(tokens: DesignTokens): string {
+  const lines = Object.entries(tokens).flatMap(([group, entries]) =>
+    Object.entries(entries).map(([name, token]) => `  --${kebab(group)}-${name}: ${tokenCssValue(token)};`)
+  );
+  return `:root {\n${lines.join('\n')}\n}\n`;
+}
+
+export function tokensToTailwindTheme(tokens: DesignTokens): string {
+  const extend = Object.fromEntries(Object.entries(tokens).map(([group, entries]) => [
+    TAILWIND_KEYS[group] || group,
+    Object.fromEntries(Object.entries(entries).map(([name, token]) => [
+      name,
+      token.$type === 'fontFamily' ? token.$value : tokenCssValue(token)
+    ]))
+  ]));
+  const body = JSON.stringify(extend, null, 2).split('\n').join('\n    ');
+  return `// tailwind.config.js\nexport default {\n  theme: {\n    extend: ${body}\n  }\n};\n`;
+}
+
+function range(group: Record<string, DesignToken> | undefined): string | null {
+  const values = Object.values(group || {}).map(tokenCssValue);
+  if (values.length === 0) return null;
+  return values.length === 1 ? values[0] : `${values[0]} to ${values[values.length - 1]}`;
+}
+
+// Plain-language summary of the tokens, used as a starting point for Style DNA descriptions
+export function describeDesignTokens(tokens: DesignTokens): string {
+  const parts: string[] = [];
+  if (tokens.color) parts.push(`Palette: ${Object.values(tokens.color).slice(0, 6).map(tokenCssValue).join(', ')}.`);
+  if (tokens.fontFamily) {
+    const weights = tokens.fontWeight ? ` in weights ${Object.values(tokens.fontWeight).map(tokenCssValue).join('/')}` : '';
+    parts.push(`Typography: ${Object.values(tokens.fontFamily).map(t => tokenCssValue(t).split(',')[0]).join(' and ')}${weights}.`);
+  }
+  const sizes = range(tokens.fontSize);
+  if (sizes) parts.push(`Font sizes from ${sizes}.`);
+  const radii = range(tokens.borderRadius);
+  if (radii) parts.push(`Corner radius ${radii}.`);
+  if (tokens.shadow) parts.push(`Shadows like ${tokenCssValue(Object.values(tokens.shadow)[0])}.`);
+  const spacing = range(tokens.spacing);
+  if (spacing) parts.push(`Spacing ${spacing}.`);
+  return parts.join(' ');
+}
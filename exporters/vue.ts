@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Deterministic HTML -> Vue single-file component (.vue) transform
+import {
+  ComponentExport,
+  MarkupSyntax,
+  escapeAttribute,
+  escapeHtml,
+  headLinkWarning,
+  indent,
+  parseArtifactHtml,
+  rewriteHandlerThis,
+  scopeCss,
+  scriptWarnings,
+  serializeMarkup,
+  toComponentName,
+  wrapBody
+} from './shared';
+
+export function exportToVue(html: string, { styleName }: { styleName: string }): ComponentExport {
+  const parsed = parseArtifactHtml(html);
+  const componentName = toComponentName(styleName);
+  const root = wrapBody(parsed.body);
+  const css = parsed.css ? scopeCss(parsed.css) : '';
+  const handlerCode: string[] = [];
+
+  const syntax: MarkupSyntax = {
+    attribute: (_el, name, value) => {
+      if (name.startsWith('on') && name.length > 2) {
+        // Vue exposes the DOM event to inline handlers as $event
+        const code = rewriteHandlerThis(value.replace(/(?<![\w$.])event\b/g, '$event'), '$event');
+        handlerCode.push(code);
+        return `@${name.slice(2).toLowerCase()}="${escapeAttribute(code)}"`;
+      }
+      return value === '' ? name : `${name}="${escapeAttribute(value)}"`;
+    },
+    // Stop literal "{{" from being read as an interpolation
+    text: text => escapeHtml(text).replace(/\{\{/g, '&#123;&#123;')
+  };
+
+  const warnings = [...headLinkWarning(parsed.headLinks), ...scriptWarnings(parsed, handlerCode, 'onMounted')];
+  if (handlerCode.length) {
+    warnings.push('Inline handlers are evaluated against the component instance, so browser globals such as document are not available in them.');
+  }
+  if (parsed.scripts.length && css) {
+    warnings.push('Scoped styles do not reach elements the script creates at runtime; move those rules into an unscoped <style> block if needed.');
+  }
+
+  const blocks: string[] = [`<!-- Exported from Flash UI: "${styleName}" -->`];
+  if (parsed.scripts.length) {
+    blocks.push([
+      '<script setup>',
+      "import { onMounted } from 'vue';",
+      '',
+      'onMounted(() => {',
+      indent(parsed.scripts.join('\n\n'), 2),
+      '});',
+      '</script>'
+    ].join('\n'));
+  }
+  blocks.push(['<template>', serializeMarkup(root, 1, syntax), '</template>'].join('\n'));
+  if (css) blocks.push(['<style scoped>', css, '</style>'].join('\n'));
+
+  return {
+    componentName,
+    files: [{ filename: `${componentName}.vue`, content: blocks.join('\n\n') + '\n' }],
+    warnings
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Batch mode: turns a pasted list or CSV of briefs into rows, and runs work over them
+// with a fixed number in flight.
+import type { AIModel } from '../models';
+import { generateId } from '../utils';
+import type { StylePreset } from '../types';
+import type { BatchRow, BatchRowStatus } from './types';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 6;
+
+const PROMPT_COLUMNS = ['prompt', 'brief', 'description'];
+const PRESET_COLUMNS = ['preset', 'style', 'style preset'];
+const MODEL_COLUMNS = ['model'];
+
+export interface CsvRecord {
+  fields: string[];
+  /** 1-based line the record starts on; quoted line breaks push later records further down */
+  line: number;
+}
+
+// Quoted fields may contain delimiters, doubled quotes and line breaks
+export function parseCsvRecords(text: string, delimiter = ','): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ fields: record, line: recordLine });
+      record = [];
+      field = '';
+      recordLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ fields: record, line: recordLine });
+  }
+  return records;
+}
+
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  return parseCsvRecords(text, delimiter).map(record => record.fields);
+}
+
+function detectDelimiter(headerLine: string): string {
+  if (headerLine.includes('\t')) return '\t';
+  if (headerLine.includes(';') && !headerLine.includes(',')) return ';';
+  return ',';
+}
+
+function findColumn(header: string[], names: string[]): number {
+  return header.findIndex(cell => names.includes(cell.trim().toLowerCase()));
+}
+
+function resolveRow(line: number, prompt: string, presetName: string, modelName: string, presets: StylePreset[], models: AIModel[]): BatchRow {
+  const row: BatchRow = { id: generateId(), line, prompt, status: 'queued' };
+  const problems: string[] = [];
+
+  if (presetName) {
+    const preset = presets.find(p => p.name.toLowerCase() === presetName.toLowerCase());
+    if (preset) row.presetId = preset.id;
+    else problems.push(`no style preset named "${presetName}"`);
+  }
+  if (modelName) {
+    const wanted = modelName.toLowerCase();
+    const model = models.find(m => m.id.toLowerCase() === wanted || m.name.toLowerCase() === wanted);
+    if (!model) problems.push(`unknown model "${modelName}"`);
+    else if (!model.available) problems.push(`model unavailable: ${model.unavailableReason ?? model.name}`);
+    else row.modelId = model.id;
+  }
+  if (problems.length > 0) row.problem = problems.join('; ');
+  return row;
+}
+
+/**
+ * Reads briefs from either a CSV whose header has a prompt column (plus optional preset
+ * and model columns) or a plain list with one brief per line. List bullets and numbering
+ * are dropped, as are blank lines and lines starting with #. Model names are checked
+ * against `models`, the list /api/models reported, so unusable ones are caught up front.
+ */
+export function parseBatchInput(text: string, presets: StylePreset[], models: AIModel[]): BatchRow[] {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) ?? '';
+  const delimiter = detectDelimiter(firstLine);
+  const header = parseCsv(firstLine, delimiter)[0] ?? [];
+  const promptColumn = findColumn(header, PROMPT_COLUMNS);
+
+  if (promptColumn === -1) {
+    return text.split(/\r?\n/).flatMap((raw, i) => {
+      const prompt = raw.trim().replace(/^([-*•]|\d+[.)])\s+/, '');
+      return prompt && !prompt.startsWith('#') ? [resolveRow(i + 1, prompt, '', '', presets, models)] : [];
+    });
+  }
+
+  const presetColumn = findColumn(header, PRESET_COLUMNS);
+  const modelColumn = findColumn(header, MODEL_COLUMNS);
+  // Blank lines are dropped rather than trimmed away, so line numbers still match the input
+  const records = parseCsvRecords(text, delimiter).filter(record => record.fields.some(field => field.trim())).slice(1);
+  return records.flatMap(({ fields, line }) => {
+    const prompt = (fields[promptColumn] ?? '').trim();
+    if (!prompt) return [];
+    const cell = (column: number) => (column >= 0 ? (fields[column] ?? '').trim() : '');
+    return [resolveRow(line, prompt, cell(presetColumn), cell(modelColumn), presets, models)];
+  });
+}
+
+// Row outcome from its session's artifacts once the job has settled
+export function summarizeBatchRow(statuses: string[]): BatchRowStatus {
+  const completed = statuses.filter(s => s === 'complete').length;
+  if (completed === statuses.length) return 'complete';
+  if (completed > 0) return 'partial';
+  return statuses.every(s => s === 'cancelled') ? 'cancelled' : 'error';
+}
+
+/**
+ * Runs `worker` over the items with at most `limit` in flight, in order. Once the signal
+ * aborts no new items start; ones already running are left to the worker to stop.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+}
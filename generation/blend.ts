@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BlendDimension, BlendMix, StyleReference } from '../types';
+
+export const MIN_BLEND_SOURCES = 2;
+export const MAX_BLEND_SOURCES = 4;
+
+// Aspects of a design that can be taken from one source instead of mixed
+export const BLEND_DIMENSIONS: { id: BlendDimension; label: string; covers: string }[] = [
+  { id: 'color', label: 'Colors', covers: 'palette, gradients, contrast and accent usage' },
+  { id: 'typography', label: 'Typography', covers: 'typefaces, sizes, weights and letter spacing' },
+  { id: 'layout', label: 'Layout', covers: 'structure, grid, spacing and density' },
+  { id: 'surface', label: 'Surface', covers: 'borders, radii, shadows, textures and effects' }
+];
+
+// Lead shares tried in turn when filling a default set of mixes
+const LEAD_SHARES = [70, 60, 80, 90, 55];
+
+export function sourceLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/** Rounds weights to whole percents that add up to exactly 100; all zeros become an even split */
+export function normalizeWeights(weights: number[]): number[] {
+  const clamped = weights.map(w => (Number.isFinite(w) ? Math.max(0, w) : 0));
+  const total = clamped.reduce((sum, w) => sum + w, 0);
+  const scaled = total > 0 ? clamped.map(w => (w / total) * 100) : clamped.map(() => 100 / clamped.length);
+  const rounded = scaled.map(Math.floor);
+  let remainder = 100 - rounded.reduce((sum, w) => sum + w, 0);
+  // Largest fractional parts get the leftover points
+  scaled
+    .map((w, i) => ({ i, fraction: w - rounded[i] }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ i }) => {
+      if (remainder > 0) {
+        rounded[i]++;
+        remainder--;
+      }
+    });
+  return rounded;
+}
+
+function leadWeights(sourceCount: number, lead: number, share: number): number[] {
+  const rest = (100 - share) / (sourceCount - 1);
+  return normalizeWeights(Array.from({ length: sourceCount }, (_, i) => (i === lead ? share : rest)));
+}
+
+/**
+ * Even split first, then each source leading in turn at decreasing strength. For two
+ * sources this is the familiar 50/50, 70/30, 30/70, 60/40, 40/60 row.
+ */
+export function defaultBlendMixes(sourceCount: number, count: number): BlendMix[] {
+  const mixes: BlendMix[] = [{ weights: normalizeWeights(Array(sourceCount).fill(1)) }];
+  for (const share of LEAD_SHARES) {
+    for (let lead = 0; lead < sourceCount; lead++) mixes.push({ weights: leadWeights(sourceCount, lead, share) });
+  }
+  return mixes.slice(0, Math.max(1, count));
+}
+
+// A fresh mix for re-rolling a slot: random weights in steps of ten
+export function randomBlendMix(sourceCount: number): BlendMix {
+  const weights = Array.from({ length: sourceCount }, () => 1 + Math.floor(Math.random() * 9));
+  return { weights: normalizeWeights(weights.map(w => w * 10)) };
+}
+
+export function describeBlendMix(sources: StyleReference[], mix: BlendMix): string {
+  const names = sources.map(s => s.styleName);
+  const assigned = BLEND_DIMENSIONS.filter(d => mix.dimensions?.[d.id] !== undefined && names[mix.dimensions[d.id]!]);
+  if (assigned.length > 0) {
+    return assigned.map(d => `${d.label}: ${names[mix.dimensions![d.id]!]}`).join(' · ');
+  }
+  return `${names.join(' × ')} (${mix.weights.join('/')})`;
+}
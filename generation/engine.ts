@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { generateId, isAbortError } from '../utils';
+import type { Artifact, GenerationRecipe, Session } from '../types';
+import type { GenerationEvent, GenerationHandle, GenerationJob, GenerationSlot } from './types';
+import { getStrategy } from './strategies';
+import { buildErrorHtml, streamArtifactHtml } from './pipeline';
+
+export const DEFAULT_ARTIFACT_COUNT = 5;
+export const MIN_ARTIFACT_COUNT = 1;
+export const MAX_ARTIFACT_COUNT = 12;
+
+export function clampArtifactCount(count: number): number {
+  if (!Number.isFinite(count)) return DEFAULT_ARTIFACT_COUNT;
+  return Math.min(MAX_ARTIFACT_COUNT, Math.max(MIN_ARTIFACT_COUNT, Math.round(count)));
+}
+
+// Style names that only ever stand in for a real one
+const PLACEHOLDER_STYLE_NAMES = ['Designing...', 'Blending...', 'Error', 'Cancelled', 'Interrupted'];
+
+interface SessionOptions {
+  modelId: string;
+  count?: number;
+}
+
+/**
+ * Builds a new session with `count` artifacts plus the job that fills the placeholders.
+ * "Similar" sessions keep the source design as a finished first slot, and always get at
+ * least one new design next to it.
+ */
+export function createGenerationSession(recipe: GenerationRecipe, { modelId, count = DEFAULT_ARTIFACT_COUNT }: SessionOptions): { session: Session; job: GenerationJob } {
+  const strategy = getStrategy(recipe);
+  const sessionId = generateId();
+
+  const artifacts: Artifact[] = [];
+  if (recipe.kind === 'similar') {
+    artifacts.push({
+      id: `${sessionId}_0`,
+      styleName: `${recipe.source.styleName} (Original)`,
+      html: recipe.source.html,
+      status: 'complete'
+    });
+  }
+  const total = Math.max(clampArtifactCount(count), artifacts.length + 1);
+  while (artifacts.length < total) {
+    artifacts.push({
+      id: `${sessionId}_${artifacts.length}`,
+      styleName: strategy.placeholderName,
+      html: '',
+      status: 'streaming'
+    });
+  }
+
+  const session: Session = {
+    id: sessionId,
+    prompt: strategy.sessionPrompt(recipe),
+    timestamp: Date.now(),
+    artifacts,
+    recipe
+  };
+
+  const slots: GenerationSlot[] = artifacts.flatMap((art, index) =>
+    art.status === 'streaming' ? [{ artifactId: art.id, index }] : []
+  );
+
+  return { session, job: { id: generateId(), sessionId, recipe, modelId, slots } };
+}
+
+/**
+ * Job that reruns one slot of an existing session. Keeps the slot's style unless a new one
+ * is requested or it never got a real name. Sessions from before recipes existed fall back
+ * to a fresh recipe built from their prompt.
+ */
+export function createRegenerationJob(session: Session, artifactId: string, { modelId, newStyle, fallbackRecipe }: {
+  modelId: string;
+  newStyle: boolean;
+  fallbackRecipe: GenerationRecipe;
+}): GenerationJob | null {
+  const index = session.artifacts.findIndex(a => a.id === artifactId);
+  if (index < 0) return null;
+  const artifact = session.artifacts[index];
+
+  const keepStyle = !newStyle && !PLACEHOLDER_STYLE_NAMES.includes(artifact.styleName);
+  return {
+    id: generateId(),
+    sessionId: session.id,
+    recipe: session.recipe ?? fallbackRecipe,
+    modelId,
+    slots: [{ artifactId, index, styleName: keepStyle ? artifact.styleName : undefined }],
+    avoidStyleNames: keepStyle ? undefined : session.artifacts.map(a => a.styleName).filter(n => !PLACEHOLDER_STYLE_NAMES.includes(n))
+  };
+}
+
+/**
+ * Job that reruns the given slots of an earlier job, e.g. the ones that hit an error.
+ * Slots keep the style they were already given; the rest get new, unused names.
+ */
+export function createRetryJob(job: GenerationJob, session: Session, artifactIds: string[]): GenerationJob | null {
+  const slots = job.slots
+    .filter(slot => artifactIds.includes(slot.artifactId))
+    .map(slot => {
+      const styleName = session.artifacts.find(a => a.id === slot.artifactId)?.styleName;
+      return { ...slot, styleName: styleName && !PLACEHOLDER_STYLE_NAMES.includes(styleName) ? styleName : slot.styleName };
+    });
+  if (slots.length === 0) return null;
+  const needsNames = slots.some(slot => !slot.styleName);
+  return {
+    ...job,
+    id: generateId(),
+    slots,
+    avoidStyleNames: needsNames ? session.artifacts.map(a => a.styleName).filter(n => !PLACEHOLDER_STYLE_NAMES.includes(n)) : undefined
+  };
+}
+
+export function getPlaceholderName(recipe: GenerationRecipe): string {
+  return getStrategy(recipe).placeholderName;
+}
+
+/**
+ * Runs a job: resolves style names, then streams every slot in parallel, reporting
+ * progress through `onEvent`. The returned handle cancels single slots or the whole job.
+ */
+export function startGenerationJob(job: GenerationJob, onEvent: (event: GenerationEvent) => void): GenerationHandle {
+  const styleController = new AbortController();
+  const slotControllers = new Map(job.slots.map(slot => [slot.artifactId, new AbortController()]));
+
+  const cancel = (artifactId?: string) => {
+    if (artifactId) {
+      slotControllers.get(artifactId)?.abort();
+      // Nothing left to name once every slot is cancelled
+      if ([...slotControllers.values()].every(c => c.signal.aborted)) styleController.abort();
+      return;
+    }
+    styleController.abort();
+    slotControllers.forEach(c => c.abort());
+  };
+
+  return { jobId: job.id, sessionId: job.sessionId, cancel, done: runJob(job, onEvent, styleController.signal, slotControllers) };
+}
+
+async function runJob(
+  job: GenerationJob,
+  onEvent: (event: GenerationEvent) => void,
+  styleSignal: AbortSignal,
+  slotControllers: Map<string, AbortController>
+): Promise<void> {
+  const strategy = getStrategy(job.recipe);
+  const images = strategy.images?.(job.recipe);
+
+  let resolved;
+  try {
+    resolved = await strategy.resolveSlots(job.recipe, job.slots, {
+      modelId: job.modelId,
+      signal: styleSignal,
+      avoidStyleNames: job.avoidStyleNames ?? [],
+      images,
+      onRetry: (info) => onEvent({ type: 'retry', ...info }),
+      onUsage: (usage) => onEvent({ type: 'usage', usage })
+    });
+  } catch (e: any) {
+    if (isAbortError(e)) {
+      // Cancelled before any artifact started streaming
+      job.slots.forEach(slot => {
+        onEvent({ type: 'style', artifactId: slot.artifactId, styleName: slot.styleName ?? 'Cancelled' });
+        onEvent({ type: 'cancelled', artifactId: slot.artifactId, html: '' });
+      });
+      return;
+    }
+    console.error('Fatal error in generation process', e);
+    const message = e.message || 'Unknown error occurred';
+    const html = buildErrorHtml('Generation Failed', message);
+    job.slots.forEach(slot => {
+      onEvent({ type: 'style', artifactId: slot.artifactId, styleName: slot.styleName ?? 'Error' });
+      onEvent({ type: 'error', artifactId: slot.artifactId, html, message });
+    });
+    return;
+  }
+
+  job.slots.forEach((slot, i) => {
+    onEvent({ type: 'style', artifactId: slot.artifactId, styleName: resolved[i].styleName, mix: resolved[i].mix });
+  });
+
+  await Promise.all(job.slots.map(async (slot, i) => {
+    let accumulatedHtml = '';
+    try {
+      const html = await streamArtifactHtml(strategy.artifactPrompt(job.recipe, resolved[i]), {
+        modelId: job.modelId,
+        signal: slotControllers.get(slot.artifactId)?.signal,
+        images,
+        onRetry: (info) => onEvent({ type: 'retry', artifactId: slot.artifactId, ...info }),
+        onUsage: (usage) => onEvent({ type: 'usage', artifactId: slot.artifactId, usage }),
+        onChunk: (chunk) => {
+          accumulatedHtml = chunk;
+          onEvent({ type: 'chunk', artifactId: slot.artifactId, html: chunk });
+        }
+      });
+      onEvent({ type: 'complete', artifactId: slot.artifactId, html });
+    } catch (e: any) {
+      if (isAbortError(e)) {
+        onEvent({ type: 'cancelled', artifactId: slot.artifactId, html: accumulatedHtml });
+        return;
+      }
+      console.error('Error generating artifact:', e);
+      const message = e.message || 'Unknown error occurred';
+      onEvent({ type: 'error', artifactId: slot.artifactId, html: buildErrorHtml('Design Generation Failed', message), message });
+    }
+  }));
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, streamGenerateContent } from '../utils';
+import type { ImagePart, TokenUsage } from '../types';
+import { CHANGE_SUMMARY_MARKER } from './prompts';
+
+export interface StreamArtifactOptions {
+  modelId?: string;
+  signal?: AbortSignal;
+  /** Reference images sent with the prompt */
+  images?: ImagePart[];
+  /** Called with the full accumulated (unstripped) text after every chunk */
+  onChunk?: (accumulatedHtml: string) => void;
+  /** Called before a rate-limited or timed-out request is tried again */
+  onRetry?: (info: RetryInfo) => void;
+  /** Called with the tokens of each attempt the server reported usage for */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface RetryInfo {
+  attempt: number;
+  delayMs: number;
+  message: string;
+}
+
+// Rate limits (429) and upstream timeouts (504) usually clear up on their own
+const RETRYABLE_STATUSES = [429, 504];
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+
+// Hints shown under a failed design so the user knows where to look first
+const COMMON_ISSUES = [
+  'API key not configured (check .env file)',
+  'Network connection issues',
+  'API rate limits exceeded',
+  'Server not running (check port 3001)'
+];
+
+// Models sometimes wrap the output in ```html (or ```tsx, ...) fences despite being told not to
+export function stripMarkdownFences(text: string): string {
+  let html = text.trim();
+  if (html.startsWith('```')) html = html.replace(/^```[\w-]*/, '').trimStart();
+  if (html.endsWith('```')) html = html.substring(0, html.length - 3).trimEnd();
+  return html;
+}
+
+export function buildErrorHtml(title: string, message: string, hints: string[] = COMMON_ISSUES): string {
+  return `
+    <div style="padding: 40px; text-align: center; color: #ff6b6b; font-family: system-ui, -apple-system, sans-serif;">
+        <div style="font-size: 24px; margin-bottom: 16px;">⚠️ ${title}</div>
+        <div style="font-size: 14px; color: #ff9999; margin-bottom: 24px; max-width: 500px; margin-left: auto; margin-right: auto;">
+            ${message}
+        </div>
+        ${hints.length > 0 ? `
+        <div style="font-size: 12px; color: #999; margin-top: 24px;">
+            <div>Common issues:</div>
+            <ul style="text-align: left; display: inline-block; margin-top: 8px;">
+                ${hints.map(hint => `<li>${hint}</li>`).join('')}
+            </ul>
+        </div>` : ''}
+    </div>
+  `;
+}
+
+// Pulls the first JSON array out of a model reply that may include prose around it
+export function parseJsonArray(text: string): unknown[] | null {
+  const jsonMatch = text.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) return null;
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const CHANGE_SUMMARY_PATTERN = new RegExp(`^<!--\\s*${CHANGE_SUMMARY_MARKER}\\s*([\\s\\S]*?)-->`);
+
+// Splits a refinement reply into its leading change summary and the html after it
+export function splitChangeSummary(text: string): { summary: string | null; html: string } {
+  const match = text.trim().match(CHANGE_SUMMARY_PATTERN);
+  if (!match) return { summary: null, html: text };
+  // Fences may come after the comment, where the first pass couldn't see them
+  return { summary: match[1].trim() || null, html: stripMarkdownFences(text.trim().slice(match[0].length)) };
+}
+
+export function isRetryableError(error: any): boolean {
+  return error instanceof ApiError && RETRYABLE_STATUSES.includes(error.status ?? 0);
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `task`, retrying retryable API failures with exponential backoff (1s, 2s, 4s plus jitter).
+ * Other errors, and the last retryable one, are rethrown as-is.
+ */
+export async function withRetry<T>(task: () => Promise<T>, { signal, onRetry }: { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void } = {}): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e: any) {
+      if (attempt > MAX_RETRIES || !isRetryableError(e) || signal?.aborted) throw e;
+      const delayMs = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) + Math.round(Math.random() * 250);
+      onRetry?.({ attempt, delayMs, message: e.message });
+      await waitFor(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Streams a single artifact's HTML and resolves with the cleaned-up document.
+ * Rate-limited attempts start over from scratch; abort errors propagate untouched and
+ * it throws when the model returns nothing.
+ */
+export async function streamArtifactHtml(prompt: string, options: StreamArtifactOptions = {}): Promise<string> {
+  const { modelId, signal, images, onChunk, onRetry, onUsage } = options;
+  let accumulatedHtml = '';
+
+  await withRetry(async () => {
+    accumulatedHtml = '';
+    for await (const chunk of streamGenerateContent(prompt, undefined, modelId, signal, images)) {
+      if (typeof chunk.text === 'string') {
+        accumulatedHtml += chunk.text;
+        onChunk?.(accumulatedHtml);
+      }
+      if (chunk.usage) onUsage?.(chunk.usage);
+    }
+  }, { signal, onRetry });
+
+  const finalHtml = stripMarkdownFences(accumulatedHtml);
+  if (!finalHtml) {
+    throw new Error('No HTML content received from API');
+  }
+  return finalHtml;
+}
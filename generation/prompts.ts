@@ -0,0 +1,354 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BlendMix, RefinementMessage, StyleReference } from '../types';
+import { BLEND_DIMENSIONS, sourceLetter } from './blend';
+import type { A11yIssue } from '../audit/accessibility';
+import type { OverflowReport } from '../audit/responsive';
+
+// Saved Style DNA carries a written description alongside its reference HTML
+export function styleNotes(styleReference: StyleReference): string {
+  return styleReference.description?.trim()
+    ? `STYLE NOTES: ${styleReference.description.trim()}\n`
+    : '';
+}
+
+// "Fresh" artifact: a new design for the prompt in the given style theme
+export function buildFreshArtifactPrompt(userPrompt: string, styleName: string, styleReference?: StyleReference, hasReferenceImage = false): string {
+  let prompt = `
+You are Flash UI, a master UI/UX designer. Create a high-fidelity UI component for: "${userPrompt}".
+
+**STYLE THEME: ${styleName}**
+
+Fully embody this style theme. The name evokes a physical material, texture, or phenomenon - translate that into:
+- Color palette inspired by the theme
+- Typography that matches the mood
+- Textures, shadows, and effects that feel like the material
+- Layout and spacing that reinforce the aesthetic
+- Micro-interactions and hover states consistent with the theme
+
+**DESIGN REQUIREMENTS:**
+1. **Visual Impact**: Create a striking, memorable design that fully commits to the style theme
+2. **Functional UI**: Despite the creative styling, ensure the component is usable and interactive
+3. **Rich Details**: Include thoughtful hover states, transitions, and visual feedback
+4. **Complete Implementation**: Include realistic content, not placeholder text
+`;
+
+  if (hasReferenceImage) {
+    prompt += `
+**REFERENCE IMAGE:**
+The attached image is a screenshot or mockup of the UI to build. Recreate its structure, content and
+information hierarchy faithfully (sections, components, labels, data), then reinterpret its visual
+treatment through the style theme above.
+`;
+  }
+
+  // Add style reference if style is locked
+  if (styleReference) {
+    prompt += `
+**STYLE REFERENCE - MATCH THIS AESTHETIC:**
+Analyze and match the visual style (colors, typography, textures, spacing, visual language) from this reference:
+\`\`\`html
+${styleReference.html}
+\`\`\`
+${styleNotes(styleReference)}
+IMPORTANT: Use the SAME visual style (colors, fonts, textures, effects) but create a DIFFERENT layout/structure.
+`;
+  }
+
+  prompt += `
+**TECHNICAL REQUIREMENTS:**
+- Return ONLY RAW HTML with embedded CSS (no markdown fences)
+- Use modern CSS (flexbox, grid, custom properties, filters, gradients)
+- Include hover states and transitions
+- Make it feel alive and polished
+`;
+
+  return prompt.trim();
+}
+
+// "Similar Styles" artifact: a variation on a reference design
+export function buildSimilarArtifactPrompt(originalPrompt: string, source: StyleReference, styleInstruction: string): string {
+  return `
+You are Flash UI. Create a design SIMILAR to the reference but with this variation: "${styleInstruction}".
+
+REFERENCE DESIGN (match the overall aesthetic and quality):
+\`\`\`html
+${source.html}
+\`\`\`
+
+ORIGINAL PROMPT: "${originalPrompt}"
+
+Create a new design that:
+1. Maintains the same visual language (colors, typography, textures)
+2. Applies the variation "${styleInstruction}"
+3. May have a different layout but keeps the same component type
+4. Matches or exceeds the quality of the reference
+
+Return ONLY RAW HTML. No markdown fences.
+  `.trim();
+}
+
+// "Blend" artifact: a hybrid of two to four designs at the given weights, with some dimensions optionally owned by one source
+export function buildBlendArtifactPrompt(originalPrompt: string, sources: StyleReference[], mix: BlendMix): string {
+  const sourceBlocks = sources.map((source, i) => `
+STYLE ${sourceLetter(i)} — ${source.styleName} (${mix.weights[i] ?? 0}% overall influence):
+\`\`\`html
+${source.html}
+\`\`\``).join('\n');
+
+  const weightList = sources.map((_, i) => `Style ${sourceLetter(i)} ${mix.weights[i] ?? 0}%`).join(', ');
+  const owned = BLEND_DIMENSIONS.filter(d => mix.dimensions?.[d.id] !== undefined && sources[mix.dimensions[d.id]!]);
+  const dimensionRules = owned
+    .map(d => `- ${d.label} (${d.covers}): take from Style ${sourceLetter(mix.dimensions![d.id]!)} only`)
+    .join('\n');
+
+  return `
+You are Flash UI. Blend ${sources.length} design styles into a cohesive hybrid.
+${sourceBlocks}
+
+ORIGINAL PROMPT: "${originalPrompt}"
+
+Create a hybrid design that:
+1. Mixes the visual language in these proportions: ${weightList}
+2. ${owned.length > 0 ? `Follows these per-dimension rules, which override the proportions for their dimension:\n${dimensionRules}` : 'Applies the proportions to colors, typography, layout and surface treatment alike'}
+3. Harmoniously blends the aesthetics instead of placing them side by side
+4. Creates something new that honors every source
+
+Return ONLY RAW HTML. No markdown fences.
+  `.trim();
+}
+
+// Remix artifact: same locked style, a different layout approach
+export function buildRemixArtifactPrompt(userPrompt: string, styleReference: StyleReference, layoutName: string): string {
+  return `
+You are Flash UI. Rebuild this UI component with a NEW LAYOUT while keeping its visual style exactly: "${userPrompt}".
+
+**LAYOUT APPROACH: ${layoutName}**
+
+STYLE REFERENCE (${styleReference.styleName}) - keep colors, typography, textures and effects identical:
+\`\`\`html
+${styleReference.html}
+\`\`\`
+${styleNotes(styleReference)}
+Create a design that:
+1. Uses the SAME visual style as the reference (colors, fonts, textures, effects)
+2. Restructures the layout around the "${layoutName}" approach
+3. Keeps the same component purpose and realistic content
+4. Includes hover states and transitions
+
+Return ONLY RAW HTML with embedded CSS. No markdown fences.
+  `.trim();
+}
+
+function avoidClause(avoidStyleNames: string[]): string {
+  return avoidStyleNames.length > 0
+    ? `\nEach must be clearly different from these existing styles: ${avoidStyleNames.map(n => `"${n}"`).join(', ')}.\n`
+    : '';
+}
+
+// Wide explorations drift toward near-duplicates, so large sets get an explicit push apart
+function spreadClause(count: number): string {
+  if (count === 1) return '\nReturn the single strongest direction for this brief.\n';
+  return count > 6
+    ? `\nWith ${count} names, spread them across clearly different materials, eras, palettes and densities; no two should read as siblings.\n`
+    : '';
+}
+
+const STYLE_NAME_EXAMPLES = ['Molten Glass Cascade', 'Pressed Botanical Archive', 'Neon Noir Circuit', 'Chalk Dust Classroom', 'Liquid Mercury Pool'];
+
+// Creative style themes for a fresh session, using physical/material metaphors
+export function buildFreshStyleNamesPrompt(userPrompt: string, count: number, avoidStyleNames: string[] = [], hasReferenceImage = false): string {
+  return `
+Generate ${count} RADICAL CONCEPTUAL STYLE THEMES for a UI component: "${userPrompt}".
+${hasReferenceImage ? 'The attached image shows the UI to restyle; each theme should be a distinct visual interpretation of it.\n' : ''}
+**STRICT IP SAFEGUARD:**
+No names of artists, brands, or copyrighted works.
+Instead, describe the *Physicality* and *Material Logic* of the UI.
+
+**CREATIVE GUIDANCE (Use these as EXAMPLES of how to describe style, but INVENT YOUR OWN):**
+1. "Asymmetrical Primary Grid" (Heavy black strokes, rectilinear structure, flat primary pigments, high-contrast white space)
+2. "Suspended Kinetic Mobile" (Delicate wire-thin connections, floating organic primary shapes, slow-motion balance, white-void background)
+3. "Grainy Risograph Press" (Overprinted translucent inks, dithered grain textures, monochromatic color depth, raw paper substrate)
+4. "Volumetric Spectral Fluid" (Generative morphing gradients, soft-focus diffusion, bioluminescent light sources, spectral chromatic aberration)
+5. "Weathered Industrial Patina" (Oxidized metal textures, exposed rivets, distressed typography, warm amber undertones)
+6. "Crystalline Frost Formation" (Ice-like transparency, sharp geometric facets, cool blue-white palette, frosted glass effects)
+7. "Handmade Paper Collage" (Torn edges, layered translucent papers, visible fibers, muted earth tones, imperfect alignment)
+
+**YOUR TASK:**
+Invent ${count} unique design personas based on NEW physical metaphors. Each should evoke a distinct material, texture, or physical phenomenon.
+${spreadClause(count)}${avoidClause(avoidStyleNames)}
+Return ONLY a raw JSON array of ${count} strings - just the creative style names.
+Example: ${JSON.stringify(STYLE_NAME_EXAMPLES.slice(0, Math.min(count, STYLE_NAME_EXAMPLES.length)))}
+  `.trim();
+}
+
+// Variations on a reference design's visual style for "Similar Styles"
+export function buildSimilarStyleNamesPrompt(source: StyleReference, count: number, avoidStyleNames: string[] = []): string {
+  return `
+Analyze this HTML design and generate ${count} creative variations of its visual style.
+
+SOURCE DESIGN:
+\`\`\`html
+${source.html}
+\`\`\`
+
+Generate ${count} distinct style names that are similar in spirit but with interesting variations.
+Each should evoke a slightly different mood or material quality while maintaining the core aesthetic.
+${spreadClause(count)}${avoidClause(avoidStyleNames)}
+Return ONLY a raw JSON array of ${count} creative style names.
+  `.trim();
+}
+
+// Layout approaches for remixing a locked style
+export function buildRemixLayoutNamesPrompt(userPrompt: string, count: number, avoidStyleNames: string[] = []): string {
+  return `
+Generate ${count} distinct LAYOUT APPROACHES for a UI component: "${userPrompt}".
+
+Focus on structure, not visual style: grid systems, information hierarchy, navigation placement, density and flow.
+Examples: "Bento Grid Overview", "Split Hero Rail", "Stacked Card Feed", "Sidebar Command Center", "Centered Focus Column".
+${spreadClause(count)}${avoidClause(avoidStyleNames)}
+Return ONLY a raw JSON array of ${count} short layout names.
+  `.trim();
+}
+
+// Optional model pass over the deterministic React export
+export function buildReactCleanupPrompt(componentTsx: string, warnings: string[]): string {
+  return `
+You are a senior React + TypeScript engineer. Clean up this component, which was converted mechanically from HTML.
+
+\`\`\`tsx
+${componentTsx}
+\`\`\`
+${warnings.length > 0 ? `
+Known issues with the conversion:
+${warnings.map(w => `- ${w}`).join('\n')}
+` : ''}
+Requirements:
+1. Keep the default export name, the props interface and every prop's default value
+2. Keep the style import or css block exactly as it is; do not change class names
+3. Replace imperative DOM scripting and inline handler code with React state, refs and handlers
+4. Break up repeated markup with .map() over arrays where it is clearly a list
+5. Preserve the rendered output and behaviour
+
+Return ONLY the complete .tsx file. No markdown fences, no explanation.
+  `.trim();
+}
+
+// Targeted repair pass for the issues found by the accessibility audit
+export function buildAccessibilityFixPrompt(html: string, issues: A11yIssue[]): string {
+  return `
+You are an accessibility specialist. Fix the accessibility issues in this UI component without changing its visual design.
+
+\`\`\`html
+${html}
+\`\`\`
+
+Issues found by an automated audit:
+${issues.map(issue => `- [${issue.rule}] ${issue.message} (${issue.element})`).join('\n')}
+
+Requirements:
+1. Fix every listed issue (contrast: adjust colors minimally, staying within the existing palette's hues)
+2. Keep the layout, class names, content and overall look the same
+3. Use native elements (button, a, label) before reaching for ARIA
+4. Do not introduce new accessibility problems
+
+Return ONLY the complete fixed HTML with embedded CSS. No markdown fences.
+  `.trim();
+}
+
+// Reprompt with the viewport widths where the layout overflowed horizontally
+export function buildResponsiveFixPrompt(html: string, reports: OverflowReport[]): string {
+  return `
+You are a senior front-end engineer. Make this UI component fully responsive without changing its visual style.
+
+\`\`\`html
+${html}
+\`\`\`
+
+The layout breaks (scrolls horizontally) at these viewport widths:
+${reports.map(r => `- ${r.width}px: ${r.overflowPx}px of horizontal overflow${r.offenders.length > 0 ? `, caused by ${r.offenders.join('; ')}` : ''}`).join('\n')}
+
+Requirements:
+1. No horizontal scrolling at any width from 320px upwards
+2. Use fluid widths, flex-wrap, grid auto-fit/minmax, clamp() and media queries where needed
+3. Let images and media scale down (max-width: 100%) and allow long text to wrap
+4. Keep colors, typography, content and class names the same at desktop widths
+
+Return ONLY the complete fixed HTML with embedded CSS. No markdown fences.
+  `.trim();
+}
+
+// Earlier turns beyond this are dropped from the prompt; the current html already reflects them
+const MAX_REFINEMENT_TURNS = 12;
+
+// The model opens its reply with this comment so the chat can show what changed
+export const CHANGE_SUMMARY_MARKER = 'CHANGES:';
+
+// One chat turn on a focused artifact: the current html, the conversation so far and the new request
+export function buildRefinementPrompt(html: string, conversation: RefinementMessage[], request: string): string {
+  const history = conversation
+    .filter(m => !m.status)
+    .slice(-MAX_REFINEMENT_TURNS)
+    .map(m => `${m.role === 'user' ? 'Designer' : 'You'}: ${m.content}`)
+    .join('\n');
+
+  return `
+You are refining a UI component together with a designer, one request at a time.
+
+Current component:
+\`\`\`html
+${html}
+\`\`\`
+${history ? `
+Conversation so far (already applied to the component above):
+${history}
+` : ''}
+New request from the designer:
+${request}
+
+Requirements:
+1. Apply the new request; keep everything it doesn't mention exactly as it is
+2. Stay consistent with the earlier requests in the conversation
+3. Return the complete updated HTML with embedded CSS, not a fragment or a diff
+
+Start your reply with a single comment summarising what you changed in one short sentence,
+like <!-- ${CHANGE_SUMMARY_MARKER} Made the header sticky and warmed up the accent color -->
+followed directly by the HTML. No markdown fences, no other explanation.
+  `.trim();
+}
+
+// Page CSS beyond this is cut; the start of a stylesheet usually holds the variables and base rules
+const MAX_ELEMENT_EDIT_CSS = 12000;
+
+// Scoped edit of one element picked in inspect mode; the reply replaces just that element's markup
+export function buildElementEditPrompt(elementHtml: string, selector: string, request: string, pageCss: string): string {
+  const css = pageCss.length > MAX_ELEMENT_EDIT_CSS ? `${pageCss.slice(0, MAX_ELEMENT_EDIT_CSS)}\n/* ...truncated */` : pageCss;
+  return `
+You are editing ONE element inside a larger UI component. Only this element will be replaced; the rest of the page stays as it is.
+
+Element (${selector}):
+\`\`\`html
+${elementHtml}
+\`\`\`
+${css ? `
+The page's existing CSS, for reference (do not repeat it):
+\`\`\`css
+${css}
+\`\`\`
+` : ''}
+Change requested:
+${request}
+
+Requirements:
+1. Return the complete replacement markup for this element only, starting with its opening tag
+2. Keep its tag, id and existing classes unless the change requires otherwise, so page styles and scripts still apply
+3. Prefer the page's existing classes and CSS variables; for new styling use inline styles or a small
+   <style> block inside the element, with selectors scoped to a new class so nothing else on the page changes
+4. Leave everything the request doesn't mention untouched
+
+Return ONLY the replacement HTML. No markdown fences, no explanation.
+  `.trim();
+}
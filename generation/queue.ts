@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getModelById, ModelProvider } from '../models';
+import type { GenerationEvent, GenerationHandle, GenerationJob, QueuedJob } from './types';
+import { startGenerationJob } from './engine';
+
+// Jobs allowed to run at once per provider; each job already streams all of its slots in parallel
+export const PROVIDER_CONCURRENCY: Record<ModelProvider, number> = {
+  gemini: 3,
+  claude: 2,
+  openai: 2,
+  // Self-hosted servers usually have one GPU; parallel jobs just queue up there instead
+  local: 1,
+  mock: 4
+};
+
+// Finished jobs kept around for the tray before the oldest are dropped
+const MAX_FINISHED_JOBS = 20;
+
+export interface JobQueue {
+  /** Queues a job; resolves once it has finished, failed or been cancelled */
+  enqueue: (job: GenerationJob, label: string, onEvent: (event: GenerationEvent) => void) => Promise<void>;
+  cancelJob: (jobId: string) => void;
+  cancelSession: (sessionId: string) => void;
+  /** Cancels one slot wherever it is, dropping it from its job if that hasn't started yet */
+  cancelArtifact: (artifactId: string) => void;
+  clearFinished: () => void;
+  getJob: (jobId: string) => GenerationJob | undefined;
+}
+
+interface QueueEntry {
+  job: GenerationJob;
+  info: QueuedJob;
+  onEvent: (event: GenerationEvent) => void;
+  resolve: () => void;
+  handle?: GenerationHandle;
+}
+
+const isFinished = (info: QueuedJob) => info.status !== 'queued' && info.status !== 'running';
+
+/**
+ * Runs generation jobs in order of arrival, holding back jobs whose provider is at its cap.
+ * `onChange` receives a fresh snapshot of every tracked job after each change.
+ */
+export function createJobQueue(onChange: (jobs: QueuedJob[]) => void, limits: Record<ModelProvider, number> = PROVIDER_CONCURRENCY): JobQueue {
+  let entries: QueueEntry[] = [];
+
+  const notify = () => onChange(entries.map(entry => entry.info));
+
+  const update = (entry: QueueEntry, patch: Partial<QueuedJob>) => {
+    entry.info = { ...entry.info, ...patch };
+  };
+
+  const prune = () => {
+    const finished = entries.filter(entry => isFinished(entry.info));
+    const excess = finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS));
+    if (excess.length > 0) entries = entries.filter(entry => !excess.includes(entry));
+  };
+
+  const finish = (entry: QueueEntry, patch: Partial<QueuedJob>) => {
+    update(entry, { ...patch, retry: undefined, finishedAt: Date.now() });
+    entry.handle = undefined;
+    prune();
+    notify();
+    entry.resolve();
+    pump();
+  };
+
+  const start = (entry: QueueEntry) => {
+    update(entry, { status: 'running', startedAt: Date.now() });
+    let errored = 0;
+    let completed = 0;
+
+    entry.handle = startGenerationJob(entry.job, event => {
+      switch (event.type) {
+        case 'retry':
+          update(entry, { retry: { attempt: event.attempt, delayMs: event.delayMs } });
+          notify();
+          break;
+        case 'complete':
+          completed++;
+          update(entry, { completedSlots: completed, retry: undefined });
+          notify();
+          break;
+        case 'error':
+          errored++;
+          update(entry, { failedArtifactIds: [...entry.info.failedArtifactIds, event.artifactId], error: event.message });
+          notify();
+          break;
+      }
+      entry.onEvent(event);
+    });
+
+    entry.handle.done
+      .catch(e => console.error('Generation job crashed:', e))
+      .then(() => finish(entry, { status: errored > 0 ? 'failed' : completed > 0 ? 'done' : 'cancelled' }));
+  };
+
+  // Starts every queued job whose provider has room, oldest first
+  const pump = () => {
+    for (const entry of entries) {
+      if (entry.info.status !== 'queued') continue;
+      const { provider } = entry.info;
+      const running = entries.filter(e => e.info.status === 'running' && e.info.provider === provider).length;
+      if (running < (limits[provider] ?? 1)) start(entry);
+    }
+    notify();
+  };
+
+  // Queued slots never streamed, so they go straight to cancelled
+  const dropQueuedSlots = (entry: QueueEntry, artifactIds: string[]) => {
+    const dropped = entry.job.slots.filter(slot => artifactIds.includes(slot.artifactId));
+    dropped.forEach(slot => {
+      entry.onEvent({ type: 'style', artifactId: slot.artifactId, styleName: slot.styleName ?? 'Cancelled' });
+      entry.onEvent({ type: 'cancelled', artifactId: slot.artifactId, html: '' });
+    });
+    entry.job = { ...entry.job, slots: entry.job.slots.filter(slot => !dropped.includes(slot)) };
+    if (entry.job.slots.length === 0) {
+      finish(entry, { status: 'cancelled', slotCount: 0 });
+    } else {
+      update(entry, { slotCount: entry.job.slots.length });
+      notify();
+    }
+  };
+
+  const cancelEntry = (entry: QueueEntry) => {
+    if (entry.info.status === 'running') entry.handle?.cancel();
+    else if (entry.info.status === 'queued') dropQueuedSlots(entry, entry.job.slots.map(slot => slot.artifactId));
+  };
+
+  return {
+    enqueue: (job, label, onEvent) => new Promise<void>(resolve => {
+      const model = getModelById(job.modelId);
+      entries.push({
+        job,
+        onEvent,
+        resolve,
+        info: {
+          id: job.id,
+          sessionId: job.sessionId,
+          label,
+          modelId: job.modelId,
+          provider: model?.provider ?? 'gemini',
+          status: 'queued',
+          slotCount: job.slots.length,
+          completedSlots: 0,
+          failedArtifactIds: [],
+          enqueuedAt: Date.now()
+        }
+      });
+      pump();
+    }),
+    cancelJob: (jobId) => {
+      const entry = entries.find(e => e.info.id === jobId);
+      if (entry) cancelEntry(entry);
+    },
+    cancelSession: (sessionId) => {
+      entries.filter(e => e.info.sessionId === sessionId).forEach(cancelEntry);
+    },
+    cancelArtifact: (artifactId) => {
+      entries
+        .filter(e => !isFinished(e.info) && e.job.slots.some(slot => slot.artifactId === artifactId))
+        .forEach(entry => {
+          if (entry.info.status === 'running') entry.handle?.cancel(artifactId);
+          else dropQueuedSlots(entry, [artifactId]);
+        });
+    },
+    clearFinished: () => {
+      entries = entries.filter(entry => !isFinished(entry.info));
+      notify();
+    },
+    getJob: (jobId) => entries.find(entry => entry.info.id === jobId)?.job
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { generateContent, isAbortError } from '../utils';
+import type { GenerationRecipe, ImagePart } from '../types';
+import type { GenerationSlot, GenerationStrategyKind, ResolvedSlot, StyleNameContext } from './types';
+import { parseJsonArray, withRetry } from './pipeline';
+import { describeBlendMix, normalizeWeights, randomBlendMix } from './blend';
+import {
+  buildFreshArtifactPrompt,
+  buildSimilarArtifactPrompt,
+  buildBlendArtifactPrompt,
+  buildRemixArtifactPrompt,
+  buildFreshStyleNamesPrompt,
+  buildSimilarStyleNamesPrompt,
+  buildRemixLayoutNamesPrompt
+} from './prompts';
+
+type RecipeOf<K extends GenerationStrategyKind> = Extract<GenerationRecipe, { kind: K }>;
+
+export interface GenerationStrategy<R extends GenerationRecipe = GenerationRecipe> {
+  /** Label stored as the session prompt */
+  sessionPrompt: (recipe: R) => string;
+  /** Style name shown while a slot waits for its real one */
+  placeholderName: string;
+  /** Names (and blend mixes) for slots that don't have a fixed style */
+  resolveSlots: (recipe: R, slots: GenerationSlot[], context: StyleNameContext) => Promise<ResolvedSlot[]>;
+  artifactPrompt: (recipe: R, slot: ResolvedSlot) => string;
+  /** Reference images sent with both the style-name and artifact requests */
+  images?: (recipe: R) => ImagePart[] | undefined;
+}
+
+const FRESH_FALLBACK_STYLES = [
+  'Molten Glass Cascade',
+  'Pressed Botanical Archive',
+  'Neon Noir Circuit',
+  'Weathered Industrial Patina',
+  'Crystalline Frost Formation',
+  'Handmade Paper Collage',
+  'Grainy Risograph Press',
+  'Chalk Dust Classroom',
+  'Liquid Mercury Pool',
+  'Sunbleached Terracotta Court',
+  'Velvet Theatre Curtain'
+];
+
+const REMIX_FALLBACK_LAYOUTS = [
+  'Bento Grid Overview',
+  'Split Hero Rail',
+  'Stacked Card Feed',
+  'Sidebar Command Center',
+  'Centered Focus Column',
+  'Magazine Spread',
+  'Tabbed Workspace',
+  'Masonry Wall',
+  'Timeline Scroll',
+  'Kanban Columns',
+  'Floating Panel Canvas',
+  'Wizard Steps'
+];
+
+// Asks the model for style names; throws on request failure, falls back when the reply is unusable
+async function fetchStyleNames(prompt: string, count: number, fallbacks: string[], context: StyleNameContext): Promise<string[]> {
+  let styleResponse;
+  try {
+    styleResponse = await withRetry(
+      () => generateContent(prompt, context.modelId, context.signal, context.images),
+      { signal: context.signal, onRetry: context.onRetry }
+    );
+  } catch (e: any) {
+    if (isAbortError(e)) throw e;
+    console.error('Error generating style themes:', e);
+    throw new Error(`Failed to generate style themes: ${e.message || 'Unknown error'}`);
+  }
+  if (styleResponse.usage) context.onUsage?.(styleResponse.usage);
+
+  const names = (parseJsonArray(styleResponse.text || '[]') ?? [])
+    .map(name => String(name).trim())
+    .filter(Boolean);
+
+  if (names.length < count) {
+    console.warn('Failed to parse style themes, using fallbacks');
+    const padded = fallbacks.slice(0, count);
+    while (padded.length < count) padded.push(`Variation ${padded.length + 1}`);
+    return padded;
+  }
+  return names.slice(0, count);
+}
+
+// Keeps fixed slot names and fills the rest in order from `names`
+function fillSlots(slots: GenerationSlot[], names: string[]): ResolvedSlot[] {
+  let next = 0;
+  return slots.map(slot => ({ styleName: slot.styleName ?? names[next++] }));
+}
+
+const freshStrategy: GenerationStrategy<RecipeOf<'fresh'>> = {
+  sessionPrompt: recipe => recipe.prompt,
+  placeholderName: 'Designing...',
+  resolveSlots: async (recipe, slots, context) => {
+    const missing = slots.filter(s => !s.styleName).length;
+    if (missing === 0) return fillSlots(slots, []);
+    const fallbacks = FRESH_FALLBACK_STYLES.filter(n => !context.avoidStyleNames.includes(n));
+    const hasImages = !!recipe.images?.length;
+    const names = await fetchStyleNames(buildFreshStyleNamesPrompt(recipe.prompt, missing, context.avoidStyleNames, hasImages), missing, fallbacks, context);
+    return fillSlots(slots, names);
+  },
+  artifactPrompt: (recipe, slot) => buildFreshArtifactPrompt(recipe.prompt, slot.styleName, recipe.styleReference, !!recipe.images?.length),
+  images: recipe => recipe.images
+};
+
+const similarStrategy: GenerationStrategy<RecipeOf<'similar'>> = {
+  sessionPrompt: recipe => `Similar to: ${recipe.prompt}`,
+  placeholderName: 'Designing...',
+  resolveSlots: async (recipe, slots, context) => {
+    const missing = slots.filter(s => !s.styleName).length;
+    if (missing === 0) return fillSlots(slots, []);
+    const base = recipe.source.styleName;
+    const fallbacks = ['Refined', 'Bold', 'Minimal', 'Warm', 'Reimagined', 'Dark', 'Airy', 'Dense', 'Playful', 'Editorial', 'Muted', 'Vivid']
+      .map(variant => `${base} - ${variant}`)
+      .filter(n => !context.avoidStyleNames.includes(n));
+    const names = await fetchStyleNames(buildSimilarStyleNamesPrompt(recipe.source, missing, context.avoidStyleNames), missing, fallbacks, context);
+    return fillSlots(slots, names);
+  },
+  artifactPrompt: (recipe, slot) => buildSimilarArtifactPrompt(recipe.prompt, recipe.source, slot.styleName)
+};
+
+const blendStrategy: GenerationStrategy<RecipeOf<'blend'>> = {
+  sessionPrompt: recipe => `Blend: ${recipe.sources.map(s => s.styleName).join(' + ')}`,
+  placeholderName: 'Blending...',
+  resolveSlots: async (recipe, slots, context) => {
+    // Replacing a slot means a new mix rather than the same one again
+    const replacing = context.avoidStyleNames.length > 0;
+    return slots.map(slot => {
+      const requested = recipe.mixes[slot.index];
+      if (slot.styleName && requested) {
+        return { styleName: slot.styleName, mix: requested };
+      }
+      const mix = replacing || !requested ? randomBlendMix(recipe.sources.length) : requested;
+      return { styleName: slot.styleName ?? describeBlendMix(recipe.sources, mix), mix };
+    });
+  },
+  artifactPrompt: (recipe, slot) => buildBlendArtifactPrompt(
+    recipe.prompt,
+    recipe.sources,
+    slot.mix ?? { weights: normalizeWeights(recipe.sources.map(() => 1)) }
+  )
+};
+
+const remixStrategy: GenerationStrategy<RecipeOf<'remix'>> = {
+  sessionPrompt: recipe => `Remix: ${recipe.prompt}`,
+  placeholderName: 'Designing...',
+  resolveSlots: async (recipe, slots, context) => {
+    const missing = slots.filter(s => !s.styleName).length;
+    if (missing === 0) return fillSlots(slots, []);
+    const fallbacks = REMIX_FALLBACK_LAYOUTS.filter(n => !context.avoidStyleNames.includes(n));
+    const names = await fetchStyleNames(buildRemixLayoutNamesPrompt(recipe.prompt, missing, context.avoidStyleNames), missing, fallbacks, context);
+    return fillSlots(slots, names);
+  },
+  artifactPrompt: (recipe, slot) => buildRemixArtifactPrompt(recipe.prompt, recipe.styleReference, slot.styleName)
+};
+
+const STRATEGIES: { [K in GenerationStrategyKind]: GenerationStrategy<RecipeOf<K>> } = {
+  fresh: freshStrategy,
+  similar: similarStrategy,
+  blend: blendStrategy,
+  remix: remixStrategy
+};
+
+export function getStrategy<R extends GenerationRecipe>(recipe: R): GenerationStrategy<R> {
+  return STRATEGIES[recipe.kind] as unknown as GenerationStrategy<R>;
+}
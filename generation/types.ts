@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BlendMix, GenerationRecipe, ImagePart, TokenUsage } from '../types';
+import type { ModelProvider } from '../models';
+import type { RetryInfo } from './pipeline';
+
+export type GenerationStrategyKind = GenerationRecipe['kind'];
+
+export interface GenerationSlot {
+  artifactId: string;
+  /** Position within the session; blend slots use it to pick their ratio */
+  index: number;
+  /** Fixed style for this slot; slots without one are named by the strategy */
+  styleName?: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  sessionId: string;
+  recipe: GenerationRecipe;
+  modelId: string;
+  slots: GenerationSlot[];
+  /** Names already on screen; set when replacing a single slot so the new style differs */
+  avoidStyleNames?: string[];
+}
+
+export type GenerationEvent =
+  | { type: 'style'; artifactId: string; styleName: string; mix?: BlendMix }
+  | { type: 'chunk'; artifactId: string; html: string }
+  | { type: 'complete'; artifactId: string; html: string }
+  | { type: 'error'; artifactId: string; html: string; message: string }
+  | { type: 'cancelled'; artifactId: string; html: string }
+  /** A rate-limited or timed-out request is being retried; no artifact id while naming styles */
+  | { type: 'retry'; artifactId?: string; attempt: number; delayMs: number; message: string }
+  /** Tokens reported for one model call; no artifact id for the style naming call */
+  | { type: 'usage'; artifactId?: string; usage: TokenUsage };
+
+export interface GenerationHandle {
+  jobId: string;
+  sessionId: string;
+  /** Cancels one slot, or the whole job when no artifact id is given */
+  cancel: (artifactId?: string) => void;
+  done: Promise<void>;
+}
+
+export interface ResolvedSlot {
+  styleName: string;
+  mix?: BlendMix;
+}
+
+export interface StyleNameContext {
+  modelId: string;
+  signal: AbortSignal;
+  avoidStyleNames: string[];
+  images?: ImagePart[];
+  onRetry?: (info: RetryInfo) => void;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export type BatchRowStatus = 'queued' | 'running' | 'complete' | 'partial' | 'error' | 'cancelled';
+
+// One brief from a pasted list or CSV
+export interface BatchRow {
+  id: string;
+  /** Line (or CSV record) number the brief came from, for pointing at problems */
+  line: number;
+  prompt: string;
+  presetId?: string;
+  modelId?: string;
+  /** Why the row can't run, e.g. an unknown preset or model; such rows are skipped */
+  problem?: string;
+  status: BatchRowStatus;
+  sessionId?: string;
+}
+
+export interface BatchRun {
+  id: string;
+  rows: BatchRow[];
+  concurrency: number;
+  startedAt: number;
+  finishedAt?: number;
+  /** Set once the results have been saved to a collection */
+  collectionId?: string;
+}
+
+export type QueuedJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// A generation job as tracked by the queue, for the job tray
+export interface QueuedJob {
+  id: string;
+  sessionId: string;
+  label: string;
+  modelId: string;
+  provider: ModelProvider;
+  status: QueuedJobStatus;
+  /** Slots still part of the job; cancelling a queued slot removes it */
+  slotCount: number;
+  completedSlots: number;
+  /** Artifact ids of slots that ended in an error, for retrying just those */
+  failedArtifactIds: string[];
+  enqueuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  /** Latest backoff while a rate-limited request waits to be retried */
+  retry?: { attempt: number; delayMs: number };
+}
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Image parts for multimodal prompts: limits shared by the browser and the API handlers,
+// client-side file reading, server-side validation and each provider's content shape.
+import type { ImagePart, ImageMimeType } from './types';
+
+export const ALLOWED_IMAGE_TYPES: ImageMimeType[] = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+export const MAX_IMAGES = 3;
+// Decoded bytes across all attached images. Base64 adds a third on top (about 4 MB here),
+// which has to fit Vercel's 4.5 MB request body cap and the dev server's 5 MB JSON limit
+export const MAX_TOTAL_IMAGE_BYTES = 3 * 1024 * 1024;
+// Larger sides are downscaled before upload; providers resize to about this anyway
+const MAX_IMAGE_DIMENSION = 1568;
+// Successively smaller re-encodes tried until an image fits what's left of the budget
+const DOWNSCALE_STEPS = [
+  { scale: 1, quality: 0.85 },
+  { scale: 1, quality: 0.7 },
+  { scale: 0.75, quality: 0.7 },
+  { scale: 0.5, quality: 0.7 },
+  { scale: 0.35, quality: 0.6 }
+];
+
+// Leading bytes of each allowed format, so a renamed file can't pass as another type
+const SIGNATURES: Record<ImageMimeType, (bytes: string) => boolean> = {
+  'image/png': b => b.startsWith('\x89PNG\r\n\x1a\n'),
+  'image/jpeg': b => b.startsWith('\xff\xd8\xff'),
+  'image/gif': b => b.startsWith('GIF87a') || b.startsWith('GIF89a'),
+  'image/webp': b => b.startsWith('RIFF') && b.slice(8, 12) === 'WEBP'
+};
+
+export class ImageValidationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ImageValidationError';
+  }
+}
+
+function decodedSize(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+/** Decoded size of the given parts, counted against MAX_TOTAL_IMAGE_BYTES */
+export function totalImageBytes(images: ImagePart[]): number {
+  return images.reduce((sum, image) => sum + decodedSize(image.data), 0);
+}
+
+/**
+ * Checks the `images` field of an API request body. Returns an empty list when absent,
+ * throws ImageValidationError (with the HTTP status to answer) when anything is off.
+ */
+export function validateImageParts(images: unknown): ImagePart[] {
+  if (images === undefined || images === null) return [];
+  if (!Array.isArray(images)) throw new ImageValidationError('"images" must be an array');
+  if (images.length > MAX_IMAGES) throw new ImageValidationError(`At most ${MAX_IMAGES} images can be attached`);
+
+  const parts = images.map((image, i) => {
+    const { mimeType, data } = (image ?? {}) as Partial<ImagePart>;
+    if (typeof mimeType !== 'string' || !ALLOWED_IMAGE_TYPES.includes(mimeType as ImageMimeType)) {
+      throw new ImageValidationError(`Image ${i + 1}: unsupported type "${mimeType}". Use PNG, JPEG, WebP or GIF.`, 415);
+    }
+    if (typeof data !== 'string' || !data || !/^[A-Za-z0-9+/]+={0,2}$/.test(data)) {
+      throw new ImageValidationError(`Image ${i + 1}: data must be base64 without a data: prefix`);
+    }
+    if (!SIGNATURES[mimeType as ImageMimeType](atob(data.slice(0, 16)))) {
+      throw new ImageValidationError(`Image ${i + 1}: contents don't match the declared ${mimeType} type`, 415);
+    }
+    return { mimeType: mimeType as ImageMimeType, data };
+  });
+
+  if (totalImageBytes(parts) > MAX_TOTAL_IMAGE_BYTES) {
+    throw new ImageValidationError(`Attached images add up to more than ${MAX_TOTAL_IMAGE_BYTES / 1024 / 1024} MB`, 413);
+  }
+  return parts;
+}
+
+// --- Provider content ---
+
+export function toGeminiParts(prompt: string, images: ImagePart[]) {
+  return [
+    ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+    { text: prompt }
+  ];
+}
+
+// Claude recommends images before the text that refers to them
+export function toClaudeContent(prompt: string, images: ImagePart[]) {
+  if (images.length === 0) return prompt;
+  return [
+    ...images.map(image => ({
+      type: 'image' as const,
+      source: { type: 'base64' as const, media_type: image.mimeType, data: image.data }
+    })),
+    { type: 'text' as const, text: prompt }
+  ];
+}
+
+export function toOpenAIContent(prompt: string, images: ImagePart[]) {
+  if (images.length === 0) return prompt;
+  return [
+    { type: 'text' as const, text: prompt },
+    ...images.map(image => ({
+      type: 'image_url' as const,
+      image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+    }))
+  ];
+}
+
+// --- Browser helpers ---
+
+function readAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Turns a picked or pasted file into an image part, downscaling (to JPEG) until it fits
+ * in maxBytes, the share of the image budget still free. Rejects with a user-facing
+ * message for unsupported files or ones that can't be made small enough.
+ */
+export async function readImageFile(file: File, maxBytes: number = MAX_TOTAL_IMAGE_BYTES): Promise<ImagePart> {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type as ImageMimeType)) {
+    throw new ImageValidationError(`${file.name || 'This file'} is not a PNG, JPEG, WebP or GIF image`);
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const baseScale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  // GIFs are re-encoded too, so only their first frame is sent when they're oversized
+  if (baseScale === 1 && file.size <= maxBytes) {
+    bitmap.close();
+    return { mimeType: file.type as ImageMimeType, data: await readAsBase64(file) };
+  }
+
+  const canvas = document.createElement('canvas');
+  try {
+    for (const step of DOWNSCALE_STEPS) {
+      canvas.width = Math.max(1, Math.round(bitmap.width * baseScale * step.scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * baseScale * step.scale));
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', step.quality));
+      if (blob && blob.size <= maxBytes) {
+        return { mimeType: 'image/jpeg', data: await readAsBase64(blob) };
+      }
+    }
+  } finally {
+    bitmap.close();
+  }
+  throw new ImageValidationError(`${file.name || 'This image'} is too large to attach alongside the other images`, 413);
+}
+
+export function imagePartToDataUrl(image: ImagePart): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
@@ -5,13 +5,26 @@
 
 //Vibe coded by ammaar@google.com
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
 
-import { Artifact, Session, ComponentVariation, LayoutOption, SavedComponent, Collection } from './types';
+import { Artifact, Session, ComponentVariation, LayoutOption, SavedComponent, Collection, GenerationRecipe, StyleReference, StylePreset, ImagePart, RefinementMessage, CompareTarget, Comparison, BlendMix, TokenUsage, UsageFlow, UsageRecord } from './types';
 import { INITIAL_PLACEHOLDERS } from './constants';
-import { DEFAULT_MODEL, getModelById, AVAILABLE_MODELS } from './models';
-import { generateId, generateContent, streamGenerateContent, streamVariations, getSavedComponents, saveComponent, removeComponent, getCollections, saveCollection, deleteCollection } from './utils';
+import { DEFAULT_MODEL, getModelById, AVAILABLE_MODELS, AIModel } from './models';
+import { generateId, generateContent, streamVariations, isAbortError, fetchModels, StreamChunk } from './utils';
+import { loadSessions, saveSessions, getSavedComponents, saveComponent, getCollections, saveCollection, deleteCollection, getStylePresets, saveStylePreset, deleteStylePreset, getComparisons, saveComparison, getUsageRecords, saveUsageRecord } from './storage';
+import { clampArtifactCount, createGenerationSession, createRegenerationJob, createRetryJob, DEFAULT_ARTIFACT_COUNT, getPlaceholderName } from './generation/engine';
+import { createJobQueue } from './generation/queue';
+import { MAX_BLEND_SOURCES } from './generation/blend';
+import type { BatchRow, BatchRun, GenerationEvent, GenerationJob, QueuedJob } from './generation/types';
+import { runWithConcurrency, summarizeBatchRow } from './generation/batch';
+import { buildAccessibilityFixPrompt, buildElementEditPrompt, buildRefinementPrompt, buildResponsiveFixPrompt, styleNotes } from './generation/prompts';
+import { splitChangeSummary, streamArtifactHtml } from './generation/pipeline';
+import { MAX_IMAGES, MAX_TOTAL_IMAGE_BYTES, imagePartToDataUrl, readImageFile, totalImageBytes } from './images';
+import { appendArtifactVersion, getArtifactVersions, getCurrentVersion, revertArtifactToVersion } from './versions';
+import type { A11yIssue } from './audit/accessibility';
+import type { OverflowReport } from './audit/responsive';
+import { InspectedElement, collectPageCss, spliceElementSource } from './editor/inspect';
 
 import DottedGlowBackground from './components/DottedGlowBackground';
 import ArtifactCard from './components/ArtifactCard';
@@ -22,9 +35,29 @@ import TagManager from './components/TagManager';
 import CollectionManager from './components/CollectionManager';
 import CollectionEditor from './components/CollectionEditor';
 import ModelSelector from './components/ModelSelector';
+import ExportPanel from './components/ExportPanel';
+import TokensPanel from './components/TokensPanel';
+import StylePresetPicker from './components/StylePresetPicker';
+import HistoryPanel from './components/HistoryPanel';
+import SourceEditor from './components/SourceEditor';
+import ResponsivePreview from './components/ResponsivePreview';
+import RefinePanel from './components/RefinePanel';
+import ElementInspector from './components/ElementInspector';
+import BatchPanel from './components/BatchPanel';
+import JobTray from './components/JobTray';
+import ArtifactCountPicker from './components/ArtifactCountPicker';
+import CompareView, { CompareItem } from './components/CompareView';
+import BlendPanel from './components/BlendPanel';
+import UsagePanel from './components/UsagePanel';
+import { extractDesignTokens } from './exporters/tokens';
+import { addUsage, budgetStatus, estimateCostUsd, flowForRecipe, isSameMonth } from './usage';
 import {
     ThinkingIcon,
     CodeIcon,
+    DownloadIcon,
+    PaletteIcon,
+    HistoryIcon,
+    DevicesIcon,
     SparklesIcon,
     ArrowLeftIcon,
     ArrowRightIcon,
@@ -32,37 +65,82 @@ import {
     GridIcon,
     RefreshIcon,
     StyleIcon,
-    CopyIcon,
     LibraryIcon,
     StarIcon,
     EyeOffIcon,
     BlendIcon,
     MoreLikeThisIcon,
-    CheckIcon
+    CheckIcon,
+    ImageIcon,
+    XIcon,
+    ChatIcon,
+    InspectIcon,
+    BatchIcon,
+    UsageIcon,
+    CompareIcon
 } from './components/Icons';
 
+const ACTIVE_STYLE_PRESET_KEY = 'flash-ui-active-style-preset';
+const MONTHLY_BUDGET_KEY = 'flash-ui-monthly-budget';
+
+// Up to this many designs can be compared side by side
+const MAX_COMPARE_ITEMS = 4;
+
+function compareTargetKey(target: CompareTarget): string {
+    return target.kind === 'artifact' ? `${target.sessionId}:${target.artifactId}` : `library:${target.componentId}`;
+}
+
+function presetToStyleReference(preset: StylePreset): StyleReference {
+    return { html: preset.html, styleName: preset.name, description: preset.description };
+}
+
+// Grid columns for a session: one row up to five designs, then the most even rows that fit.
+// Narrower breakpoints cap the count through the -md/-sm/-xs variables.
+function gridColumnsStyle(count: number): React.CSSProperties {
+  const columns = count <= 5 ? Math.max(count, 1) : count <= 8 ? Math.ceil(count / 2) : count === 9 ? 3 : 4;
+  return {
+    '--grid-columns': columns,
+    '--grid-columns-md': Math.min(columns, 4),
+    '--grid-columns-sm': Math.min(columns, 3),
+    '--grid-columns-xs': Math.min(columns, 2)
+  } as React.CSSProperties;
+}
+
 function App() {
   const [sessions, setSessions] = useState<Session[]>([]);
   const [currentSessionIndex, setCurrentSessionIndex] = useState<number>(-1);
   const [focusedArtifactIndex, setFocusedArtifactIndex] = useState<number | null>(null);
   
   const [inputValue, setInputValue] = useState<string>('');
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Screenshots or mockups sent with the next prompt
+  const [attachedImages, setAttachedImages] = useState<ImagePart[]>([]);
+  // Explore UX streams into the drawer; generation jobs are tracked by the queue instead
+  const [isExploringVariations, setIsExploringVariations] = useState<boolean>(false);
   const [placeholderIndex, setPlaceholderIndex] = useState(0);
   const [placeholders, setPlaceholders] = useState<string[]>(INITIAL_PLACEHOLDERS);
   
   const [drawerState, setDrawerState] = useState<{
       isOpen: boolean;
-      mode: 'code' | 'variations' | 'library' | 'tags' | 'collections' | 'collection-editor' | null;
+      mode: 'code' | 'export' | 'tokens' | 'history' | 'responsive' | 'refine' | 'inspect' | 'batch' | 'blend' | 'variations' | 'library' | 'tags' | 'collections' | 'collection-editor' | 'usage' | null;
       title: string;
       data: any; 
   }>({ isOpen: false, mode: null, title: '', data: null });
 
   // Library state
-  const [savedComponents, setSavedComponents] = useState<SavedComponent[]>(getSavedComponents());
-  const [collections, setCollections] = useState<Collection[]>(getCollections());
+  const [savedComponents, setSavedComponents] = useState<SavedComponent[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
   const [editingCollection, setEditingCollection] = useState<Collection | null>(null);
 
+  const refreshLibrary = useCallback(async () => {
+      try {
+          const [components, storedCollections] = await Promise.all([getSavedComponents(), getCollections()]);
+          setSavedComponents(components);
+          setCollections(storedCollections);
+      } catch (e) {
+          console.error('Failed to load library:', e);
+      }
+  }, []);
+
   // Model selection state - validate stored model exists in current AVAILABLE_MODELS
   const [selectedModelId, setSelectedModelId] = useState<string>(() => {
     const stored = localStorage.getItem('flash-ui-selected-model');
@@ -77,8 +155,44 @@ function App() {
     localStorage.setItem('flash-ui-selected-model', selectedModelId);
   }, [selectedModelId]);
 
+  // The selector starts with the built-in models; the server then reports which ones have keys,
+  // and adds any local ones it discovered
+  const [models, setModels] = useState<AIModel[]>(AVAILABLE_MODELS);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchModels(controller.signal)
+      .then(list => {
+        if (list.length === 0) return;
+        setModels(list);
+        // A remembered model whose key is gone, or that the server no longer lists, would only fail on the next generation
+        setSelectedModelId(current => {
+          if (list.find(m => m.id === current)?.available) return current;
+          return list.find(m => m.id === DEFAULT_MODEL && m.available)?.id ?? list.find(m => m.available)?.id ?? current;
+        });
+      })
+      .catch(e => {
+        if (!isAbortError(e)) console.error('Failed to load models:', e);
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Designs per prompt: 1 for quick single shots, up to 12 for brainstorms
+  const [artifactCount, setArtifactCount] = useState<number>(() => {
+    const stored = localStorage.getItem('flash-ui-artifact-count');
+    return stored ? clampArtifactCount(Number(stored)) : DEFAULT_ARTIFACT_COUNT;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('flash-ui-artifact-count', String(artifactCount));
+  }, [artifactCount]);
+
   const [componentVariations, setComponentVariations] = useState<ComponentVariation[]>([]);
 
+  // Source editor draft for the focused artifact; the preview copy trails it by a debounce
+  const [sourceDraft, setSourceDraft] = useState<{ sessionId: string; artifactId: string; html: string } | null>(null);
+  const [sourcePreview, setSourcePreview] = useState<string | null>(null);
+
   // Word substitution state
   const [editedPrompt, setEditedPrompt] = useState<string | null>(null);
   const [wordSuggestion, setWordSuggestion] = useState<{
@@ -88,11 +202,10 @@ function App() {
       isLoading: boolean;
   } | null>(null);
 
-  // Style DNA state
-  const [lockedStyle, setLockedStyle] = useState<{
-      html: string;
-      styleName: string;
-  } | null>(null);
+  // Style DNA state - the active lock, plus the saved presets it may have come from
+  const [lockedStyle, setLockedStyle] = useState<StyleReference | null>(null);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [activeStylePresetId, setActiveStylePresetId] = useState<string | null>(null);
 
   // Hidden artifacts state (per session)
   const [hiddenArtifacts, setHiddenArtifacts] = useState<Set<string>>(new Set());
@@ -100,13 +213,201 @@ function App() {
   // Style blend selection state
   const [blendSelection, setBlendSelection] = useState<string[]>([]);
 
+  // Compare state - picks from any session or the library, plus past verdicts for their win records
+  const [compareTargets, setCompareTargets] = useState<CompareTarget[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [compareWinnerKey, setCompareWinnerKey] = useState<string | null>(null);
+  const [comparisons, setComparisons] = useState<Comparison[]>([]);
+
+  // Every model call's token usage, plus the optional monthly budget the usage panel warns against
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [monthlyBudget, setMonthlyBudget] = useState<number | null>(() => {
+    const stored = Number(localStorage.getItem(MONTHLY_BUDGET_KEY));
+    return stored > 0 ? stored : null;
+  });
+
+  useEffect(() => {
+    if (monthlyBudget) {
+      localStorage.setItem(MONTHLY_BUDGET_KEY, String(monthlyBudget));
+    } else {
+      localStorage.removeItem(MONTHLY_BUDGET_KEY);
+    }
+  }, [monthlyBudget]);
+
   const inputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const gridScrollRef = useRef<HTMLDivElement>(null);
 
+  // Generation jobs waiting for or holding a provider slot, plus recently finished ones for the tray
+  const [queuedJobs, setQueuedJobs] = useState<QueuedJob[]>([]);
+  const [jobQueue] = useState(() => createJobQueue(setQueuedJobs));
+  // Explore UX streams into the drawer rather than a session, so it keeps its own controller
+  const variationsControllerRef = useRef<AbortController | null>(null);
+  // In-place edits of a single artifact (e.g. accessibility fixes), keyed by artifact id
+  const artifactEditControllersRef = useRef(new Map<string, AbortController>());
+
+  const handleCancelArtifact = useCallback((artifactId: string) => {
+      jobQueue.cancelArtifact(artifactId);
+      artifactEditControllersRef.current.get(artifactId)?.abort();
+  }, [jobQueue]);
+
+  const updateArtifact = useCallback((sessionId: string, artifactId: string, patch: Partial<Artifact>) => {
+      setSessions(prev => prev.map(sess =>
+          sess.id === sessionId ? {
+              ...sess,
+              artifacts: sess.artifacts.map(art =>
+                  art.id === artifactId ? { ...art, ...patch } : art
+              )
+          } : sess
+      ));
+  }, []);
+
+  // Logs one model call and adds it to the running totals of its session and artifact
+  const recordUsage = useCallback((usage: TokenUsage, context: { modelId: string; flow: UsageFlow; sessionId?: string; artifactId?: string }) => {
+      const costed: TokenUsage = { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, costUsd: estimateCostUsd(context.modelId, usage) };
+      const record: UsageRecord = { id: generateId(), timestamp: Date.now(), ...context, ...costed };
+      setUsageRecords(prev => [...prev, record]);
+      saveUsageRecord(record).catch(e => console.error('Failed to save usage:', e));
+      if (!context.sessionId) return;
+      setSessions(prev => prev.map(sess => sess.id === context.sessionId ? {
+          ...sess,
+          usage: addUsage(sess.usage, costed),
+          artifacts: context.artifactId
+              ? sess.artifacts.map(art => art.id === context.artifactId ? { ...art, usage: addUsage(art.usage, costed) } : art)
+              : sess.artifacts
+      } : sess));
+  }, []);
+
+  const applyGenerationEvent = useCallback((sessionId: string, event: GenerationEvent) => {
+      switch (event.type) {
+          case 'style':
+              setSessions(prev => prev.map(sess => {
+                  if (sess.id !== sessionId) return sess;
+                  let recipe = sess.recipe;
+                  // Remember a re-rolled blend mix so the slot regenerates with it next time
+                  const index = sess.artifacts.findIndex(a => a.id === event.artifactId);
+                  if (event.mix && recipe?.kind === 'blend' && index >= 0) {
+                      const mixes = [...recipe.mixes];
+                      mixes[index] = event.mix;
+                      recipe = { ...recipe, mixes };
+                  }
+                  return {
+                      ...sess,
+                      recipe,
+                      artifacts: sess.artifacts.map(art =>
+                          art.id === event.artifactId ? { ...art, styleName: event.styleName } : art
+                      )
+                  };
+              }));
+              break;
+          case 'chunk':
+              updateArtifact(sessionId, event.artifactId, { html: event.html });
+              break;
+          case 'complete':
+              setSessions(prev => prev.map(sess => sess.id === sessionId ? {
+                  ...sess,
+                  artifacts: sess.artifacts.map(art => art.id === event.artifactId ? {
+                      ...art,
+                      html: event.html,
+                      status: 'complete',
+                      versions: appendArtifactVersion(art, event.html, 'initial')
+                  } : art)
+              } : sess));
+              break;
+          case 'error':
+              updateArtifact(sessionId, event.artifactId, { html: event.html, status: 'error' });
+              break;
+          case 'cancelled':
+              updateArtifact(sessionId, event.artifactId, { html: event.html, status: 'cancelled' });
+              break;
+      }
+  }, [updateArtifact]);
+
+  // Queues a job and resolves once it has run; the queue holds its handle for cancelling
+  const runGenerationJob = useCallback(async (job: GenerationJob, label: string, onEvent?: (event: GenerationEvent) => void) => {
+      await jobQueue.enqueue(job, label, event => {
+          if (event.type === 'usage') {
+              recordUsage(event.usage, { modelId: job.modelId, flow: flowForRecipe(job.recipe.kind), sessionId: job.sessionId, artifactId: event.artifactId });
+          }
+          applyGenerationEvent(job.sessionId, event);
+          onEvent?.(event);
+      });
+  }, [jobQueue, applyGenerationEvent, recordUsage]);
+
   useEffect(() => {
       inputRef.current?.focus();
   }, []);
 
+  // Restore session history and library from IndexedDB
+  const persistedSessionsRef = useRef(new Map<string, Session>());
+  useEffect(() => {
+      refreshLibrary();
+      loadSessions()
+          .then(stored => {
+              if (stored.length === 0) return;
+              stored.forEach(s => persistedSessionsRef.current.set(s.id, s));
+              // Sessions started before hydration finished stay after the restored history
+              setSessions(prev => [...stored.filter(s => !prev.some(p => p.id === s.id)), ...prev]);
+              setCurrentSessionIndex(prev => prev === -1 ? stored.length - 1 : prev + stored.length);
+          })
+          .catch(e => console.error('Failed to restore sessions:', e));
+      getStylePresets()
+          .then(presets => {
+              setStylePresets(presets);
+              // Re-apply the preset that was active before the reload
+              const active = presets.find(p => p.id === localStorage.getItem(ACTIVE_STYLE_PRESET_KEY));
+              if (active) {
+                  setLockedStyle(prev => prev ?? presetToStyleReference(active));
+                  setActiveStylePresetId(prev => prev ?? active.id);
+              }
+          })
+          .catch(e => console.error('Failed to load style presets:', e));
+      getUsageRecords()
+          .then(stored => setUsageRecords(prev => [...stored, ...prev.filter(r => !stored.some(s => s.id === r.id))]))
+          .catch(e => console.error('Failed to load usage:', e));
+  }, [refreshLibrary]);
+
+  useEffect(() => {
+      if (activeStylePresetId) {
+          localStorage.setItem(ACTIVE_STYLE_PRESET_KEY, activeStylePresetId);
+      } else {
+          localStorage.removeItem(ACTIVE_STYLE_PRESET_KEY);
+      }
+  }, [activeStylePresetId]);
+
+  // Persist changed sessions, throttled so streaming chunks don't hammer IndexedDB
+  const latestSessionsRef = useRef(sessions);
+  latestSessionsRef.current = sessions;
+  const persistTimerRef = useRef<number | null>(null);
+  const flushSessions = useCallback(() => {
+      if (persistTimerRef.current !== null) {
+          window.clearTimeout(persistTimerRef.current);
+          persistTimerRef.current = null;
+      }
+      const changed = latestSessionsRef.current.filter(s => persistedSessionsRef.current.get(s.id) !== s);
+      changed.forEach(s => persistedSessionsRef.current.set(s.id, s));
+      saveSessions(changed).catch(e => console.error('Failed to persist sessions:', e));
+  }, []);
+
+  useEffect(() => {
+      if (persistTimerRef.current !== null) return;
+      persistTimerRef.current = window.setTimeout(flushSessions, 1000);
+  }, [sessions, flushSessions]);
+
+  // Write whatever the throttle is still holding when the tab is hidden, closed or reloaded
+  useEffect(() => {
+      const handleVisibilityChange = () => {
+          if (document.visibilityState === 'hidden') flushSessions();
+      };
+      window.addEventListener('pagehide', flushSessions);
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      return () => {
+          window.removeEventListener('pagehide', flushSessions);
+          document.removeEventListener('visibilitychange', handleVisibilityChange);
+          flushSessions();
+      };
+  }, [flushSessions]);
+
   // Close dropdown menus when clicking outside
   useEffect(() => {
       const handleClickOutside = (event: MouseEvent) => {
@@ -148,6 +449,7 @@ function App() {
           try {
               const prompt = 'Generate 20 creative, short, diverse UI component prompts (e.g. "bioluminescent task list"). Return ONLY a raw JSON array of strings. IP SAFEGUARD: Avoid referencing specific famous artists, movies, or brands.';
               const response = await generateContent(prompt, selectedModelId);
+              if (response.usage) recordUsage(response.usage, { modelId: selectedModelId, flow: 'placeholders' });
               const text = response.text || '[]';
               const jsonMatch = text.match(/\[[\s\S]*\]/);
               if (jsonMatch) {
@@ -176,9 +478,51 @@ function App() {
     setInputValue(event.target.value);
   };
 
-  const parseJsonStream = async function* (responseStream: AsyncGenerator<{ text: string }>) {
+  const handleAttachImages = useCallback(async (files: File[]) => {
+    const room = MAX_IMAGES - attachedImages.length;
+    if (files.length === 0) return;
+    if (room <= 0) {
+        alert(`You can attach up to ${MAX_IMAGES} images.`);
+        return;
+    }
+    const parts: ImagePart[] = [];
+    // Each file gets whatever is left of the shared budget, so the request stays under the body limit
+    let remainingBytes = MAX_TOTAL_IMAGE_BYTES - totalImageBytes(attachedImages);
+    for (const file of files.slice(0, room)) {
+        try {
+            if (remainingBytes <= 0) throw new Error(`Attached images already use the ${MAX_TOTAL_IMAGE_BYTES / 1024 / 1024} MB limit. Remove one to add another.`);
+            const part = await readImageFile(file, remainingBytes);
+            remainingBytes -= totalImageBytes([part]);
+            parts.push(part);
+        } catch (e: any) {
+            console.error('Failed to attach image:', e);
+            alert(e.message || 'Could not attach that image.');
+        }
+    }
+    setAttachedImages(prev => [...prev, ...parts].slice(0, MAX_IMAGES));
+  }, [attachedImages]);
+
+  const handleImageInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleAttachImages(Array.from(event.target.files ?? []));
+    // Let the same file be picked again after removing it
+    event.target.value = '';
+  };
+
+  const handleInputPaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.clipboardData.files).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return;
+    event.preventDefault();
+    handleAttachImages(files);
+  };
+
+  const handleRemoveImage = (index: number) => {
+    setAttachedImages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const parseJsonStream = async function* (responseStream: AsyncGenerator<StreamChunk>, onUsage?: (usage: TokenUsage) => void) {
       let buffer = '';
       for await (const chunk of responseStream) {
+          if (chunk.usage) onUsage?.(chunk.usage);
           const text = chunk.text;
           if (typeof text !== 'string') continue;
           buffer += text;
@@ -213,7 +557,7 @@ function App() {
 
   const handleGenerateVariations = useCallback(async () => {
     const currentSession = sessions[currentSessionIndex];
-    if (!currentSession || focusedArtifactIndex === null || isLoading) return;
+    if (!currentSession || focusedArtifactIndex === null || isExploringVariations) return;
     const currentArtifact = currentSession.artifacts[focusedArtifactIndex];
 
     const basePrompt = (editedPrompt ?? currentSession.prompt).trim();
@@ -237,9 +581,11 @@ function App() {
         return;
     }
 
-    setIsLoading(true);
+    setIsExploringVariations(true);
     setComponentVariations([]);
     setDrawerState({ isOpen: true, mode: 'variations', title: 'Explore UX', data: currentArtifact.id });
+    const controller = new AbortController();
+    variationsControllerRef.current = controller;
 
     try {
         const prompt = `
@@ -251,7 +597,7 @@ STYLE REFERENCE (${styleRefName}):
 \`\`\`html
 ${styleRefHtml}
 \`\`\`
-
+${lockedStyle ? styleNotes(lockedStyle) : ''}
 **GOAL:**
 Create fundamentally different user experience approaches - different information architectures, interaction patterns, and user flows. Not just visual style changes.
 
@@ -275,14 +621,18 @@ Required JSON Output Format (stream ONE object per line):
 Return ONLY the streamed JSON objects. No markdown fences.
         `.trim();
 
-        const responseStream = streamVariations(prompt, selectedModelId);
+        // Keep the reference screenshot in view so variations stay true to its content
+        const sessionImages = currentSession.recipe?.kind === 'fresh' ? currentSession.recipe.images : undefined;
+        const responseStream = streamVariations(prompt, selectedModelId, controller.signal, sessionImages);
 
-        for await (const variation of parseJsonStream(responseStream)) {
+        const onUsage = (usage: TokenUsage) => recordUsage(usage, { modelId: selectedModelId, flow: 'variations', sessionId: currentSession.id, artifactId: currentArtifact.id });
+        for await (const variation of parseJsonStream(responseStream, onUsage)) {
             if (variation.name && variation.html) {
                 setComponentVariations(prev => [...prev, variation]);
             }
         }
     } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error("Error generating variations:", e);
         const errorMessage = e.message || 'Unknown error occurred';
         setDrawerState(prev => ({
@@ -295,9 +645,10 @@ Return ONLY the streamed JSON objects. No markdown fences.
             }
         }));
     } finally {
-        setIsLoading(false);
+        if (variationsControllerRef.current === controller) variationsControllerRef.current = null;
+        setIsExploringVariations(false);
     }
-  }, [sessions, currentSessionIndex, focusedArtifactIndex, editedPrompt, lockedStyle, selectedModelId, isLoading]);
+  }, [sessions, currentSessionIndex, focusedArtifactIndex, editedPrompt, lockedStyle, selectedModelId, isExploringVariations, recordUsage]);
 
   const applyVariation = (variation: ComponentVariation) => {
       if (focusedArtifactIndex === null) return;
@@ -306,7 +657,13 @@ Return ONLY the streamed JSON objects. No markdown fences.
           i === currentSessionIndex ? {
               ...sess,
               artifacts: sess.artifacts.map((art, j) => 
-                j === focusedArtifactIndex ? { ...art, html: variation.html, styleName: variation.name || art.styleName, status: 'complete' } : art
+                j === focusedArtifactIndex ? {
+                    ...art,
+                    html: variation.html,
+                    styleName: variation.name || art.styleName,
+                    status: 'complete',
+                    versions: appendArtifactVersion(art, variation.html, 'variation', variation.name || art.styleName)
+                } : art
               )
           } : sess
       ));
@@ -317,18 +674,89 @@ Return ONLY the streamed JSON objects. No markdown fences.
       const currentSession = sessions[currentSessionIndex];
       if (currentSession && focusedArtifactIndex !== null) {
           const artifact = currentSession.artifacts[focusedArtifactIndex];
-          setDrawerState({ isOpen: true, mode: 'code', title: 'Source Code', data: artifact.html });
+          setSourceDraft({ sessionId: currentSession.id, artifactId: artifact.id, html: artifact.html });
+          setSourcePreview(artifact.html);
+          setDrawerState({ isOpen: true, mode: 'code', title: 'Source Code', data: { sessionId: currentSession.id, artifactId: artifact.id } });
+      }
+  };
+
+  // Debounce the preview so the iframes don't reload on every keystroke
+  useEffect(() => {
+      if (!sourceDraft) return;
+      const timer = window.setTimeout(() => setSourcePreview(sourceDraft.html), 300);
+      return () => window.clearTimeout(timer);
+  }, [sourceDraft]);
+
+  const handleSaveSource = useCallback(() => {
+      if (!sourceDraft) return;
+      const { sessionId, artifactId, html } = sourceDraft;
+      const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+      if (!artifact || artifact.status === 'streaming' || artifact.html === html) return;
+      updateArtifact(sessionId, artifactId, {
+          html,
+          status: 'complete',
+          versions: appendArtifactVersion(artifact, html, 'manual-edit')
+      });
+      setSourcePreview(html);
+  }, [sourceDraft, sessions, updateArtifact]);
+
+  const handleShowExport = () => {
+      const currentSession = sessions[currentSessionIndex];
+      if (currentSession && focusedArtifactIndex !== null) {
+          const artifact = currentSession.artifacts[focusedArtifactIndex];
+          setDrawerState({ isOpen: true, mode: 'export', title: 'Export Component', data: { html: artifact.html, styleName: artifact.styleName, sessionId: currentSession.id, artifactId: artifact.id } });
+      }
+  };
+
+  const handleShowHistory = () => {
+      const currentSession = sessions[currentSessionIndex];
+      if (currentSession && focusedArtifactIndex !== null) {
+          const artifact = currentSession.artifacts[focusedArtifactIndex];
+          // Give artifacts from before version tracking a stored starting point
+          if (!artifact.versions?.length) {
+              updateArtifact(currentSession.id, artifact.id, { versions: getArtifactVersions(artifact) });
+          }
+          setDrawerState({ isOpen: true, mode: 'history', title: 'Version History', data: { sessionId: currentSession.id, artifactId: artifact.id } });
+      }
+  };
+
+  const handleShowResponsive = () => {
+      const currentSession = sessions[currentSessionIndex];
+      if (currentSession && focusedArtifactIndex !== null) {
+          const artifact = currentSession.artifacts[focusedArtifactIndex];
+          setDrawerState({ isOpen: true, mode: 'responsive', title: 'Responsive Preview', data: { sessionId: currentSession.id, artifactId: artifact.id } });
+      }
+  };
+
+  const handleShowRefine = () => {
+      const currentSession = sessions[currentSessionIndex];
+      if (currentSession && focusedArtifactIndex !== null) {
+          const artifact = currentSession.artifacts[focusedArtifactIndex];
+          setDrawerState({ isOpen: true, mode: 'refine', title: `Refine: ${artifact.styleName}`, data: { sessionId: currentSession.id, artifactId: artifact.id } });
+      }
+  };
+
+  // Element picked in inspect mode on the focused artifact
+  const [inspectedElement, setInspectedElement] = useState<InspectedElement | null>(null);
+
+  const handleShowInspect = () => {
+      const currentSession = sessions[currentSessionIndex];
+      if (currentSession && focusedArtifactIndex !== null) {
+          const artifact = currentSession.artifacts[focusedArtifactIndex];
+          setInspectedElement(null);
+          setDrawerState({ isOpen: true, mode: 'inspect', title: 'Inspect Element', data: { sessionId: currentSession.id, artifactId: artifact.id } });
       }
   };
 
   const [copySuccess, setCopySuccess] = useState(false);
 
   const handleCopyCode = useCallback(async () => {
-      if (drawerState.mode === 'code' && drawerState.data) {
+      const code = sourceDraft?.html;
+      if (drawerState.mode === 'code' && code) {
           try {
               // Try modern clipboard API first (works on most modern browsers)
               if (navigator.clipboard && navigator.clipboard.writeText) {
-                  await navigator.clipboard.writeText(drawerState.data);
+                  await navigator.clipboard.writeText(code);
                   setCopySuccess(true);
                   setTimeout(() => setCopySuccess(false), 2000);
                   return;
@@ -336,7 +764,7 @@ Return ONLY the streamed JSON objects. No markdown fences.
               
               // Fallback for older browsers and mobile Safari (iOS < 13.4, older Android)
               const textArea = document.createElement('textarea');
-              textArea.value = drawerState.data;
+              textArea.value = code;
               // Style to be invisible but still selectable
               textArea.style.position = 'fixed';
               textArea.style.top = '0';
@@ -357,7 +785,7 @@ Return ONLY the streamed JSON objects. No markdown fences.
               
               // For mobile, we need to set selection range
               if (textArea.setSelectionRange) {
-                  textArea.setSelectionRange(0, drawerState.data.length);
+                  textArea.setSelectionRange(0, code.length);
               }
               
               try {
@@ -381,7 +809,7 @@ Return ONLY the streamed JSON objects. No markdown fences.
               // If clipboard API fails, try fallback
               try {
                   const textArea = document.createElement('textarea');
-                  textArea.value = drawerState.data;
+                  textArea.value = code;
                   textArea.style.position = 'fixed';
                   textArea.style.top = '50%';
                   textArea.style.left = '50%';
@@ -415,7 +843,7 @@ Return ONLY the streamed JSON objects. No markdown fences.
               }
           }
       }
-  }, [drawerState]);
+  }, [drawerState, sourceDraft]);
 
   // Reset copy success state when switching away from code view
   useEffect(() => {
@@ -444,7 +872,7 @@ FULL PROMPT:
 
 SELECTED WORD:
 "${word}"
-
+${styleNotes(lockedStyle)}
 TASK:
 Generate 5 alternative SINGLE-WORD replacements for the selected word that would change the UX approach (information architecture, interaction pattern, or user flow).
 
@@ -476,6 +904,7 @@ Return ONLY a raw JSON array of 5 strings. Example: ["ethereal", "brutalist", "o
           `.trim();
 
           const response = await generateContent(prompt, selectedModelId);
+          if (response.usage) recordUsage(response.usage, { modelId: selectedModelId, flow: 'word-suggestions', sessionId: session?.id });
           const text = response.text || '[]';
           const jsonMatch = text.match(/\[[\s\S]*\]/);
 
@@ -500,7 +929,7 @@ Return ONLY a raw JSON array of 5 strings. Example: ["ethereal", "brutalist", "o
           console.error('Error fetching word suggestions:', e);
           setWordSuggestion(null);
       }
-  }, [sessions, currentSessionIndex, editedPrompt, lockedStyle, selectedModelId]);
+  }, [sessions, currentSessionIndex, editedPrompt, lockedStyle, selectedModelId, recordUsage]);
 
   const handleWordReplace = useCallback((newWord: string) => {
       if (!wordSuggestion) return;
@@ -527,10 +956,47 @@ Return ONLY a raw JSON array of 5 strings. Example: ["ethereal", "brutalist", "o
           html: artifact.html,
           styleName: artifact.styleName
       });
+      setActiveStylePresetId(null);
   }, [focusedArtifactIndex, sessions, currentSessionIndex]);
 
   const handleUnlockStyle = useCallback(() => {
       setLockedStyle(null);
+      setActiveStylePresetId(null);
+  }, []);
+
+  const handleApplyStylePreset = useCallback((preset: StylePreset) => {
+      setLockedStyle(presetToStyleReference(preset));
+      setActiveStylePresetId(preset.id);
+  }, []);
+
+  const handleSaveStylePreset = useCallback(async (name: string, description: string) => {
+      if (!lockedStyle) return;
+      const preset: StylePreset = {
+          id: generateId(),
+          name,
+          html: lockedStyle.html,
+          tokens: extractDesignTokens(lockedStyle.html),
+          description,
+          createdAt: Date.now()
+      };
+      try {
+          await saveStylePreset(preset);
+          setStylePresets(prev => [...prev, preset]);
+          handleApplyStylePreset(preset);
+      } catch (e) {
+          console.error('Failed to save style preset:', e);
+      }
+  }, [lockedStyle, handleApplyStylePreset]);
+
+  // Deleting the active preset keeps its style locked, just no longer saved
+  const handleDeleteStylePreset = useCallback(async (presetId: string) => {
+      try {
+          await deleteStylePreset(presetId);
+          setStylePresets(prev => prev.filter(p => p.id !== presetId));
+          setActiveStylePresetId(prev => prev === presetId ? null : prev);
+      } catch (e) {
+          console.error('Failed to delete style preset:', e);
+      }
   }, []);
 
   // Hide artifact handler
@@ -560,262 +1026,35 @@ Return ONLY a raw JSON array of 5 strings. Example: ["ethereal", "brutalist", "o
       setBlendSelection(prev => {
           if (prev.includes(artifactId)) {
               return prev.filter(id => id !== artifactId);
-          } else if (prev.length < 2) {
-              return [...prev, artifactId];
           }
-          // If already 2 selected, replace the first one
-          return [prev[1], artifactId];
+          // Past the limit, the oldest pick makes way
+          return [...prev, artifactId].slice(-MAX_BLEND_SOURCES);
       });
   }, []);
 
+  // Creates a session for the recipe and fills it through the generation engine
+  const startGenerationSession = useCallback(async (recipe: GenerationRecipe, count: number = artifactCount) => {
+      const { session, job } = createGenerationSession(recipe, { modelId: selectedModelId, count });
+      setSessions(prev => [...prev, session]);
+      setCurrentSessionIndex(sessions.length);
+      setFocusedArtifactIndex(null);
+      await runGenerationJob(job, session.prompt);
+  }, [selectedModelId, artifactCount, sessions.length, runGenerationJob]);
+
   const handleSendMessage = useCallback(async (manualPrompt?: string) => {
     const promptToUse = manualPrompt || inputValue;
-    const trimmedInput = promptToUse.trim();
+    const images = attachedImages.length > 0 ? attachedImages : undefined;
+    // An image on its own is enough to describe what to build
+    const trimmedInput = promptToUse.trim() || (images ? 'The UI shown in the attached image' : '');
     
-    if (!trimmedInput || isLoading) return;
+    if (!trimmedInput) return;
     if (!manualPrompt) setInputValue('');
-
-    setIsLoading(true);
-    const baseTime = Date.now();
-    const sessionId = generateId();
-
-    const placeholderArtifacts: Artifact[] = Array(5).fill(null).map((_, i) => ({
-        id: `${sessionId}_${i}`,
-        styleName: 'Designing...',
-        html: '',
-        status: 'streaming',
-    }));
-
-    const newSession: Session = {
-        id: sessionId,
-        prompt: trimmedInput,
-        timestamp: baseTime,
-        artifacts: placeholderArtifacts
-    };
-
-    setSessions(prev => [...prev, newSession]);
-    setCurrentSessionIndex(sessions.length);
-    setFocusedArtifactIndex(null);
+    setAttachedImages([]);
     setEditedPrompt(null); // Clear any edited prompt when starting new session 
 
-    try {
-        // Generate 5 creative style themes using physical/material metaphors
-        const stylePrompt = `
-Generate 5 RADICAL CONCEPTUAL STYLE THEMES for a UI component: "${trimmedInput}".
-
-**STRICT IP SAFEGUARD:**
-No names of artists, brands, or copyrighted works.
-Instead, describe the *Physicality* and *Material Logic* of the UI.
-
-**CREATIVE GUIDANCE (Use these as EXAMPLES of how to describe style, but INVENT YOUR OWN):**
-1. "Asymmetrical Primary Grid" (Heavy black strokes, rectilinear structure, flat primary pigments, high-contrast white space)
-2. "Suspended Kinetic Mobile" (Delicate wire-thin connections, floating organic primary shapes, slow-motion balance, white-void background)
-3. "Grainy Risograph Press" (Overprinted translucent inks, dithered grain textures, monochromatic color depth, raw paper substrate)
-4. "Volumetric Spectral Fluid" (Generative morphing gradients, soft-focus diffusion, bioluminescent light sources, spectral chromatic aberration)
-5. "Weathered Industrial Patina" (Oxidized metal textures, exposed rivets, distressed typography, warm amber undertones)
-6. "Crystalline Frost Formation" (Ice-like transparency, sharp geometric facets, cool blue-white palette, frosted glass effects)
-7. "Handmade Paper Collage" (Torn edges, layered translucent papers, visible fibers, muted earth tones, imperfect alignment)
-
-**YOUR TASK:**
-Invent 5 unique design personas based on NEW physical metaphors. Each should evoke a distinct material, texture, or physical phenomenon.
-
-Return ONLY a raw JSON array of 5 strings - just the creative style names.
-Example: ["Molten Glass Cascade", "Pressed Botanical Archive", "Neon Noir Circuit", "Chalk Dust Classroom", "Liquid Mercury Pool"]
-        `.trim();
-
-        let styleResponse;
-        try {
-            styleResponse = await generateContent(stylePrompt, selectedModelId);
-        } catch (e: any) {
-            console.error("Error generating style themes:", e);
-            throw new Error(`Failed to generate style themes: ${e.message || 'Unknown error'}`);
-        }
-
-        let generatedStyles: string[] = [];
-
-        const styleText = styleResponse.text || '[]';
-        const jsonMatch = styleText.match(/\[[\s\S]*\]/);
-
-        if (jsonMatch) {
-            try {
-                generatedStyles = JSON.parse(jsonMatch[0]);
-            } catch (e) {
-                console.warn("Failed to parse style themes, using fallbacks");
-            }
-        }
-
-        if (!generatedStyles || generatedStyles.length < 5) {
-            generatedStyles = [
-                "Molten Glass Cascade",
-                "Pressed Botanical Archive",
-                "Neon Noir Circuit",
-                "Weathered Industrial Patina",
-                "Crystalline Frost Formation"
-            ];
-        }
-
-        generatedStyles = generatedStyles.slice(0, 5);
-
-        setSessions(prev => prev.map(s => {
-            if (s.id !== sessionId) return s;
-            return {
-                ...s,
-                artifacts: s.artifacts.map((art, i) => ({
-                    ...art,
-                    styleName: generatedStyles[i] || 'Designing...'
-                }))
-            };
-        }));
-
-        const generateArtifact = async (artifact: Artifact, styleName: string) => {
-            try {
-                // Build the base prompt with creative style focus
-                let prompt = `
-You are Flash UI, a master UI/UX designer. Create a high-fidelity UI component for: "${trimmedInput}".
-
-**STYLE THEME: ${styleName}**
-
-Fully embody this style theme. The name evokes a physical material, texture, or phenomenon - translate that into:
-- Color palette inspired by the theme
-- Typography that matches the mood
-- Textures, shadows, and effects that feel like the material
-- Layout and spacing that reinforce the aesthetic
-- Micro-interactions and hover states consistent with the theme
-
-**DESIGN REQUIREMENTS:**
-1. **Visual Impact**: Create a striking, memorable design that fully commits to the style theme
-2. **Functional UI**: Despite the creative styling, ensure the component is usable and interactive
-3. **Rich Details**: Include thoughtful hover states, transitions, and visual feedback
-4. **Complete Implementation**: Include realistic content, not placeholder text
-`;
-
-                // Add style reference if style is locked
-                if (lockedStyle) {
-                    prompt += `
-**STYLE REFERENCE - MATCH THIS AESTHETIC:**
-Analyze and match the visual style (colors, typography, textures, spacing, visual language) from this reference:
-\`\`\`html
-${lockedStyle.html}
-\`\`\`
-
-IMPORTANT: Use the SAME visual style (colors, fonts, textures, effects) but create a DIFFERENT layout/structure.
-`;
-                }
-
-                prompt += `
-**TECHNICAL REQUIREMENTS:**
-- Return ONLY RAW HTML with embedded CSS (no markdown fences)
-- Use modern CSS (flexbox, grid, custom properties, filters, gradients)
-- Include hover states and transitions
-- Make it feel alive and polished
-                `.trim();
-          
-                const responseStream = streamGenerateContent(prompt, undefined, selectedModelId);
-
-                let accumulatedHtml = '';
-                for await (const chunk of responseStream) {
-                    const text = chunk.text;
-                    if (typeof text === 'string') {
-                        accumulatedHtml += text;
-                        setSessions(prev => prev.map(sess => 
-                            sess.id === sessionId ? {
-                                ...sess,
-                                artifacts: sess.artifacts.map(art => 
-                                    art.id === artifact.id ? { ...art, html: accumulatedHtml } : art
-                                )
-                            } : sess
-                        ));
-                    }
-                }
-                
-                let finalHtml = accumulatedHtml.trim();
-                if (finalHtml.startsWith('```html')) finalHtml = finalHtml.substring(7).trimStart();
-                if (finalHtml.startsWith('```')) finalHtml = finalHtml.substring(3).trimStart();
-                if (finalHtml.endsWith('```')) finalHtml = finalHtml.substring(0, finalHtml.length - 3).trimEnd();
-
-                if (!finalHtml) {
-                    throw new Error('No HTML content received from API');
-                }
-
-                setSessions(prev => prev.map(sess => 
-                    sess.id === sessionId ? {
-                        ...sess,
-                        artifacts: sess.artifacts.map(art => 
-                            art.id === artifact.id ? { ...art, html: finalHtml, status: 'complete' } : art
-                        )
-                    } : sess
-                ));
-
-            } catch (e: any) {
-                console.error('Error generating artifact:', e);
-                const errorMessage = e.message || 'Unknown error occurred';
-                const errorHtml = `
-                    <div style="padding: 40px; text-align: center; color: #ff6b6b; font-family: system-ui, -apple-system, sans-serif;">
-                        <div style="font-size: 24px; margin-bottom: 16px;">⚠️ Design Generation Failed</div>
-                        <div style="font-size: 14px; color: #ff9999; margin-bottom: 24px; max-width: 500px; margin-left: auto; margin-right: auto;">
-                            ${errorMessage}
-                        </div>
-                        <div style="font-size: 12px; color: #999; margin-top: 24px;">
-                            <div>Common issues:</div>
-                            <ul style="text-align: left; display: inline-block; margin-top: 8px;">
-                                <li>API key not configured (check .env file)</li>
-                                <li>Network connection issues</li>
-                                <li>API rate limits exceeded</li>
-                                <li>Server not running (check port 3001)</li>
-                            </ul>
-                        </div>
-                    </div>
-                `;
-                setSessions(prev => prev.map(sess => 
-                    sess.id === sessionId ? {
-                        ...sess,
-                        artifacts: sess.artifacts.map(art => 
-                            art.id === artifact.id ? { 
-                                ...art, 
-                                html: errorHtml, 
-                                status: 'error',
-                                styleName: 'Error'
-                            } : art
-                        )
-                    } : sess
-                ));
-            }
-        };
-
-        await Promise.all(placeholderArtifacts.map((art, i) => generateArtifact(art, generatedStyles[i])));
-
-    } catch (e: any) {
-        console.error("Fatal error in generation process", e);
-        const errorMessage = e.message || 'Unknown error occurred';
-        
-        // Update all artifacts in the session to show error
-        setSessions(prev => prev.map(sess => {
-            if (sess.id !== sessionId) return sess;
-            return {
-                ...sess,
-                artifacts: sess.artifacts.map(art => ({
-                    ...art,
-                    html: `
-                        <div style="padding: 40px; text-align: center; color: #ff6b6b; font-family: system-ui, -apple-system, sans-serif;">
-                            <div style="font-size: 24px; margin-bottom: 16px;">⚠️ Generation Failed</div>
-                            <div style="font-size: 14px; color: #ff9999; margin-bottom: 24px; max-width: 500px; margin-left: auto; margin-right: auto;">
-                                ${errorMessage}
-                            </div>
-                            <div style="font-size: 12px; color: #999; margin-top: 24px;">
-                                Please check your API configuration and try again.
-                            </div>
-                        </div>
-                    `,
-                    status: 'error' as const,
-                    styleName: 'Error'
-                }))
-            };
-        }));
-    } finally {
-        setIsLoading(false);
-        setTimeout(() => inputRef.current?.focus(), 100);
-    }
-  }, [inputValue, isLoading, sessions.length, lockedStyle]);
+    await startGenerationSession({ kind: 'fresh', prompt: trimmedInput, styleReference: lockedStyle ?? undefined, images });
+    setTimeout(() => inputRef.current?.focus(), 100);
+  }, [inputValue, attachedImages, lockedStyle, startGenerationSession]);
 
   // Handlers that depend on handleSendMessage
   const handleRegenerateWithEdits = useCallback(() => {
@@ -824,398 +1063,314 @@ IMPORTANT: Use the SAME visual style (colors, fonts, textures, effects) but crea
       setEditedPrompt(null);
   }, [editedPrompt, handleSendMessage]);
 
+  // Keep the locked style but explore different layouts for the current prompt
   const handleRemixLayout = useCallback(() => {
       const currentSession = sessions[currentSessionIndex];
       if (!lockedStyle || !currentSession) return;
-      handleSendMessage(currentSession.prompt);
-  }, [lockedStyle, sessions, currentSessionIndex, handleSendMessage]);
+      startGenerationSession({
+          kind: 'remix',
+          prompt: currentSession.recipe?.prompt ?? currentSession.prompt,
+          styleReference: lockedStyle
+      });
+  }, [lockedStyle, sessions, currentSessionIndex, startGenerationSession]);
 
-  // "More Like This" - generate 5 similar designs based on focused artifact
-  const handleMoreLikeThis = useCallback(async () => {
+  // "More Like This" - generate similar designs based on focused artifact
+  const handleMoreLikeThis = useCallback(() => {
       const session = sessions[currentSessionIndex];
-      if (!session || focusedArtifactIndex === null || isLoading) return;
+      if (!session || focusedArtifactIndex === null) return;
 
       const sourceArtifact = session.artifacts[focusedArtifactIndex];
       if (sourceArtifact.status !== 'complete') return;
 
-      setIsLoading(true);
-      const baseTime = Date.now();
-      const sessionId = generateId();
-
-      // First artifact is the original (already complete), rest are placeholders
-      const placeholderArtifacts: Artifact[] = [
-          {
-              id: `${sessionId}_0`,
-              styleName: `${sourceArtifact.styleName} (Original)`,
-              html: sourceArtifact.html,
-              status: 'complete' as const,
-          },
-          ...Array(4).fill(null).map((_, i) => ({
-              id: `${sessionId}_${i + 1}`,
-              styleName: 'Designing...',
-              html: '',
-              status: 'streaming' as const,
-          }))
-      ];
-
-      const newSession: Session = {
-          id: sessionId,
-          prompt: `Similar to: ${session.prompt}`,
-          timestamp: baseTime,
-          artifacts: placeholderArtifacts
-      };
-
-      setSessions(prev => [...prev, newSession]);
-      setCurrentSessionIndex(sessions.length);
-      setFocusedArtifactIndex(null);
+      startGenerationSession({
+          kind: 'similar',
+          prompt: session.recipe?.prompt ?? session.prompt,
+          source: { html: sourceArtifact.html, styleName: sourceArtifact.styleName }
+      });
+  }, [sessions, currentSessionIndex, focusedArtifactIndex, startGenerationSession]);
 
-      try {
-          // Generate 4 style variations (original is already slot 0)
-          const stylePrompt = `
-Analyze this HTML design and generate 4 creative variations of its visual style.
+  // Finished designs picked for blending, in pick order
+  const blendArtifacts = useMemo(() => {
+      const session = sessions[currentSessionIndex];
+      return blendSelection
+          .map(id => session?.artifacts.find(a => a.id === id))
+          .filter((a): a is Artifact => !!a && a.status === 'complete');
+  }, [sessions, currentSessionIndex, blendSelection]);
+  const blendSources = useMemo(() => blendArtifacts.map(a => ({ html: a.html, styleName: a.styleName })), [blendArtifacts]);
+
+  const handleShowBlend = useCallback(() => {
+      setDrawerState({ isOpen: true, mode: 'blend', title: 'Blend Styles', data: null });
+  }, []);
 
-SOURCE DESIGN:
-\`\`\`html
-${sourceArtifact.html}
-\`\`\`
+  // "Blend Styles" - one hybrid per requested mix of the selected designs
+  const handleBlendStyles = useCallback((mixes: BlendMix[]) => {
+      const session = sessions[currentSessionIndex];
+      if (!session || blendSources.length < 2 || mixes.length === 0) return;
 
-Generate 4 distinct style names that are similar in spirit but with interesting variations.
-Each should evoke a slightly different mood or material quality while maintaining the core aesthetic.
+      setBlendSelection([]);
+      setDrawerState(s => ({ ...s, isOpen: false }));
+      startGenerationSession({
+          kind: 'blend',
+          prompt: session.recipe?.prompt ?? session.prompt,
+          sources: blendSources,
+          mixes
+      }, mixes.length);
+  }, [sessions, currentSessionIndex, blendSources, startGenerationSession]);
+
+  // Regenerate a single slot in place, reusing the session's recipe (or the current prompt/locked style for older sessions)
+  const handleRegenerateArtifact = useCallback(async (sessionId: string, artifactId: string, newStyle: boolean) => {
+      const session = sessions.find(s => s.id === sessionId);
+      const artifact = session?.artifacts.find(a => a.id === artifactId);
+      if (!session || !artifact || artifact.status === 'streaming') return;
 
-Return ONLY a raw JSON array of 4 creative style names.
-          `.trim();
+      const job = createRegenerationJob(session, artifactId, {
+          modelId: selectedModelId,
+          newStyle,
+          fallbackRecipe: { kind: 'fresh', prompt: session.prompt, styleReference: lockedStyle ?? undefined }
+      });
+      if (!job) return;
 
-          let styleResponse;
-          try {
-              styleResponse = await generateContent(stylePrompt, selectedModelId);
-          } catch (e: any) {
-              console.error("Error generating styles:", e);
-              throw new Error(`Failed to generate styles: ${e.message || 'Unknown error'}`);
+      // The redo streams over the card, so keep the current design in its history and put it
+      // back if the redo is cancelled or fails; older artifacts may have no versions recorded yet
+      const previous = { html: artifact.html, styleName: artifact.styleName, status: artifact.status };
+      updateArtifact(sessionId, artifactId, {
+          html: '',
+          status: 'streaming',
+          styleName: job.slots[0].styleName ?? getPlaceholderName(job.recipe),
+          versions: artifact.status === 'complete' ? getArtifactVersions(artifact) : artifact.versions
+      });
+      await runGenerationJob(job, `Redo: ${artifact.styleName}`, event => {
+          if ((event.type === 'cancelled' || event.type === 'error') && event.artifactId === artifactId) {
+              updateArtifact(sessionId, artifactId, previous);
           }
-          let generatedStyles: string[] = [];
-          const styleText = styleResponse.text || '[]';
-          const jsonMatch = styleText.match(/\[[\s\S]*\]/);
+      });
+  }, [sessions, lockedStyle, selectedModelId, updateArtifact, runGenerationJob]);
 
-          if (jsonMatch) {
-              try {
-                  generatedStyles = JSON.parse(jsonMatch[0]);
-              } catch (e) {
-                  console.warn("Failed to parse styles");
-              }
-          }
+  // Streams a model rewrite over an artifact; the previous html stays in its version history
+  // Rejects with the provider's message on failure (not on cancel) so the caller can show it
+  const rewriteArtifact = useCallback(async (sessionId: string, artifactId: string, buildPrompt: (html: string) => string, label: string) => {
+      const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+      if (!artifact || artifact.status !== 'complete') return;
 
-          if (!generatedStyles || generatedStyles.length < 4) {
-              generatedStyles = [
-                  `${sourceArtifact.styleName} - Refined`,
-                  `${sourceArtifact.styleName} - Bold`,
-                  `${sourceArtifact.styleName} - Minimal`,
-                  `${sourceArtifact.styleName} - Warm`
-              ];
+      const controller = new AbortController();
+      artifactEditControllersRef.current.set(artifactId, controller);
+      updateArtifact(sessionId, artifactId, { status: 'streaming' });
+
+      try {
+          const html = await streamArtifactHtml(buildPrompt(artifact.html), {
+              modelId: selectedModelId,
+              signal: controller.signal,
+              onChunk: (accumulated) => updateArtifact(sessionId, artifactId, { html: accumulated }),
+              onUsage: (usage) => recordUsage(usage, { modelId: selectedModelId, flow: 'fix', sessionId, artifactId })
+          });
+          updateArtifact(sessionId, artifactId, {
+              html,
+              status: 'complete',
+              versions: appendArtifactVersion(artifact, html, 'ai-fix')
+          });
+      } catch (e: any) {
+          updateArtifact(sessionId, artifactId, { html: artifact.html, status: 'complete' });
+          if (!isAbortError(e)) {
+              console.error(`${label} failed:`, e);
+              throw e;
           }
+      } finally {
+          artifactEditControllersRef.current.delete(artifactId);
+      }
+  }, [sessions, selectedModelId, updateArtifact, recordUsage]);
 
-          generatedStyles = generatedStyles.slice(0, 4);
+  const handleFixAccessibility = useCallback((sessionId: string, artifactId: string, issues: A11yIssue[]) => {
+      if (issues.length === 0) return Promise.resolve();
+      return rewriteArtifact(sessionId, artifactId, html => buildAccessibilityFixPrompt(html, issues), 'Accessibility fix');
+  }, [rewriteArtifact]);
 
-          // Update style names for slots 1-4 (slot 0 is the original)
-          setSessions(prev => prev.map(s => {
-              if (s.id !== sessionId) return s;
-              return {
-                  ...s,
-                  artifacts: s.artifacts.map((art, i) => ({
-                      ...art,
-                      styleName: i === 0 ? art.styleName : (generatedStyles[i - 1] || art.styleName)
-                  }))
-              };
-          }));
+  const handleMakeResponsive = useCallback((sessionId: string, artifactId: string, reports: OverflowReport[]) => {
+      if (reports.length === 0) return Promise.resolve();
+      return rewriteArtifact(sessionId, artifactId, html => buildResponsiveFixPrompt(html, reports), 'Responsive fix');
+  }, [rewriteArtifact]);
 
-          const generateArtifact = async (artifact: Artifact, styleInstruction: string) => {
-              try {
-                  const prompt = `
-You are Flash UI. Create a design SIMILAR to the reference but with this variation: "${styleInstruction}".
+  // One chat turn: rewrite the artifact from its current html plus the conversation so far
+  const handleRefineArtifact = useCallback(async (sessionId: string, artifactId: string, request: string) => {
+      const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+      if (!artifact || artifact.status !== 'complete') return;
 
-REFERENCE DESIGN (match the overall aesthetic and quality):
-\`\`\`html
-${sourceArtifact.html}
-\`\`\`
+      const history = artifact.conversation ?? [];
+      const userMessage: RefinementMessage = { id: generateId(), role: 'user', content: request, createdAt: Date.now() };
+      const conversation = [...history, userMessage];
+      const reply = (content: string, extra: Partial<RefinementMessage> = {}): RefinementMessage[] =>
+          [...conversation, { id: generateId(), role: 'assistant', content, createdAt: Date.now(), ...extra }];
 
-ORIGINAL PROMPT: "${session.prompt}"
-
-Create a new design that:
-1. Maintains the same visual language (colors, typography, textures)
-2. Applies the variation "${styleInstruction}"
-3. May have a different layout but keeps the same component type
-4. Matches or exceeds the quality of the reference
-
-Return ONLY RAW HTML. No markdown fences.
-                  `.trim();
-
-                  const responseStream = streamGenerateContent(prompt, undefined, selectedModelId);
-                  let accumulatedHtml = '';
-
-                  for await (const chunk of responseStream) {
-                      const text = chunk.text;
-                      if (typeof text === 'string') {
-                          accumulatedHtml += text;
-                          setSessions(prev => prev.map(sess =>
-                              sess.id === sessionId ? {
-                                  ...sess,
-                                  artifacts: sess.artifacts.map(art =>
-                                      art.id === artifact.id ? { ...art, html: accumulatedHtml } : art
-                                  )
-                              } : sess
-                          ));
-                      }
-                  }
+      const controller = new AbortController();
+      artifactEditControllersRef.current.set(artifactId, controller);
+      updateArtifact(sessionId, artifactId, { status: 'streaming', conversation });
 
-                  let finalHtml = accumulatedHtml.trim();
-                  if (finalHtml.startsWith('```html')) finalHtml = finalHtml.substring(7).trimStart();
-                  if (finalHtml.startsWith('```')) finalHtml = finalHtml.substring(3).trimStart();
-                  if (finalHtml.endsWith('```')) finalHtml = finalHtml.substring(0, finalHtml.length - 3).trimEnd();
-
-                  setSessions(prev => prev.map(sess =>
-                      sess.id === sessionId ? {
-                          ...sess,
-                          artifacts: sess.artifacts.map(art =>
-                              art.id === artifact.id ? { ...art, html: finalHtml, status: finalHtml ? 'complete' : 'error' } : art
-                          )
-                      } : sess
-                  ));
-    } catch (e: any) {
-        console.error('Error generating artifact:', e);
-        const errorMessage = e.message || 'Unknown error occurred';
-        const errorHtml = `
-            <div style="padding: 40px; text-align: center; color: #ff6b6b; font-family: system-ui, -apple-system, sans-serif;">
-                <div style="font-size: 24px; margin-bottom: 16px;">⚠️ Design Generation Failed</div>
-                <div style="font-size: 14px; color: #ff9999; margin-bottom: 24px; max-width: 500px; margin-left: auto; margin-right: auto;">
-                    ${errorMessage}
-                </div>
-            </div>
-        `;
-        setSessions(prev => prev.map(sess => 
-            sess.id === sessionId ? {
-                ...sess,
-                artifacts: sess.artifacts.map(art => 
-                    art.id === artifact.id ? { 
-                        ...art, 
-                        html: errorHtml, 
-                        status: 'error',
-                        styleName: 'Error'
-                    } : art
-                )
-            } : sess
-        ));
-    }
-          };
+      try {
+          const text = await streamArtifactHtml(buildRefinementPrompt(artifact.html, history, request), {
+              modelId: selectedModelId,
+              signal: controller.signal,
+              onChunk: (accumulated) => updateArtifact(sessionId, artifactId, { html: accumulated }),
+              onUsage: (usage) => recordUsage(usage, { modelId: selectedModelId, flow: 'refine', sessionId, artifactId })
+          });
+          const { summary, html } = splitChangeSummary(text);
+          const versions = appendArtifactVersion(artifact, html, 'refinement');
+          updateArtifact(sessionId, artifactId, {
+              html,
+              status: 'complete',
+              versions,
+              conversation: reply(summary ?? 'Updated the design.', { versionId: versions[versions.length - 1].id })
+          });
+      } catch (e: any) {
+          const cancelled = isAbortError(e);
+          if (!cancelled) console.error('Refinement failed:', e);
+          updateArtifact(sessionId, artifactId, {
+              html: artifact.html,
+              status: 'complete',
+              conversation: cancelled
+                  ? reply('Stopped. The design was left as it was.', { status: 'cancelled' })
+                  : reply(`Couldn't apply that: ${e.message || 'Unknown error occurred'}`, { status: 'error' })
+          });
+      } finally {
+          artifactEditControllersRef.current.delete(artifactId);
+      }
+  }, [sessions, selectedModelId, updateArtifact, recordUsage]);
+
+  // Rewrites only the picked element's markup and splices it back; the rest of the html is untouched
+  const handleEditElement = useCallback(async (sessionId: string, artifactId: string, element: InspectedElement, request: string) => {
+      const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+      if (!artifact || artifact.status !== 'complete' || !element.range || element.source === null) return;
+      if (artifact.html.slice(element.range.start, element.range.end) !== element.source) {
+          throw new Error('The design changed since this element was selected. Select it again.');
+      }
 
-          // Generate only for slots 1-4 (slot 0 is the original, already complete)
-          await Promise.all(
-              placeholderArtifacts.slice(1).map((art, i) => generateArtifact(art, generatedStyles[i]))
+      const controller = new AbortController();
+      artifactEditControllersRef.current.set(artifactId, controller);
+      // Marks the artifact busy so refines, fixes and other element edits can't start on the same html meanwhile
+      updateArtifact(sessionId, artifactId, { status: 'streaming' });
+      try {
+          const replacement = await streamArtifactHtml(
+              buildElementEditPrompt(element.source, element.selector, request, collectPageCss(artifact.html)),
+              {
+                  modelId: selectedModelId,
+                  signal: controller.signal,
+                  onUsage: (usage) => recordUsage(usage, { modelId: selectedModelId, flow: 'refine', sessionId, artifactId })
+              }
           );
-
+          const html = spliceElementSource(artifact.html, element.range, replacement);
+          updateArtifact(sessionId, artifactId, {
+              html,
+              status: 'complete',
+              versions: appendArtifactVersion(artifact, html, 'element-edit')
+          });
+          // The preview reloads with the new html, so the old pick no longer points anywhere
+          setInspectedElement(null);
       } catch (e: any) {
-          console.error("Error in More Like This:", e);
-          const errorMessage = e.message || 'Unknown error occurred';
-          
-          // Update all artifacts to show error
-          setSessions(prev => prev.map(sess => {
-              if (sess.id !== sessionId) return sess;
-              return {
-                  ...sess,
-                  artifacts: sess.artifacts.map(art => ({
-                      ...art,
-                      html: `
-                          <div style="padding: 40px; text-align: center; color: #ff6b6b; font-family: system-ui, -apple-system, sans-serif;">
-                              <div style="font-size: 24px; margin-bottom: 16px;">⚠️ Generation Failed</div>
-                              <div style="font-size: 14px; color: #ff9999; margin-bottom: 24px; max-width: 500px; margin-left: auto; margin-right: auto;">
-                                  ${errorMessage}
-                              </div>
-                          </div>
-                      `,
-                      status: 'error' as const,
-                      styleName: 'Error'
-                  }))
-              };
-          }));
+          if (!isAbortError(e)) console.error('Element edit failed:', e);
+          updateArtifact(sessionId, artifactId, { status: 'complete' });
+          throw e;
       } finally {
-          setIsLoading(false);
+          artifactEditControllersRef.current.delete(artifactId);
       }
-  }, [sessions, currentSessionIndex, focusedArtifactIndex, isLoading]);
+  }, [sessions, selectedModelId, updateArtifact, recordUsage]);
 
-  // "Blend Styles" - combine 2 selected designs into 5 hybrids
-  const handleBlendStyles = useCallback(async () => {
-      const session = sessions[currentSessionIndex];
-      if (!session || blendSelection.length !== 2 || isLoading) return;
+  // Batch generation: each brief becomes its own session, a few running at a time
+  const [batchRun, setBatchRun] = useState<BatchRun | null>(null);
+  const batchControllerRef = useRef<AbortController | null>(null);
 
-      const artifact1 = session.artifacts.find(a => a.id === blendSelection[0]);
-      const artifact2 = session.artifacts.find(a => a.id === blendSelection[1]);
+  const updateBatchRow = useCallback((rowId: string, patch: Partial<BatchRow>) => {
+      setBatchRun(prev => prev && { ...prev, rows: prev.rows.map(row => row.id === rowId ? { ...row, ...patch } : row) });
+  }, []);
 
-      if (!artifact1 || !artifact2 || artifact1.status !== 'complete' || artifact2.status !== 'complete') return;
+  const handleStartBatch = useCallback(async (rows: BatchRow[], concurrency: number) => {
+      const queued = rows.filter(row => !row.problem).map(row => ({ ...row, status: 'queued' as const }));
+      if (queued.length === 0) return;
+      const controller = new AbortController();
+      batchControllerRef.current = controller;
+      setBatchRun({ id: generateId(), rows: queued, concurrency, startedAt: Date.now() });
+
+      await runWithConcurrency(queued, concurrency, async row => {
+          const preset = row.presetId ? stylePresets.find(p => p.id === row.presetId) : undefined;
+          const { session, job } = createGenerationSession(
+              { kind: 'fresh', prompt: row.prompt, styleReference: preset ? presetToStyleReference(preset) : lockedStyle ?? undefined },
+              { modelId: row.modelId ?? selectedModelId, count: artifactCount }
+          );
+          setSessions(prev => [...prev, session]);
+          setCurrentSessionIndex(prev => prev === -1 ? 0 : prev);
+          updateBatchRow(row.id, { status: 'running', sessionId: session.id });
 
-      setIsLoading(true);
-      setBlendSelection([]);
-      const baseTime = Date.now();
-      const sessionId = generateId();
+          const outcomes = new Map(job.slots.map(slot => [slot.artifactId, 'streaming']));
+          await runGenerationJob(job, session.prompt, event => {
+              if (event.type === 'complete' || event.type === 'error' || event.type === 'cancelled') outcomes.set(event.artifactId, event.type);
+          });
+          updateBatchRow(row.id, { status: summarizeBatchRow([...outcomes.values()]) });
+      }, controller.signal);
 
-      const placeholderArtifacts: Artifact[] = Array(5).fill(null).map((_, i) => ({
-          id: `${sessionId}_${i}`,
-          styleName: 'Blending...',
-          html: '',
-          status: 'streaming' as const,
-      }));
+      setBatchRun(prev => prev && {
+          ...prev,
+          finishedAt: Date.now(),
+          rows: prev.rows.map(row => row.status === 'queued' ? { ...row, status: 'cancelled' } : row)
+      });
+      if (batchControllerRef.current === controller) batchControllerRef.current = null;
+  }, [stylePresets, lockedStyle, selectedModelId, artifactCount, runGenerationJob, updateBatchRow]);
 
-      const newSession: Session = {
-          id: sessionId,
-          prompt: `Blend: ${artifact1.styleName} + ${artifact2.styleName}`,
-          timestamp: baseTime,
-          artifacts: placeholderArtifacts
-      };
+  const handleCancelBatch = useCallback(() => {
+      batchControllerRef.current?.abort();
+      batchRun?.rows.forEach(row => {
+          if (row.status === 'running' && row.sessionId) jobQueue.cancelSession(row.sessionId);
+      });
+  }, [batchRun, jobQueue]);
 
-      setSessions(prev => [...prev, newSession]);
-      setCurrentSessionIndex(sessions.length);
-      setFocusedArtifactIndex(null);
+  // Saves every finished design of the batch to the library and groups them in a new collection
+  const handleSaveBatchToCollection = useCallback(async (name: string) => {
+      if (!batchRun) return;
+      const collection: Collection = {
+          id: generateId(),
+          name,
+          description: `${batchRun.rows.length} briefs generated in a batch`,
+          createdAt: Date.now(),
+          componentIds: []
+      };
+      const components: SavedComponent[] = batchRun.rows.flatMap(row => {
+          const session = sessions.find(s => s.id === row.sessionId);
+          if (!session) return [];
+          return session.artifacts.filter(a => a.status === 'complete').map(artifact => {
+              const existing = savedComponents.find(c => c.artifactId === artifact.id && c.sessionId === session.id);
+              return existing
+                  ? { ...existing, collectionIds: [...existing.collectionIds, collection.id] }
+                  : {
+                      id: generateId(),
+                      artifactId: artifact.id,
+                      sessionId: session.id,
+                      prompt: session.prompt,
+                      styleName: artifact.styleName,
+                      html: artifact.html,
+                      tokens: extractDesignTokens(artifact.html),
+                      versionId: getCurrentVersion(artifact)?.id,
+                      timestamp: Date.now(),
+                      tags: [],
+                      collectionIds: [collection.id],
+                      isFavorite: false
+                  };
+          });
+      });
+      collection.componentIds = components.map(c => c.id);
 
       try {
-          // Generate blend variations
-          const blendNames = [
-              `${artifact1.styleName} × ${artifact2.styleName} (50/50)`,
-              `${artifact1.styleName} dominant`,
-              `${artifact2.styleName} dominant`,
-              `Fusion: Structure meets Texture`,
-              `Hybrid: Best of Both`
-          ];
-
-          setSessions(prev => prev.map(s => {
-              if (s.id !== sessionId) return s;
-              return {
-                  ...s,
-                  artifacts: s.artifacts.map((art, i) => ({
-                      ...art,
-                      styleName: blendNames[i]
-                  }))
-              };
-          }));
-
-          const blendRatios = [
-              { a: 50, b: 50 },
-              { a: 70, b: 30 },
-              { a: 30, b: 70 },
-              { a: 60, b: 40 },
-              { a: 40, b: 60 }
-          ];
-
-          const generateArtifact = async (artifact: Artifact, blendName: string, ratio: { a: number, b: number }) => {
-              try {
-                  const prompt = `
-You are Flash UI. Blend two design styles into a cohesive hybrid.
-
-STYLE A (${ratio.a}% influence):
-\`\`\`html
-${artifact1.html}
-\`\`\`
-
-STYLE B (${ratio.b}% influence):
-\`\`\`html
-${artifact2.html}
-\`\`\`
-
-ORIGINAL PROMPT: "${session.prompt}"
-
-Create a hybrid design that:
-1. Takes ${ratio.a}% visual influence from Style A (colors, typography, etc.)
-2. Takes ${ratio.b}% visual influence from Style B
-3. Harmoniously blends both aesthetics
-4. Creates something new that honors both sources
-
-Return ONLY RAW HTML. No markdown fences.
-                  `.trim();
-
-                  const responseStream = streamGenerateContent(prompt, undefined, selectedModelId);
-                  let accumulatedHtml = '';
-
-                  for await (const chunk of responseStream) {
-                      const text = chunk.text;
-                      if (typeof text === 'string') {
-                          accumulatedHtml += text;
-                          setSessions(prev => prev.map(sess =>
-                              sess.id === sessionId ? {
-                                  ...sess,
-                                  artifacts: sess.artifacts.map(art =>
-                                      art.id === artifact.id ? { ...art, html: accumulatedHtml } : art
-                                  )
-                              } : sess
-                          ));
-                      }
-                  }
-
-                  let finalHtml = accumulatedHtml.trim();
-                  if (finalHtml.startsWith('```html')) finalHtml = finalHtml.substring(7).trimStart();
-                  if (finalHtml.startsWith('```')) finalHtml = finalHtml.substring(3).trimStart();
-                  if (finalHtml.endsWith('```')) finalHtml = finalHtml.substring(0, finalHtml.length - 3).trimEnd();
-
-                  setSessions(prev => prev.map(sess =>
-                      sess.id === sessionId ? {
-                          ...sess,
-                          artifacts: sess.artifacts.map(art =>
-                              art.id === artifact.id ? { ...art, html: finalHtml, status: finalHtml ? 'complete' : 'error' } : art
-                          )
-                      } : sess
-                  ));
-    } catch (e: any) {
-        console.error('Error generating artifact:', e);
-        const errorMessage = e.message || 'Unknown error occurred';
-        const errorHtml = `
-            <div style="padding: 40px; text-align: center; color: #ff6b6b; font-family: system-ui, -apple-system, sans-serif;">
-                <div style="font-size: 24px; margin-bottom: 16px;">⚠️ Design Generation Failed</div>
-                <div style="font-size: 14px; color: #ff9999; margin-bottom: 24px; max-width: 500px; margin-left: auto; margin-right: auto;">
-                    ${errorMessage}
-                </div>
-            </div>
-        `;
-        setSessions(prev => prev.map(sess => 
-            sess.id === sessionId ? {
-                ...sess,
-                artifacts: sess.artifacts.map(art => 
-                    art.id === artifact.id ? { 
-                        ...art, 
-                        html: errorHtml, 
-                        status: 'error',
-                        styleName: 'Error'
-                    } : art
-                )
-            } : sess
-        ));
-    }
-          };
-
-          await Promise.all(placeholderArtifacts.map((art, i) => generateArtifact(art, blendNames[i], blendRatios[i])));
-
-      } catch (e: any) {
-          console.error("Error in Blend Styles:", e);
-          const errorMessage = e.message || 'Unknown error occurred';
-          
-          // Update all artifacts to show error
-          setSessions(prev => prev.map(sess => {
-              if (sess.id !== sessionId) return sess;
-              return {
-                  ...sess,
-                  artifacts: sess.artifacts.map(art => ({
-                      ...art,
-                      html: `
-                          <div style="padding: 40px; text-align: center; color: #ff6b6b; font-family: system-ui, -apple-system, sans-serif;">
-                              <div style="font-size: 24px; margin-bottom: 16px;">⚠️ Blend Failed</div>
-                              <div style="font-size: 14px; color: #ff9999; margin-bottom: 24px; max-width: 500px; margin-left: auto; margin-right: auto;">
-                                  ${errorMessage}
-                              </div>
-                          </div>
-                      `,
-                      status: 'error' as const,
-                      styleName: 'Error'
-                  }))
-              };
-          }));
-      } finally {
-          setIsLoading(false);
+          await Promise.all(components.map(c => saveComponent(c)));
+          await saveCollection(collection);
+          await refreshLibrary();
+          setBatchRun(prev => prev && { ...prev, collectionId: collection.id });
+      } catch (e) {
+          console.error('Failed to save batch to collection:', e);
       }
-  }, [sessions, currentSessionIndex, blendSelection, isLoading]);
+  }, [batchRun, sessions, savedComponents, refreshLibrary]);
+
+  const handleViewBatchSession = useCallback((sessionId: string) => {
+      const index = sessions.findIndex(s => s.id === sessionId);
+      if (index < 0) return;
+      setCurrentSessionIndex(index);
+      setFocusedArtifactIndex(null);
+      setDrawerState(s => ({ ...s, isOpen: false }));
+  }, [sessions]);
 
   // Library handlers
   const handleSaveToLibrary = useCallback((artifactId?: string, sessionId?: string) => {
@@ -1246,15 +1401,18 @@ Return ONLY RAW HTML. No markdown fences.
           prompt: session.prompt,
           styleName: artifact.styleName,
           html: artifact.html,
+          tokens: extractDesignTokens(artifact.html),
+          versionId: getCurrentVersion(artifact)?.id,
           timestamp: Date.now(),
           tags: [],
           collectionIds: [],
           isFavorite: false
       };
 
-      saveComponent(savedComponent);
-      setSavedComponents(getSavedComponents());
-  }, [sessions, currentSessionIndex, focusedArtifactIndex, savedComponents]);
+      saveComponent(savedComponent)
+          .then(refreshLibrary)
+          .catch(e => console.error('Failed to save component:', e));
+  }, [sessions, currentSessionIndex, focusedArtifactIndex, savedComponents, refreshLibrary]);
 
   const handleSaveAndFavorite = useCallback((artifactId: string, sessionId: string) => {
       const session = sessions.find(s => s.id === sessionId);
@@ -1274,6 +1432,8 @@ Return ONLY RAW HTML. No markdown fences.
               prompt: session.prompt,
               styleName: artifact.styleName,
               html: artifact.html,
+              tokens: extractDesignTokens(artifact.html),
+              versionId: getCurrentVersion(artifact)?.id,
               isFavorite: !existingComponent.isFavorite
           }
           : {
@@ -1283,86 +1443,271 @@ Return ONLY RAW HTML. No markdown fences.
               prompt: session.prompt,
               styleName: artifact.styleName,
               html: artifact.html,
+              tokens: extractDesignTokens(artifact.html),
+              versionId: getCurrentVersion(artifact)?.id,
               timestamp: Date.now(),
               tags: [],
               collectionIds: [],
               isFavorite: true
           };
 
-      saveComponent(componentToSave);
-      setSavedComponents(getSavedComponents());
-  }, [sessions, savedComponents]);
-
-  const handleToggleFavorite = useCallback((componentId: string) => {
-      const components = getSavedComponents();
-      const component = components.find(c => c.id === componentId);
-      if (component) {
-          component.isFavorite = !component.isFavorite;
-          saveComponent(component);
-          setSavedComponents(getSavedComponents());
+      saveComponent(componentToSave)
+          .then(refreshLibrary)
+          .catch(e => console.error('Failed to save component:', e));
+  }, [sessions, savedComponents, refreshLibrary]);
+
+  const handleRevertVersion = useCallback((sessionId: string, artifactId: string, versionId: string) => {
+      const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+      if (!artifact || artifact.status === 'streaming') return;
+      const patch = revertArtifactToVersion(artifact, versionId);
+      if (patch) updateArtifact(sessionId, artifactId, { ...patch, status: 'complete' });
+  }, [sessions, updateArtifact]);
+
+  // Point the artifact's library entry at a specific version, saving it first if needed
+  const handlePinVersion = useCallback((sessionId: string, artifactId: string, versionId: string) => {
+      const session = sessions.find(s => s.id === sessionId);
+      const artifact = session?.artifacts.find(a => a.id === artifactId);
+      const version = artifact && getArtifactVersions(artifact).find(v => v.id === versionId);
+      if (!session || !artifact || !version) return;
+
+      const existingComponent = savedComponents.find(c => c.artifactId === artifactId && c.sessionId === sessionId);
+      const pinned = {
+          styleName: version.styleName,
+          html: version.html,
+          tokens: extractDesignTokens(version.html),
+          versionId: version.id
+      };
+      const componentToSave: SavedComponent = existingComponent
+          ? { ...existingComponent, ...pinned }
+          : {
+              id: generateId(),
+              artifactId,
+              sessionId,
+              prompt: session.prompt,
+              ...pinned,
+              timestamp: Date.now(),
+              tags: [],
+              collectionIds: [],
+              isFavorite: false
+          };
+
+      saveComponent(componentToSave)
+          .then(refreshLibrary)
+          .catch(e => console.error('Failed to pin version:', e));
+  }, [sessions, savedComponents, refreshLibrary]);
+
+  const handleShowTokens = useCallback(() => {
+      const currentSession = sessions[currentSessionIndex];
+      if (!currentSession || focusedArtifactIndex === null) return;
+      const artifact = currentSession.artifacts[focusedArtifactIndex];
+      const savedComponent = savedComponents.find(
+          c => c.artifactId === artifact.id && c.sessionId === currentSession.id && c.html === artifact.html
+      );
+
+      // Library items carry their tokens; backfill ones saved before extraction existed
+      const tokens = savedComponent?.tokens ?? extractDesignTokens(artifact.html);
+      if (savedComponent && !savedComponent.tokens) {
+          saveComponent({ ...savedComponent, tokens })
+              .then(refreshLibrary)
+              .catch(e => console.error('Failed to store design tokens:', e));
       }
-  }, []);
+      setDrawerState({ isOpen: true, mode: 'tokens', title: 'Design Tokens', data: { tokens, styleName: artifact.styleName } });
+  }, [sessions, currentSessionIndex, focusedArtifactIndex, savedComponents, refreshLibrary]);
 
-  const handleUpdateTags = useCallback((componentId: string, tags: string[]) => {
-      const components = getSavedComponents();
-      const component = components.find(c => c.id === componentId);
-      if (component) {
-          component.tags = tags;
-          saveComponent(component);
-          setSavedComponents(getSavedComponents());
+  const handleToggleFavorite = useCallback(async (componentId: string) => {
+      const component = savedComponents.find(c => c.id === componentId);
+      if (!component) return;
+      try {
+          await saveComponent({ ...component, isFavorite: !component.isFavorite });
+          await refreshLibrary();
+      } catch (e) {
+          console.error('Failed to update favorite:', e);
       }
-  }, []);
+  }, [savedComponents, refreshLibrary]);
+
+  const handleUpdateTags = useCallback(async (componentId: string, tags: string[]) => {
+      const component = savedComponents.find(c => c.id === componentId);
+      if (!component) return;
+      try {
+          await saveComponent({ ...component, tags });
+          await refreshLibrary();
+      } catch (e) {
+          console.error('Failed to update tags:', e);
+      }
+  }, [savedComponents, refreshLibrary]);
 
-  const handleUpdateCollections = useCallback((componentId: string, collectionIds: string[]) => {
-      const components = getSavedComponents();
-      const component = components.find(c => c.id === componentId);
-      if (component) {
-          component.collectionIds = collectionIds;
-          saveComponent(component);
-          setSavedComponents(getSavedComponents());
+  const handleUpdateCollections = useCallback(async (componentId: string, collectionIds: string[]) => {
+      const component = savedComponents.find(c => c.id === componentId);
+      if (!component) return;
+      try {
+          await saveComponent({ ...component, collectionIds });
 
           // Update collection component lists
-          const allCollections = getCollections();
-          allCollections.forEach(collection => {
+          const updates = collections.map(collection => {
               const hasComponent = collection.componentIds.includes(componentId);
               const shouldHaveComponent = collectionIds.includes(collection.id);
-              
+
               if (shouldHaveComponent && !hasComponent) {
-                  collection.componentIds.push(componentId);
-                  saveCollection(collection);
+                  return saveCollection({ ...collection, componentIds: [...collection.componentIds, componentId] });
               } else if (!shouldHaveComponent && hasComponent) {
-                  collection.componentIds = collection.componentIds.filter(id => id !== componentId);
-                  saveCollection(collection);
+                  return saveCollection({ ...collection, componentIds: collection.componentIds.filter(id => id !== componentId) });
               }
+              return Promise.resolve();
           });
-          setCollections(getCollections());
+          await Promise.all(updates);
+          await refreshLibrary();
+      } catch (e) {
+          console.error('Failed to update collections:', e);
       }
-  }, []);
+  }, [savedComponents, collections, refreshLibrary]);
 
-  const handleCreateCollection = useCallback((collectionData: Omit<Collection, 'id' | 'createdAt' | 'componentIds'>) => {
+  const handleCreateCollection = useCallback(async (collectionData: Omit<Collection, 'id' | 'createdAt' | 'componentIds'>) => {
       const newCollection: Collection = {
           ...collectionData,
           id: generateId(),
           createdAt: Date.now(),
           componentIds: []
       };
-      saveCollection(newCollection);
-      setCollections(getCollections());
       setEditingCollection(null);
-  }, []);
+      try {
+          await saveCollection(newCollection);
+          await refreshLibrary();
+      } catch (e) {
+          console.error('Failed to create collection:', e);
+      }
+  }, [refreshLibrary]);
 
-  const handleUpdateCollection = useCallback((collection: Collection) => {
-      saveCollection(collection);
-      setCollections(getCollections());
+  const handleUpdateCollection = useCallback(async (collection: Collection) => {
       setEditingCollection(null);
+      try {
+          await saveCollection(collection);
+          await refreshLibrary();
+      } catch (e) {
+          console.error('Failed to update collection:', e);
+      }
+  }, [refreshLibrary]);
+
+  const handleDeleteCollection = useCallback(async (collectionId: string) => {
+      try {
+          await deleteCollection(collectionId);
+          await refreshLibrary();
+      } catch (e) {
+          console.error('Failed to delete collection:', e);
+      }
+  }, [refreshLibrary]);
+
+  // Adds or removes a compare pick; a fifth pick replaces the oldest
+  const handleToggleCompare = useCallback((target: CompareTarget) => {
+      const key = compareTargetKey(target);
+      setCompareTargets(prev => {
+          if (prev.some(t => compareTargetKey(t) === key)) return prev.filter(t => compareTargetKey(t) !== key);
+          return [...prev, target].slice(-MAX_COMPARE_ITEMS);
+      });
   }, []);
 
-  const handleDeleteCollection = useCallback((collectionId: string) => {
-      deleteCollection(collectionId);
-      setCollections(getCollections());
-      setSavedComponents(getSavedComponents());
+  const compareItems = useMemo<CompareItem[]>(() => compareTargets.flatMap(target => {
+      const key = compareTargetKey(target);
+      const past = comparisons.filter(c => c.entries.some(e => compareTargetKey(e.target) === key));
+      const record = {
+          wins: past.filter(c => compareTargetKey(c.entries[c.winnerIndex].target) === key).length,
+          total: past.length
+      };
+      if (target.kind === 'library') {
+          const component = savedComponents.find(c => c.id === target.componentId);
+          return component ? [{ key, styleName: component.styleName, prompt: component.prompt, html: component.html, fromLibrary: true, record }] : [];
+      }
+      const session = sessions.find(s => s.id === target.sessionId);
+      const artifact = session?.artifacts.find(a => a.id === target.artifactId);
+      return session && artifact?.status === 'complete'
+          ? [{ key, styleName: artifact.styleName, prompt: session.prompt, html: artifact.html, fromLibrary: false, record }]
+          : [];
+  }), [compareTargets, comparisons, savedComponents, sessions]);
+
+  const handleOpenCompare = useCallback(() => {
+      setCompareWinnerKey(null);
+      setIsCompareOpen(true);
+      getComparisons()
+          .then(setComparisons)
+          .catch(e => console.error('Failed to load comparisons:', e));
   }, []);
 
+  // Nothing left to compare once picks disappear (e.g. their session was deleted)
+  useEffect(() => {
+      if (isCompareOpen && compareItems.length < 2) setIsCompareOpen(false);
+  }, [isCompareOpen, compareItems.length]);
+
+  const handleCloseCompare = useCallback(() => {
+      setIsCompareOpen(false);
+      // A decided comparison is done with; an undecided one keeps its picks for later
+      if (compareWinnerKey) setCompareTargets([]);
+      setCompareWinnerKey(null);
+  }, [compareWinnerKey]);
+
+  // Saves the winner to the library (reusing its entry if it has one) and records the verdict
+  const handlePickCompareWinner = useCallback(async (key: string) => {
+      const target = compareTargets.find(t => compareTargetKey(t) === key);
+      if (!target || compareWinnerKey) return;
+
+      let winnerComponentId: string;
+      if (target.kind === 'library') {
+          winnerComponentId = target.componentId;
+      } else {
+          const session = sessions.find(s => s.id === target.sessionId);
+          const artifact = session?.artifacts.find(a => a.id === target.artifactId);
+          if (!session || !artifact) return;
+          const existing = savedComponents.find(c => c.artifactId === artifact.id && c.sessionId === session.id);
+          winnerComponentId = existing?.id ?? generateId();
+          if (!existing) {
+              try {
+                  await saveComponent({
+                      id: winnerComponentId,
+                      artifactId: artifact.id,
+                      sessionId: session.id,
+                      prompt: session.prompt,
+                      styleName: artifact.styleName,
+                      html: artifact.html,
+                      tokens: extractDesignTokens(artifact.html),
+                      versionId: getCurrentVersion(artifact)?.id,
+                      timestamp: Date.now(),
+                      tags: [],
+                      collectionIds: [],
+                      isFavorite: false
+                  });
+              } catch (e) {
+                  console.error('Failed to save compare winner:', e);
+                  return;
+              }
+          }
+      }
+
+      const comparison: Comparison = {
+          id: generateId(),
+          createdAt: Date.now(),
+          entries: compareTargets.map(t => {
+              const artifact = t.kind === 'artifact'
+                  ? sessions.find(s => s.id === t.sessionId)?.artifacts.find(a => a.id === t.artifactId)
+                  : undefined;
+              const component = t.kind === 'library' ? savedComponents.find(c => c.id === t.componentId) : undefined;
+              return {
+                  target: t,
+                  styleName: artifact?.styleName ?? component?.styleName ?? '',
+                  versionId: artifact ? getCurrentVersion(artifact)?.id : component?.versionId
+              };
+          }),
+          winnerIndex: compareTargets.indexOf(target),
+          winnerComponentId
+      };
+
+      setCompareWinnerKey(key);
+      try {
+          await saveComparison(comparison);
+          setComparisons(prev => [comparison, ...prev]);
+      } catch (e) {
+          console.error('Failed to record comparison:', e);
+      }
+      refreshLibrary();
+  }, [compareTargets, compareWinnerKey, sessions, savedComponents, refreshLibrary]);
+
   const handleComponentSelect = useCallback((component: SavedComponent) => {
       // Find the session and artifact, or create a new session with this component
       const sessionIndex = sessions.findIndex(s => s.id === component.sessionId);
@@ -1404,10 +1749,10 @@ Return ONLY RAW HTML. No markdown fences.
   };
 
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
-    if (event.key === 'Enter' && !isLoading) {
+    if (event.key === 'Enter') {
       event.preventDefault();
       handleSendMessage();
-    } else if (event.key === 'Tab' && !inputValue && !isLoading) {
+    } else if (event.key === 'Tab' && !inputValue) {
         event.preventDefault();
         setInputValue(placeholders[placeholderIndex]);
     }
@@ -1415,11 +1760,12 @@ Return ONLY RAW HTML. No markdown fences.
 
   const nextItem = useCallback(() => {
       if (focusedArtifactIndex !== null) {
-          if (focusedArtifactIndex < 4) setFocusedArtifactIndex(focusedArtifactIndex + 1);
+          const artifactTotal = sessions[currentSessionIndex]?.artifacts.length ?? 0;
+          if (focusedArtifactIndex < artifactTotal - 1) setFocusedArtifactIndex(focusedArtifactIndex + 1);
       } else {
           if (currentSessionIndex < sessions.length - 1) setCurrentSessionIndex(currentSessionIndex + 1);
       }
-  }, [currentSessionIndex, sessions.length, focusedArtifactIndex]);
+  }, [currentSessionIndex, sessions, focusedArtifactIndex]);
 
   const prevItem = useCallback(() => {
       if (focusedArtifactIndex !== null) {
@@ -1429,9 +1775,40 @@ Return ONLY RAW HTML. No markdown fences.
       }
   }, [currentSessionIndex, focusedArtifactIndex]);
 
-  const isLoadingDrawer = isLoading && drawerState.mode === 'variations' && componentVariations.length === 0;
+  // Reruns the slots of a failed job that ended in an error
+  const handleRetryJob = useCallback((queued: QueuedJob) => {
+      const job = jobQueue.getJob(queued.id);
+      const session = sessions.find(s => s.id === queued.sessionId);
+      if (!job || !session) return;
+      const failedIds = queued.failedArtifactIds.filter(id => session.artifacts.find(a => a.id === id)?.status === 'error');
+      const retryJob = createRetryJob(job, session, failedIds);
+      if (!retryJob) return;
+      retryJob.slots.forEach(slot => updateArtifact(session.id, slot.artifactId, {
+          html: '',
+          status: 'streaming',
+          styleName: slot.styleName ?? getPlaceholderName(retryJob.recipe)
+      }));
+      runGenerationJob(retryJob, `Retry: ${queued.label}`);
+  }, [jobQueue, sessions, updateArtifact, runGenerationJob]);
+
+  const handleViewJobSession = useCallback((sessionId: string) => {
+      const index = sessions.findIndex(s => s.id === sessionId);
+      if (index < 0) return;
+      setCurrentSessionIndex(index);
+      setFocusedArtifactIndex(null);
+  }, [sessions]);
+
+  const monthlyCost = useMemo(
+      () => usageRecords.filter(r => isSameMonth(r.timestamp)).reduce((sum, r) => sum + (r.costUsd ?? 0), 0),
+      [usageRecords]
+  );
+  const monthlyBudgetStatus = budgetStatus(monthlyCost, monthlyBudget);
+
+  const isEditingSource = drawerState.isOpen && drawerState.mode === 'code';
+  const isInspecting = drawerState.isOpen && drawerState.mode === 'inspect';
+  const isLoadingDrawer = isExploringVariations && drawerState.mode === 'variations' && componentVariations.length === 0;
 
-  const hasStarted = sessions.length > 0 || isLoading;
+  const hasStarted = sessions.length > 0;
   const currentSession = sessions[currentSessionIndex];
 
   let canGoBack = false;
@@ -1452,10 +1829,19 @@ Return ONLY RAW HTML. No markdown fences.
         <SideDrawer 
             isOpen={drawerState.isOpen} 
             onClose={() => {
+                if (drawerState.mode === 'code' && sourceDraft) {
+                    const artifact = sessions.find(s => s.id === sourceDraft.sessionId)?.artifacts.find(a => a.id === sourceDraft.artifactId);
+                    if (artifact && artifact.html !== sourceDraft.html && !confirm('Discard unsaved source changes?')) return;
+                    setSourceDraft(null);
+                    setSourcePreview(null);
+                }
                 setDrawerState(s => ({...s, isOpen: false}));
                 setCopySuccess(false); // Reset copy success state when closing
+                variationsControllerRef.current?.abort(); // Nobody is watching the variations stream anymore
             }} 
             title={drawerState.title}
+            wide={drawerState.mode === 'code' || drawerState.mode === 'responsive' || drawerState.mode === 'batch' || drawerState.mode === 'blend'}
+            modeless={drawerState.mode === 'inspect'}
         >
             {isLoadingDrawer && (
                  <div className="loading-state">
@@ -1464,19 +1850,145 @@ Return ONLY RAW HTML. No markdown fences.
                  </div>
             )}
 
-            {drawerState.mode === 'code' && (
-                <div className="code-block-wrapper">
-                    <button 
-                        className={`copy-code-button ${copySuccess ? 'copied' : ''}`}
-                        onClick={handleCopyCode}
-                        aria-label="Copy code"
-                    >
-                        <CopyIcon /> {copySuccess ? 'Copied!' : 'Copy Code'}
-                    </button>
-                    <pre className="code-block"><code>{drawerState.data}</code></pre>
-                </div>
-            )}
+            {drawerState.mode === 'code' && sourceDraft && (() => {
+                const artifact = sessions.find(s => s.id === sourceDraft.sessionId)?.artifacts.find(a => a.id === sourceDraft.artifactId);
+                if (!artifact) return null;
+                return (
+                    <SourceEditor
+                        value={sourceDraft.html}
+                        savedHtml={artifact.html}
+                        previewHtml={sourcePreview ?? sourceDraft.html}
+                        onChange={(html) => setSourceDraft(draft => draft && { ...draft, html })}
+                        onSave={handleSaveSource}
+                        onCopy={handleCopyCode}
+                        copySuccess={copySuccess}
+                        readOnly={artifact.status === 'streaming'}
+                    />
+                );
+            })()}
             
+            {drawerState.mode === 'export' && drawerState.data && (
+                <ExportPanel
+                    html={drawerState.data.html}
+                    styleName={drawerState.data.styleName}
+                    modelId={selectedModelId}
+                    onUsage={(usage) => recordUsage(usage, { modelId: selectedModelId, flow: 'export', sessionId: drawerState.data.sessionId, artifactId: drawerState.data.artifactId })}
+                />
+            )}
+
+            {drawerState.mode === 'tokens' && drawerState.data && (
+                <TokensPanel tokens={drawerState.data.tokens} styleName={drawerState.data.styleName} />
+            )}
+
+            {drawerState.mode === 'responsive' && drawerState.data && (() => {
+                const { sessionId, artifactId } = drawerState.data;
+                const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+                if (!artifact) return null;
+                // Don't reload every frame on each streamed chunk of a fix
+                if (artifact.status === 'streaming') {
+                    return (
+                        <div className="loading-state">
+                            <ThinkingIcon /> Updating layout...
+                        </div>
+                    );
+                }
+                return (
+                    <ResponsivePreview
+                        html={artifact.html}
+                        onMakeResponsive={(reports) => handleMakeResponsive(sessionId, artifactId, reports)}
+                        disabled={artifact.status !== 'complete'}
+                    />
+                );
+            })()}
+
+            {drawerState.mode === 'refine' && drawerState.data && (() => {
+                const { sessionId, artifactId } = drawerState.data;
+                const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+                if (!artifact) return null;
+                return (
+                    <RefinePanel
+                        conversation={artifact.conversation ?? []}
+                        versions={getArtifactVersions(artifact)}
+                        isStreaming={artifact.status === 'streaming'}
+                        onSend={(request) => handleRefineArtifact(sessionId, artifactId, request)}
+                        onStop={() => handleCancelArtifact(artifactId)}
+                        onRevert={(versionId) => handleRevertVersion(sessionId, artifactId, versionId)}
+                        disabled={artifact.status !== 'complete' && artifact.status !== 'streaming'}
+                    />
+                );
+            })()}
+
+            {drawerState.mode === 'inspect' && drawerState.data && (() => {
+                const { sessionId, artifactId } = drawerState.data;
+                const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+                if (!artifact) return null;
+                return (
+                    <ElementInspector
+                        element={inspectedElement}
+                        onApply={(request) => inspectedElement
+                            ? handleEditElement(sessionId, artifactId, inspectedElement, request)
+                            : Promise.resolve()}
+                        onStop={() => handleCancelArtifact(artifactId)}
+                        disabled={artifact.status !== 'complete'}
+                    />
+                );
+            })()}
+
+            {drawerState.mode === 'blend' && (
+                blendSources.length >= 2 ? (
+                    <BlendPanel
+                        sources={blendSources}
+                        defaultCount={artifactCount}
+                        onGenerate={handleBlendStyles}
+                        onRemoveSource={(index) => setBlendSelection(prev => prev.filter(id => id !== blendArtifacts[index]?.id))}
+                    />
+                ) : (
+                    <p className="blend-panel-empty">Select at least two finished designs in the current session to blend them.</p>
+                )
+            )}
+
+            {drawerState.mode === 'batch' && (
+                <BatchPanel
+                    run={batchRun}
+                    presets={stylePresets}
+                    models={models}
+                    defaultModelId={selectedModelId}
+                    progress={Object.fromEntries(sessions
+                        .filter(s => batchRun?.rows.some(row => row.sessionId === s.id))
+                        .map(s => [s.id, { finished: s.artifacts.filter(a => a.status !== 'streaming').length, total: s.artifacts.length }]))}
+                    onStart={handleStartBatch}
+                    onCancel={handleCancelBatch}
+                    onViewSession={handleViewBatchSession}
+                    onSaveToCollection={handleSaveBatchToCollection}
+                    onReset={() => setBatchRun(null)}
+                />
+            )}
+
+            {drawerState.mode === 'usage' && (
+                <UsagePanel
+                    records={usageRecords}
+                    currentSession={sessions[currentSessionIndex]}
+                    budget={monthlyBudget}
+                    onBudgetChange={setMonthlyBudget}
+                />
+            )}
+
+            {drawerState.mode === 'history' && drawerState.data && (() => {
+                // Read the artifact live so reverts and pins show up without reopening the drawer
+                const { sessionId, artifactId } = drawerState.data;
+                const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+                if (!artifact?.versions?.length) return null;
+                return (
+                    <HistoryPanel
+                        versions={artifact.versions}
+                        pinnedVersionId={savedComponents.find(c => c.artifactId === artifactId && c.sessionId === sessionId)?.versionId}
+                        onRevert={(versionId) => handleRevertVersion(sessionId, artifactId, versionId)}
+                        onPin={(versionId) => handlePinVersion(sessionId, artifactId, versionId)}
+                        disabled={artifact.status === 'streaming'}
+                    />
+                );
+            })()}
+
             {drawerState.mode === 'variations' && (
                 <>
                     {drawerState.data?.error ? (
@@ -1513,6 +2025,8 @@ Return ONLY RAW HTML. No markdown fences.
                     onCollectionUpdate={handleUpdateCollection}
                     onCollectionDelete={handleDeleteCollection}
                     onClose={() => setDrawerState(s => ({...s, isOpen: false}))}
+                    compareIds={compareTargets.flatMap(t => t.kind === 'library' ? [t.componentId] : [])}
+                    onToggleCompare={(component) => handleToggleCompare({ kind: 'library', componentId: component.id })}
                     initialFilter={drawerState.data?.filter === 'favorites' ? 'favorites' : 'all'}
                 />
             )}
@@ -1569,7 +2083,7 @@ Return ONLY RAW HTML. No markdown fences.
                      <div className="empty-content">
                          <h1>Flash UI</h1>
                          <p>Creative UI generation in a flash</p>
-                         <button className="surprise-button" onClick={handleSurpriseMe} disabled={isLoading}>
+                         <button className="surprise-button" onClick={handleSurpriseMe}>
                              <SparklesIcon /> Surprise Me
                          </button>
                      </div>
@@ -1587,19 +2101,21 @@ Return ONLY RAW HTML. No markdown fences.
 
                     return (
                         <div key={session.id} className={`session-group ${positionClass}`}>
-                            <div className="artifact-grid" ref={sIndex === currentSessionIndex ? gridScrollRef : null}>
+                            <div className="artifact-grid" style={gridColumnsStyle(visibleArtifacts.length)} ref={sIndex === currentSessionIndex ? gridScrollRef : null}>
                                 {visibleArtifacts.map((artifact) => {
                                     const aIndex = session.artifacts.findIndex(a => a.id === artifact.id);
                                     const isFocused = focusedArtifactIndex === aIndex;
                                     const isSaved = isComponentSaved(artifact.id, session.id);
                                     const isSelected = blendSelection.includes(artifact.id);
+                                    const compareTarget: CompareTarget = { kind: 'artifact', sessionId: session.id, artifactId: artifact.id };
+                                    const isCompared = compareTargets.some(t => compareTargetKey(t) === compareTargetKey(compareTarget));
                                     const savedComponent = savedComponents.find(
                                         c => c.artifactId === artifact.id && c.sessionId === session.id
                                     );
                                     const isFavorite = savedComponent?.isFavorite || false;
 
                                     return (
-                                        <div key={artifact.id} className={`artifact-card-wrapper ${isSelected ? 'blend-selected' : ''}`}>
+                                        <div key={artifact.id} className={`artifact-card-wrapper ${isSelected ? 'blend-selected' : ''} ${isCompared ? 'compare-selected' : ''}`}>
                                             {sIndex === currentSessionIndex && artifact.status === 'complete' && (
                                                 <button
                                                     className={`blend-toggle ${isSelected ? 'selected' : ''}`}
@@ -1612,6 +2128,18 @@ Return ONLY RAW HTML. No markdown fences.
                                                     {isSelected ? <CheckIcon /> : <BlendIcon />}
                                                 </button>
                                             )}
+                                            {sIndex === currentSessionIndex && artifact.status === 'complete' && (
+                                                <button
+                                                    className={`compare-toggle ${isCompared ? 'selected' : ''}`}
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        handleToggleCompare(compareTarget);
+                                                    }}
+                                                    title={isCompared ? 'Remove from compare' : 'Add to compare'}
+                                                >
+                                                    {isCompared ? <CheckIcon /> : <CompareIcon />}
+                                                </button>
+                                            )}
                                             {sIndex === currentSessionIndex && (
                                                 <button
                                                     className="hide-button"
@@ -1630,8 +2158,14 @@ Return ONLY RAW HTML. No markdown fences.
                                                 onClick={() => setFocusedArtifactIndex(aIndex)}
                                                 onSaveToLibrary={() => handleSaveToLibrary(artifact.id, session.id)}
                                                 onFavorite={() => handleSaveAndFavorite(artifact.id, session.id)}
+                                                onCancel={() => handleCancelArtifact(artifact.id)}
+                                                onRegenerate={(newStyle) => handleRegenerateArtifact(session.id, artifact.id, newStyle)}
+                                                onFixAccessibility={(issues) => handleFixAccessibility(session.id, artifact.id, issues)}
                                                 isSaved={isSaved}
                                                 isFavorite={isFavorite}
+                                                previewHtml={isEditingSource && sourceDraft?.artifactId === artifact.id ? sourcePreview ?? undefined : undefined}
+                                                isInspecting={isInspecting && drawerState.data?.artifactId === artifact.id}
+                                                onInspectElement={setInspectedElement}
                                             />
                                         </div>
                                     );
@@ -1669,13 +2203,12 @@ Return ONLY RAW HTML. No markdown fences.
                         wordSuggestion={wordSuggestion}
                         onSuggestionSelect={handleWordReplace}
                         onSuggestionClose={() => setWordSuggestion(null)}
-                        disabled={isLoading}
                     />
                  )}
 
                  {/* Regenerate button - shows when prompt has been modified */}
                  {editedPrompt && editedPrompt !== currentSession?.prompt && (
-                    <button className="regenerate-button" onClick={handleRegenerateWithEdits} disabled={isLoading}>
+                    <button className="regenerate-button" onClick={handleRegenerateWithEdits}>
                         <RefreshIcon /> Regenerate
                     </button>
                  )}
@@ -1688,22 +2221,52 @@ Return ONLY RAW HTML. No markdown fences.
                     {/* Lock Style toggle button */}
                     <button
                         className={lockedStyle ? 'active' : ''}
-                        disabled={isLoading}
+                        disabled={!lockedStyle && currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status !== 'complete'}
                         onClick={() => lockedStyle ? handleUnlockStyle() : handleLockStyle()}
                         title={lockedStyle ? `Style locked: ${lockedStyle.styleName}. Click to unlock.` : 'Lock this design\'s style for new generations'}
                     >
                         <StyleIcon /> {lockedStyle ? 'Style Locked' : 'Lock Style'}
                     </button>
 
-                    <button onClick={handleGenerateVariations} disabled={isLoading}>
+                    <button onClick={handleGenerateVariations} disabled={isExploringVariations || currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status === 'streaming'}>
                         <SparklesIcon /> Explore UX
                     </button>
-                    <button onClick={handleMoreLikeThis} disabled={isLoading}>
+                    <button onClick={handleMoreLikeThis} disabled={currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status !== 'complete'}>
                         <MoreLikeThisIcon /> Similar Styles
                     </button>
                     <button onClick={handleShowCode}>
                         <CodeIcon /> Source
                     </button>
+                    <button onClick={handleShowExport} disabled={currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status !== 'complete'}>
+                        <DownloadIcon /> Export
+                    </button>
+                    <button onClick={handleShowTokens} disabled={currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status !== 'complete'}>
+                        <PaletteIcon /> Tokens
+                    </button>
+                    <button onClick={handleShowHistory} disabled={currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status !== 'complete'}>
+                        <HistoryIcon /> History
+                    </button>
+                    <button onClick={handleShowResponsive} disabled={currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status !== 'complete'}>
+                        <DevicesIcon /> Responsive
+                    </button>
+                    <button onClick={handleShowRefine} disabled={currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status !== 'complete'}>
+                        <ChatIcon /> Refine
+                    </button>
+                    <button onClick={handleShowInspect} disabled={currentSession?.artifacts[focusedArtifactIndex ?? -1]?.status !== 'complete'}>
+                        <InspectIcon /> Inspect
+                    </button>
+                    {focusedArtifactIndex !== null && currentSession && (() => {
+                        const artifact = currentSession.artifacts[focusedArtifactIndex];
+                        return (
+                            <button
+                                onClick={() => handleRegenerateArtifact(currentSession.id, artifact.id, false)}
+                                disabled={artifact.status === 'streaming'}
+                                title="Regenerate this design in the same style"
+                            >
+                                <RefreshIcon /> Redo
+                            </button>
+                        );
+                    })()}
 
                     {/* Favorite button - inline with other action buttons */}
                     {focusedArtifactIndex !== null && currentSession && (() => {
@@ -1731,14 +2294,14 @@ Return ONLY RAW HTML. No markdown fences.
                     })()}
                  </div>
 
-                 {/* Blend Styles button - shows when 2 designs are selected */}
-                 {blendSelection.length === 2 && (
-                    <button className="blend-button" onClick={handleBlendStyles} disabled={isLoading}>
-                        <BlendIcon /> Blend Selected ({blendSelection.length}/2)
+                 {/* Blend Styles button - shows once 2 or more designs are selected */}
+                 {blendSelection.length >= 2 && (
+                    <button className="blend-button" onClick={handleShowBlend}>
+                        <BlendIcon /> Blend Selected ({blendSelection.length}/{MAX_BLEND_SOURCES})
                     </button>
                  )}
                  {blendSelection.length === 1 && (
-                    <div className="blend-hint">Select one more design to blend</div>
+                    <div className="blend-hint">Select at least one more design to blend</div>
                  )}
             </div>
 
@@ -1746,12 +2309,40 @@ Return ONLY RAW HTML. No markdown fences.
             {lockedStyle && (
                 <div className="style-locked-indicator">
                     <StyleIcon /> Style locked: {lockedStyle.styleName}
+                    {currentSession && (
+                        <button
+                            onClick={handleRemixLayout}
+                            className="remix-layout-button"
+                            title="Keep this style and try different layouts for the current prompt"
+                        >
+                            Remix layout
+                        </button>
+                    )}
                     <button onClick={handleUnlockStyle} className="unlock-button">×</button>
                 </div>
             )}
 
             {/* Top-right controls */}
             <div className="top-right-controls">
+                <button
+                    className={`library-toggle usage-toggle ${monthlyBudgetStatus}`}
+                    onClick={() => setDrawerState({ isOpen: true, mode: 'usage', title: 'Usage & Cost', data: null })}
+                    title={monthlyBudgetStatus === 'exceeded' ? 'Monthly budget exceeded' : monthlyBudgetStatus === 'warning' ? 'Nearing monthly budget' : 'Usage & cost'}
+                >
+                    <UsageIcon />
+                </button>
+                <button
+                    className={`library-toggle batch-toggle ${batchRun && !batchRun.finishedAt ? 'running' : ''}`}
+                    onClick={() => setDrawerState({ isOpen: true, mode: 'batch', title: 'Batch Generate', data: null })}
+                    title="Batch generate from a list or CSV"
+                >
+                    <BatchIcon />
+                    {batchRun && !batchRun.finishedAt && (
+                        <span className="library-count">
+                            {batchRun.rows.filter(r => r.status !== 'queued' && r.status !== 'running').length}/{batchRun.rows.length}
+                        </span>
+                    )}
+                </button>
                 <div className="library-dropdown">
                     <button
                         className={`library-toggle ${savedComponents.length > 0 ? 'has-items' : ''}`}
@@ -1788,39 +2379,107 @@ Return ONLY RAW HTML. No markdown fences.
                 </div>
             </div>
 
+            {compareTargets.length > 0 && !isCompareOpen && (
+                <div className="compare-bar">
+                    <CompareIcon />
+                    <span>{compareTargets.length}/{MAX_COMPARE_ITEMS} picked</span>
+                    <button className="compare-bar-open" onClick={handleOpenCompare} disabled={compareItems.length < 2}>
+                        {compareItems.length < 2 ? 'Pick one more' : 'Compare'}
+                    </button>
+                    <button className="compare-bar-clear" onClick={() => setCompareTargets([])} aria-label="Clear compare picks">
+                        <XIcon />
+                    </button>
+                </div>
+            )}
+
+            {isCompareOpen && compareItems.length >= 2 && (
+                <CompareView
+                    items={compareItems}
+                    winnerKey={compareWinnerKey}
+                    onPickWinner={handlePickCompareWinner}
+                    onRemove={(key) => setCompareTargets(prev => prev.filter(t => compareTargetKey(t) !== key))}
+                    onClose={handleCloseCompare}
+                />
+            )}
+
+            <JobTray
+                jobs={queuedJobs}
+                onCancel={jobQueue.cancelJob}
+                onRetry={handleRetryJob}
+                onView={handleViewJobSession}
+                onClearFinished={jobQueue.clearFinished}
+            />
+
             <div className="floating-input-container">
-                <div className={`input-wrapper ${isLoading ? 'loading' : ''}`}>
-                    {(!inputValue && !isLoading) && (
+                {attachedImages.length > 0 && (
+                    <div className="image-attachments">
+                        {attachedImages.map((image, i) => (
+                            <div key={i} className="image-attachment">
+                                <img src={imagePartToDataUrl(image)} alt={`Attachment ${i + 1}`} />
+                                <button onClick={() => handleRemoveImage(i)} aria-label={`Remove attachment ${i + 1}`}>
+                                    <XIcon />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className={`input-wrapper ${attachedImages.length > 0 ? 'has-images' : ''}`}>
+                    <button
+                        className="attach-button"
+                        onClick={() => imageInputRef.current?.click()}
+                        disabled={attachedImages.length >= MAX_IMAGES}
+                        aria-label="Attach screenshot or mockup"
+                        title="Attach a screenshot or mockup (or paste one)"
+                    >
+                        <ImageIcon />
+                    </button>
+                    <input
+                        ref={imageInputRef}
+                        type="file"
+                        accept="image/png,image/jpeg,image/webp,image/gif"
+                        multiple
+                        hidden
+                        onChange={handleImageInputChange}
+                    />
+                    {!inputValue && (
                         <div className="animated-placeholder" key={placeholderIndex}>
                             <span className="placeholder-text">{placeholders[placeholderIndex]}</span>
                             <span className="tab-hint">Tab</span>
                         </div>
                     )}
-                    {!isLoading ? (
-                        <input 
-                            ref={inputRef}
-                            type="text" 
-                            value={inputValue} 
-                            onChange={handleInputChange} 
-                            onKeyDown={handleKeyDown} 
-                            disabled={isLoading} 
-                        />
-                    ) : (
-                        <div className="input-generating-label">
-                            <span className="generating-prompt-text">{currentSession?.prompt}</span>
-                            <ThinkingIcon />
-                        </div>
-                    )}
-                    <button className="send-button" onClick={() => handleSendMessage()} disabled={isLoading || !inputValue.trim()}>
+                    <input 
+                        ref={inputRef}
+                        type="text" 
+                        value={inputValue} 
+                        onChange={handleInputChange} 
+                        onKeyDown={handleKeyDown} 
+                        onPaste={handleInputPaste}
+                    />
+                    <button className="send-button" onClick={() => handleSendMessage()} disabled={!inputValue.trim() && attachedImages.length === 0}>
                         <ArrowUpIcon />
                     </button>
                 </div>
+                <div className="model-selector-inline">
+                    <StylePresetPicker
+                        presets={stylePresets}
+                        activePresetId={activeStylePresetId}
+                        lockedStyle={lockedStyle}
+                        onApply={handleApplyStylePreset}
+                        onClear={handleUnlockStyle}
+                        onSave={handleSaveStylePreset}
+                        onDelete={handleDeleteStylePreset}
+                    />
+                </div>
                 <div className="model-selector-inline">
                     <ModelSelector
+                        models={models}
                         selectedModelId={selectedModelId}
                         onModelChange={setSelectedModelId}
                     />
                 </div>
+                <div className="model-selector-inline">
+                    <ArtifactCountPicker count={artifactCount} onChange={setArtifactCount} />
+                </div>
             </div>
         </div>
     </>
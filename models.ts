@@ -3,7 +3,20 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export type ModelProvider = 'gemini' | 'claude' | 'openai';
+export type ModelProvider = 'gemini' | 'claude' | 'openai' | 'local' | 'mock';
+
+// What a model can do, as reported by GET /api/models
+export interface ModelCapabilities {
+  vision: boolean;
+  maxOutputTokens?: number;
+  temperature: { min: number; max: number };
+}
+
+/** List price in USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
 
 export interface AIModel {
   id: string;
@@ -11,9 +24,16 @@ export interface AIModel {
   provider: ModelProvider;
   description: string;
   apiKeyEnv?: string;
+  /** Static entries default to true; the server sets it from the keys it actually has */
   available: boolean;
+  /** Why the model can't be used right now, e.g. a missing API key */
+  unavailableReason?: string;
+  maxOutputTokens?: number;
+  pricing?: ModelPricing;
+  capabilities?: ModelCapabilities;
 }
 
+// Pricing is the providers' list price at the time each model was added
 export const AVAILABLE_MODELS: AIModel[] = [
   // Google Gemini 3 Models (December 2025)
   // Gemini 3 series now available in preview
@@ -23,7 +43,9 @@ export const AVAILABLE_MODELS: AIModel[] = [
     provider: 'gemini',
     description: 'Latest Gemini, fast frontier-class performance (default)',
     apiKeyEnv: 'GEMINI_API_KEY',
-    available: true
+    available: true,
+    maxOutputTokens: 65536,
+    pricing: { input: 0.5, output: 3 }
   },
   {
     id: 'gemini-3-pro-preview',
@@ -31,7 +53,9 @@ export const AVAILABLE_MODELS: AIModel[] = [
     provider: 'gemini',
     description: 'Most capable Gemini 3, best for complex tasks',
     apiKeyEnv: 'GEMINI_API_KEY',
-    available: true
+    available: true,
+    maxOutputTokens: 65536,
+    pricing: { input: 2, output: 12 }
   },
 
   // Anthropic Claude 4.5 Models (December 2025)
@@ -41,7 +65,9 @@ export const AVAILABLE_MODELS: AIModel[] = [
     provider: 'claude',
     description: 'Flagship model, best for complex agentic tasks',
     apiKeyEnv: 'ANTHROPIC_API_KEY',
-    available: true
+    available: true,
+    maxOutputTokens: 64000,
+    pricing: { input: 5, output: 25 }
   },
   {
     id: 'claude-sonnet-4-5',
@@ -49,7 +75,9 @@ export const AVAILABLE_MODELS: AIModel[] = [
     provider: 'claude',
     description: 'Fast and capable, great balance of speed/quality',
     apiKeyEnv: 'ANTHROPIC_API_KEY',
-    available: true
+    available: true,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15 }
   },
   {
     id: 'claude-haiku-4-5',
@@ -57,7 +85,9 @@ export const AVAILABLE_MODELS: AIModel[] = [
     provider: 'claude',
     description: 'Fastest Claude, optimized for low latency',
     apiKeyEnv: 'ANTHROPIC_API_KEY',
-    available: true
+    available: true,
+    maxOutputTokens: 64000,
+    pricing: { input: 1, output: 5 }
   },
 
   // OpenAI Models (December 2025)
@@ -67,14 +97,48 @@ export const AVAILABLE_MODELS: AIModel[] = [
     provider: 'openai',
     description: 'GPT-5.2 Thinking - primary reasoning model for professional work',
     apiKeyEnv: 'OPENAI_API_KEY',
-    available: true
+    available: true,
+    maxOutputTokens: 128000,
+    pricing: { input: 1.75, output: 14 }
   }
 ];
 
+// Offline development: recorded fixtures or canned responses, no API key or credits needed.
+// Kept out of AVAILABLE_MODELS so the client only offers it once /api/models says it can run.
+export const MOCK_MODEL: AIModel = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  provider: 'mock',
+  description: 'Replays recorded or canned responses without calling a model',
+  available: true
+};
+
 export const DEFAULT_MODEL = 'gemini-3-flash-preview';
 
+// Models served by a self-hosted OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM).
+// They aren't listed above: the server discovers them, and their ids carry this prefix.
+export const LOCAL_MODEL_PREFIX = 'local:';
+
+export function localModel(name: string, description = 'Self-hosted model'): AIModel {
+  return {
+    id: `${LOCAL_MODEL_PREFIX}${name}`,
+    name,
+    provider: 'local',
+    description,
+    apiKeyEnv: 'LOCAL_LLM_BASE_URL',
+    available: true
+  };
+}
+
 export function getModelById(id: string): AIModel | undefined {
-  return AVAILABLE_MODELS.find(m => m.id === id);
+  const model = AVAILABLE_MODELS.find(m => m.id === id);
+  if (model) return model;
+  if (id === MOCK_MODEL.id) return MOCK_MODEL;
+  // Discovered models aren't known up front; the prefix alone is enough to route them
+  if (id?.startsWith(LOCAL_MODEL_PREFIX) && id.length > LOCAL_MODEL_PREFIX.length) {
+    return localModel(id.slice(LOCAL_MODEL_PREFIX.length));
+  }
+  return undefined;
 }
 
 export function getModelsByProvider(provider: ModelProvider): AIModel[] {
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import Anthropic from '@anthropic-ai/sdk';
+import { toClaudeContent } from '../images';
+import { normalizeProviderError } from './errors';
+import type { CompletionRequest, LLMProvider } from './types';
+
+// Claude requires max_tokens; a full page of HTML fits comfortably
+const MAX_TOKENS = 8192;
+
+function createClient() {
+  return new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+}
+
+function toParams({ model, prompt, images, temperature }: CompletionRequest) {
+  return {
+    model,
+    max_tokens: MAX_TOKENS,
+    temperature,
+    messages: [{ role: 'user' as const, content: toClaudeContent(prompt, images) }]
+  };
+}
+
+export const claudeProvider: LLMProvider = {
+  id: 'claude',
+  label: 'Claude',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  billingUrl: 'console.anthropic.com',
+  capabilities: { streaming: true, images: true, maxTemperature: 1, abortable: true, maxOutputTokens: MAX_TOKENS },
+
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+
+  async *stream(request: CompletionRequest) {
+    const stream = await createClient().messages.stream(toParams(request), { signal: request.signal });
+    let inputTokens = 0;
+    let outputTokens = 0;
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield { text: event.delta.text };
+      } else if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage.output_tokens;
+      }
+    }
+    yield { usage: { inputTokens, outputTokens } };
+  },
+
+  async complete(request: CompletionRequest) {
+    const response = await createClient().messages.create(toParams(request), { signal: request.signal });
+    const text = response.content.find(c => c.type === 'text') as { type: 'text'; text: string } | undefined;
+    return {
+      text: text?.text || '',
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+    };
+  },
+
+  normalizeError(error) {
+    return normalizeProviderError(error, this);
+  }
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LLMProvider, ProviderError } from './types';
+
+type ProviderInfo = Pick<LLMProvider, 'label' | 'apiKeyEnv' | 'billingUrl'>;
+
+// Maps SDK errors, whose shapes differ per provider, onto a status and a message the user can act on
+export function normalizeProviderError(error: any, provider: ProviderInfo): ProviderError {
+  const errorMessage: string = error?.message || error?.error?.message || String(error);
+  const statusCode: number = error?.status || error?.statusCode || 500;
+  const { label } = provider;
+
+  if (errorMessage.includes('API key') || errorMessage.includes('api_key') || errorMessage.includes('unauthorized') || statusCode === 401) {
+    return { status: 401, message: `Invalid or missing ${label} API key. Check ${provider.apiKeyEnv} in your environment (.env.local for the dev server).` };
+  }
+  if (errorMessage.includes('quota') || errorMessage.includes('rate limit') || errorMessage.includes('Rate limit') || statusCode === 429) {
+    return { status: 429, message: `${label} rate limit exceeded. Please wait a moment and try again.` };
+  }
+  if (errorMessage.includes('not found') || errorMessage.includes('does not exist') || errorMessage.includes('Could not find model') || statusCode === 404) {
+    return { status: 404, message: `Model not found. The model ID may be incorrect or the model may not be available in your region.` };
+  }
+  if (errorMessage.includes('context length') || errorMessage.includes('too long') || errorMessage.includes('maximum')) {
+    return { status: 400, message: `Request too large. Try a shorter prompt or reduce the content.` };
+  }
+  if (errorMessage.includes('billing') || errorMessage.includes('payment') || errorMessage.includes('insufficient')) {
+    return { status: 402, message: `${label} billing issue. Check your account at ${provider.billingUrl}` };
+  }
+  if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT') || errorMessage.includes('ECONNRESET')) {
+    return { status: 504, message: `Request timed out. The ${label} API is slow or unreachable. Try again.` };
+  }
+
+  return { status: statusCode >= 400 ? statusCode : 500, message: `${label} error: ${errorMessage}` };
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Recorded provider responses: written in record mode (LLM_RECORD=1), replayed by the mock provider.
+// One JSON file per prompt, named after a hash of it, under LLM_FIXTURES_DIR (default fixtures/llm).
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { TokenUsage } from '../types';
+import type { CompletionRequest, CompletionResult, LLMProvider, ProviderChunk } from './types';
+
+export interface FixtureChunk {
+  text: string;
+  /** Time since the previous chunk (or since the request, for the first one) */
+  delayMs: number;
+}
+
+export interface Fixture {
+  key: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  /** Start of the prompt, so a fixture can be recognised without hashing */
+  promptPreview: string;
+  chunks: FixtureChunk[];
+  usage?: TokenUsage;
+}
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+function fixturesDir(): string {
+  return process.env.LLM_FIXTURES_DIR || join(process.cwd(), 'fixtures', 'llm');
+}
+
+// Replay matches on the prompt alone, so a fixture recorded with one model serves them all
+export function fixtureKey(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
+
+export function isRecording(): boolean {
+  return !!process.env.LLM_RECORD;
+}
+
+export function loadFixture(prompt: string): Fixture | undefined {
+  const file = join(fixturesDir(), `${fixtureKey(prompt)}.json`);
+  if (!existsSync(file)) return undefined;
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    console.error(`Ignoring unreadable fixture ${file}:`, error);
+    return undefined;
+  }
+}
+
+function saveFixture(provider: LLMProvider, request: CompletionRequest, chunks: FixtureChunk[], usage?: TokenUsage) {
+  const key = fixtureKey(request.prompt);
+  const fixture: Fixture = {
+    key,
+    provider: provider.id,
+    model: request.model,
+    recordedAt: new Date().toISOString(),
+    promptPreview: request.prompt.slice(0, PROMPT_PREVIEW_LENGTH),
+    chunks,
+    usage
+  };
+  try {
+    mkdirSync(fixturesDir(), { recursive: true });
+    writeFileSync(join(fixturesDir(), `${key}.json`), JSON.stringify(fixture, null, 2));
+    console.log(`Recorded fixture ${key} (${chunks.length} chunks from ${request.model})`);
+  } catch (error) {
+    console.error(`Failed to record fixture ${key}:`, error);
+  }
+}
+
+// Passes a live stream through unchanged, keeping its chunks and timing; only complete streams are saved
+export async function* recordStream(provider: LLMProvider, request: CompletionRequest): AsyncGenerator<ProviderChunk> {
+  const chunks: FixtureChunk[] = [];
+  let usage: TokenUsage | undefined;
+  let last = Date.now();
+  for await (const chunk of provider.stream(request)) {
+    if ('usage' in chunk) {
+      usage = chunk.usage;
+    } else {
+      const now = Date.now();
+      chunks.push({ text: chunk.text, delayMs: now - last });
+      last = now;
+    }
+    yield chunk;
+  }
+  if (!request.signal.aborted) saveFixture(provider, request, chunks, usage);
+}
+
+export async function recordCompletion(provider: LLMProvider, request: CompletionRequest): Promise<CompletionResult> {
+  const started = Date.now();
+  const result = await provider.complete(request);
+  saveFixture(provider, request, [{ text: result.text, delayMs: Date.now() - started }], result.usage);
+  return result;
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI } from '@google/genai';
+import { toGeminiParts } from '../images';
+import { normalizeProviderError } from './errors';
+import type { TokenUsage } from '../types';
+import type { CompletionRequest, LLMProvider } from './types';
+
+function createClient() {
+  return new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+}
+
+// Thinking tokens are billed as output
+function toUsage(metadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number }): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+  };
+}
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  apiKeyEnv: 'GEMINI_API_KEY',
+  billingUrl: 'console.cloud.google.com',
+  capabilities: { streaming: true, images: true, maxTemperature: 2, abortable: false },
+
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+
+  async *stream({ model, prompt, images, temperature, signal }: CompletionRequest) {
+    const responseStream = await createClient().models.generateContentStream({
+      model,
+      contents: [{ parts: toGeminiParts(prompt, images), role: 'user' }],
+      config: { temperature }
+    });
+
+    // @google/genai 0.7 has no abort signal; breaking out of the iterator closes the response body
+    let usage: TokenUsage | undefined;
+    for await (const chunk of responseStream) {
+      if (signal.aborted) return;
+      const text = chunk.text;
+      if (typeof text === 'string') yield { text };
+      // Every chunk carries the running totals; the last one has the final count
+      usage = toUsage(chunk.usageMetadata) ?? usage;
+    }
+    if (usage) yield { usage };
+  },
+
+  async complete({ model, prompt, images, temperature }: CompletionRequest) {
+    const response = await createClient().models.generateContent({
+      model,
+      contents: [{ parts: toGeminiParts(prompt, images), role: 'user' }],
+      config: { temperature }
+    });
+    return { text: response.text || '', usage: toUsage(response.usageMetadata) };
+  },
+
+  normalizeError(error) {
+    return normalizeProviderError(error, this);
+  }
+};
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getModelById, DEFAULT_MODEL } from '../models';
+import { validateImageParts } from '../images';
+import { getProvider, listAllModels } from './registry';
+import { isRecording, recordCompletion, recordStream } from './fixtures';
+
+// Creative default for every provider, clamped to what each one accepts
+const DEFAULT_TEMPERATURE = 1.0;
+
+interface ProviderHandlerOptions {
+  /** Answer with an SSE stream even when the request doesn't set `stream` */
+  alwaysStream?: boolean;
+  /** Prefix for server-side error logs */
+  logLabel: string;
+}
+
+/**
+ * Request handler shared by the Vercel functions and the Express dev server: validates the body,
+ * picks the provider for the requested model and relays its output as JSON or SSE.
+ */
+export function createProviderHandler({ alwaysStream = false, logLabel }: ProviderHandlerOptions) {
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { prompt, model = DEFAULT_MODEL, stream = alwaysStream, temperature, images: rawImages } = req.body;
+
+    if (!prompt) {
+      return res.status(400).json({ error: 'Prompt is required' });
+    }
+
+    let images;
+    try {
+      images = validateImageParts(rawImages);
+    } catch (error: any) {
+      return res.status(error.status || 400).json({ error: error.message });
+    }
+
+    const modelConfig = getModelById(model);
+    if (!modelConfig) {
+      return res.status(400).json({ error: `Unknown model: "${model}". Available models can be found in the model selector.` });
+    }
+
+    const provider = getProvider(modelConfig.provider);
+    if (!provider) {
+      return res.status(400).json({ error: `Unsupported provider: ${modelConfig.provider}` });
+    }
+    if (!provider.isConfigured()) {
+      return res.status(500).json({ error: `${provider.apiKeyEnv} is not configured` });
+    }
+
+    // Stop the upstream stream (and token spend) when the client disconnects mid-generation
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abortController.abort();
+    });
+    const { signal } = abortController;
+
+    const request = {
+      model: modelConfig.id,
+      prompt,
+      images,
+      temperature: Math.min(Math.max(typeof temperature === 'number' ? temperature : DEFAULT_TEMPERATURE, 0), provider.capabilities.maxTemperature),
+      signal
+    };
+
+    // Record mode captures live responses as fixtures for the mock provider to replay
+    const recording = isRecording() && provider.id !== 'mock';
+
+    try {
+      if (!stream) {
+        const { text, usage } = recording ? await recordCompletion(provider, request) : await provider.complete(request);
+        return res.status(200).json({ text, usage });
+      }
+
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+
+      // Usage, when the provider reports it, goes out as its own event just before [DONE]
+      for await (const chunk of recording ? recordStream(provider, request) : provider.stream(request)) {
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      }
+
+      if (!signal.aborted) res.write('data: [DONE]\n\n');
+      res.end();
+    } catch (error: any) {
+      if (signal.aborted) {
+        // Client went away; nobody is listening for an error response
+        return res.end();
+      }
+      console.error(`${logLabel}:`, error);
+      const { status, message } = provider.normalizeError(error);
+      if (res.headersSent) {
+        // Failed mid-stream: the status line is already out, so report it as a final event
+        res.write(`data: ${JSON.stringify({ error: message, status })}\n\n`);
+        return res.end();
+      }
+      return res.status(status).json({ error: message });
+    }
+  };
+}
+
+// Model registry for the selector: availability from configured keys, capabilities, pricing and discovered local models
+export function createModelsHandler() {
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'GET') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ models: await listAllModels() });
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Server-side only: the provider SDKs and API keys never reach the browser bundle
+export type { LLMProvider, CompletionRequest, CompletionResult, ProviderCapabilities, ProviderChunk, ProviderError } from './types';
+export { PROVIDERS, getProvider, listAllModels } from './registry';
+export { normalizeProviderError } from './errors';
+export { fixtureKey, loadFixture } from './fixtures';
+export type { Fixture, FixtureChunk } from './fixtures';
+export { createProviderHandler, createModelsHandler } from './handler';
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Any OpenAI-compatible server (Ollama, llama.cpp server, vLLM), configured with:
+//   LOCAL_LLM_BASE_URL  e.g. http://localhost:11434/v1 (required)
+//   LOCAL_LLM_API_KEY   only if the server checks one
+import OpenAI from 'openai';
+import { AIModel, LOCAL_MODEL_PREFIX, localModel } from '../models';
+import { normalizeProviderError } from './errors';
+import { completeChat, streamChatCompletion } from './openai';
+import type { CompletionRequest, LLMProvider } from './types';
+
+// Discovery runs on every model list request, so an endpoint that's down mustn't hold it up
+const DISCOVERY_TIMEOUT_MS = 3000;
+
+function baseUrl(): string | undefined {
+  return process.env.LOCAL_LLM_BASE_URL?.replace(/\/+$/, '');
+}
+
+function createClient(options: { timeout?: number; maxRetries?: number } = {}) {
+  // The SDK insists on a key; most local servers ignore it
+  return new OpenAI({ baseURL: baseUrl(), apiKey: process.env.LOCAL_LLM_API_KEY || 'local', ...options });
+}
+
+// Model ids reach the server with the routing prefix still on
+function withServerModel(request: CompletionRequest): CompletionRequest {
+  return { ...request, model: request.model.startsWith(LOCAL_MODEL_PREFIX) ? request.model.slice(LOCAL_MODEL_PREFIX.length) : request.model };
+}
+
+export const localProvider: LLMProvider = {
+  id: 'local',
+  label: 'Local model server',
+  apiKeyEnv: 'LOCAL_LLM_BASE_URL',
+  billingUrl: 'your local model server',
+  // Vision depends on the model loaded; text-only models simply ignore or reject images
+  capabilities: { streaming: true, images: true, maxTemperature: 2, abortable: true },
+
+  isConfigured: () => !!baseUrl(),
+
+  stream: (request: CompletionRequest) => streamChatCompletion(createClient(), withServerModel(request)),
+
+  complete: (request: CompletionRequest) => completeChat(createClient(), withServerModel(request)),
+
+  async listModels(): Promise<AIModel[]> {
+    if (!baseUrl()) return [];
+    try {
+      const page = await createClient({ timeout: DISCOVERY_TIMEOUT_MS, maxRetries: 0 }).models.list();
+      const host = new URL(baseUrl()!).host;
+      return page.data
+        .map(model => model.id)
+        .sort((a, b) => a.localeCompare(b))
+        .map(id => localModel(id, `Served by ${host}`));
+    } catch (error) {
+      console.error(`Failed to list models from ${baseUrl()}/models:`, error);
+      return [];
+    }
+  },
+
+  normalizeError(error: any) {
+    const message = String(error?.message || error?.cause?.code || '');
+    if (message.includes('Connection error') || message.includes('ECONNREFUSED') || message.includes('fetch failed')) {
+      return { status: 502, message: `Can't reach the local model server at ${baseUrl()}. Check that it is running and LOCAL_LLM_BASE_URL is right.` };
+    }
+    if (error?.status === 401) {
+      return { status: 401, message: `The local model server rejected the request. Check LOCAL_LLM_API_KEY in your environment.` };
+    }
+    return normalizeProviderError(error, this);
+  }
+};
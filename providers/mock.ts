@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Offline stand-in for a real model: replays a recorded fixture when one matches the prompt,
+// otherwise answers with a canned response shaped like what the prompt asks for.
+// Timing is seeded from the prompt, so the same request always streams the same way.
+// LLM_MOCK_SPEED scales the delays (2 is twice as fast, 0 streams instantly).
+import { CHANGE_SUMMARY_MARKER } from '../generation/prompts';
+import { loadFixture, FixtureChunk } from './fixtures';
+import { normalizeProviderError } from './errors';
+import type { TokenUsage } from '../types';
+import type { CompletionRequest, LLMProvider } from './types';
+
+// Recorded pauses longer than this are cut short; a slow upstream shouldn't slow replay down
+const MAX_REPLAY_DELAY_MS = 2000;
+const FIRST_CHUNK_DELAY_MS = 400;
+
+const CANNED_NAMES = [
+  'Brushed Aluminum Console', 'Wet Ink Broadsheet', 'Frosted Lantern Glow', 'Terracotta Sunroom',
+  'Magnetic Tape Archive', 'Velvet Theatre Curtain', 'Blueprint Drafting Table', 'Sea Glass Shoreline',
+  'Carbon Fiber Cockpit', 'Pressed Linen Ledger', 'Aurora Signal Array', 'Basalt Terrace Garden'
+];
+
+const PALETTES = [
+  { bg: '#0f172a', surface: '#1e293b', text: '#e2e8f0', accent: '#38bdf8' },
+  { bg: '#fdf6ec', surface: '#ffffff', text: '#3b2f2f', accent: '#c2410c' },
+  { bg: '#111111', surface: '#1c1c1c', text: '#f5f5f5', accent: '#a3e635' },
+  { bg: '#eef2ff', surface: '#ffffff', text: '#1e1b4b', accent: '#6366f1' }
+];
+
+function speed(): number {
+  const value = Number(process.env.LLM_MOCK_SPEED ?? 1);
+  return Number.isFinite(value) && value >= 0 ? value : 1;
+}
+
+// Small seeded PRNG (mulberry32) so canned output and timing repeat exactly
+function seededRandom(text: string): () => number {
+  let seed = 0;
+  for (let i = 0; i < text.length; i++) seed = (Math.imul(31, seed) + text.charCodeAt(i)) | 0;
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  const scaled = speed() === 0 ? 0 : ms / speed();
+  if (scaled <= 0 || signal.aborted) return Promise.resolve();
+  return new Promise(resolve => {
+    const timer = setTimeout(done, scaled);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done);
+  });
+}
+
+function firstCodeBlock(prompt: string, language: string): string | undefined {
+  return prompt.match(new RegExp('```' + language + '\\n([\\s\\S]*?)\\n```'))?.[1];
+}
+
+function cannedPage(prompt: string, random: () => number): string {
+  const subject = prompt.match(/for(?: a UI component)?: "([^"]+)"/)?.[1]
+    ?? prompt.match(/same user goal as: "([^"]+)"/)?.[1]
+    ?? 'Mock component';
+  const styleName = prompt.match(/STYLE THEME: (.+?)\*\*/)?.[1]
+    ?? prompt.match(/with this variation: "([^"]+)"/)?.[1]
+    ?? 'Mock Design';
+  const { bg, surface, text, accent } = PALETTES[Math.floor(random() * PALETTES.length)];
+  const items = ['Overview', 'Activity', 'Settings'].map((label, i) => `
+      <li class="card"><span class="dot"></span><div><strong>${label}</strong><p>Canned row ${i + 1}, replayed without calling a model.</p></div></li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${styleName}</title>
+<style>
+  :root { --bg: ${bg}; --surface: ${surface}; --text: ${text}; --accent: ${accent}; }
+  * { box-sizing: border-box; }
+  body { margin: 0; min-height: 100vh; font-family: system-ui, sans-serif; background: var(--bg); color: var(--text); display: grid; place-items: center; padding: 32px; }
+  main { width: min(560px, 100%); background: var(--surface); border-radius: 16px; padding: 28px; box-shadow: 0 20px 50px rgba(0, 0, 0, 0.25); }
+  h1 { margin: 0 0 4px; font-size: 1.5rem; }
+  .eyebrow { color: var(--accent); font-size: 0.75rem; letter-spacing: 0.12em; text-transform: uppercase; }
+  ul { list-style: none; padding: 0; margin: 24px 0; display: grid; gap: 12px; }
+  .card { display: flex; gap: 12px; align-items: flex-start; padding: 14px; border-radius: 10px; border: 1px solid color-mix(in srgb, var(--text) 15%, transparent); transition: transform 0.2s; }
+  .card:hover { transform: translateY(-2px); border-color: var(--accent); }
+  .card p { margin: 4px 0 0; opacity: 0.7; font-size: 0.875rem; }
+  .dot { width: 10px; height: 10px; border-radius: 50%; background: var(--accent); margin-top: 6px; flex-shrink: 0; }
+  button { background: var(--accent); color: var(--bg); border: none; border-radius: 999px; padding: 10px 20px; font-weight: 600; cursor: pointer; }
+</style>
+</head>
+<body>
+  <main>
+    <div class="eyebrow">${styleName}</div>
+    <h1>${subject}</h1>
+    <ul>${items}
+    </ul>
+    <button type="button">Continue</button>
+  </main>
+</body>
+</html>`;
+}
+
+// Answers in the shape each prompt in generation/prompts.ts and App asks for
+function cannedResponse(prompt: string): string {
+  const random = seededRandom(prompt);
+
+  const arrayCount = prompt.match(/JSON array of (\d+)/)?.[1];
+  if (arrayCount) {
+    const offset = Math.floor(random() * CANNED_NAMES.length);
+    const names = Array.from({ length: Number(arrayCount) }, (_, i) => CANNED_NAMES[(offset + i) % CANNED_NAMES.length]);
+    return JSON.stringify(names);
+  }
+  if (prompt.includes('stream ONE object per line')) {
+    return ['Progressive Disclosure', 'Command Palette', 'Split View']
+      .map(name => JSON.stringify({ name, html: cannedPage(prompt, random) }))
+      .join('\n');
+  }
+  if (prompt.includes(CHANGE_SUMMARY_MARKER)) {
+    return `<!-- ${CHANGE_SUMMARY_MARKER} Mock reply, the component is unchanged -->\n${firstCodeBlock(prompt, 'html') ?? cannedPage(prompt, random)}`;
+  }
+  // Cleanup and fix passes hand back their input unchanged
+  return firstCodeBlock(prompt, 'tsx') ?? firstCodeBlock(prompt, 'html') ?? cannedPage(prompt, random);
+}
+
+function cannedChunks(prompt: string): FixtureChunk[] {
+  const random = seededRandom(`timing:${prompt}`);
+  const text = cannedResponse(prompt);
+  const chunks: FixtureChunk[] = [];
+  for (let i = 0; i < text.length;) {
+    const size = 8 + Math.floor(random() * 40);
+    chunks.push({ text: text.slice(i, i + size), delayMs: i === 0 ? FIRST_CHUNK_DELAY_MS : 15 + Math.floor(random() * 45) });
+    i += size;
+  }
+  return chunks;
+}
+
+// Recorded usage when there is some, otherwise the usual rough four characters per token
+function mockResponse(prompt: string): { chunks: FixtureChunk[]; usage: TokenUsage } {
+  const fixture = loadFixture(prompt);
+  const chunks = fixture?.chunks ?? cannedChunks(prompt);
+  const usage = fixture?.usage ?? {
+    inputTokens: Math.ceil(prompt.length / 4),
+    outputTokens: Math.ceil(chunks.reduce((sum, c) => sum + c.text.length, 0) / 4)
+  };
+  return { chunks, usage };
+}
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Mock',
+  apiKeyEnv: 'LLM_MOCK',
+  billingUrl: 'nowhere, mock responses are free',
+  capabilities: { streaming: true, images: true, maxTemperature: 2, abortable: true },
+
+  // Never offered by a production deployment unless mock mode was asked for explicitly
+  isConfigured: () => !!process.env.LLM_MOCK || process.env.NODE_ENV !== 'production',
+
+  async *stream({ prompt, signal }: CompletionRequest) {
+    const { chunks, usage } = mockResponse(prompt);
+    for (const chunk of chunks) {
+      await wait(Math.min(chunk.delayMs, MAX_REPLAY_DELAY_MS), signal);
+      if (signal.aborted) return;
+      yield { text: chunk.text };
+    }
+    yield { usage };
+  },
+
+  async complete({ prompt, signal }: CompletionRequest) {
+    const { chunks, usage } = mockResponse(prompt);
+    await wait(Math.min(chunks.reduce((sum, c) => sum + c.delayMs, 0), MAX_REPLAY_DELAY_MS), signal);
+    return { text: chunks.map(c => c.text).join(''), usage };
+  },
+
+  normalizeError(error) {
+    return normalizeProviderError(error, this);
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import OpenAI from 'openai';
+import { toOpenAIContent } from '../images';
+import { normalizeProviderError } from './errors';
+import type { CompletionRequest, CompletionResult, LLMProvider, ProviderChunk } from './types';
+
+function createClient() {
+  return new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+}
+
+// Chat Completions calls, shared with the local provider since any OpenAI-compatible server speaks them
+export async function* streamChatCompletion(client: OpenAI, { model, prompt, images, temperature, signal }: CompletionRequest): AsyncGenerator<ProviderChunk> {
+  const stream = await client.chat.completions.create({
+    model,
+    messages: [{ role: 'user', content: toOpenAIContent(prompt, images) }],
+    temperature,
+    stream: true,
+    // Servers that don't know the option ignore it, and then there's simply no usage to report
+    stream_options: { include_usage: true }
+  }, { signal });
+
+  for await (const chunk of stream) {
+    const content = chunk.choices[0]?.delta?.content;
+    if (content) yield { text: content };
+    // Usage arrives on a final chunk with no choices
+    if (chunk.usage) yield { usage: { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens } };
+  }
+}
+
+export async function completeChat(client: OpenAI, { model, prompt, images, temperature, signal }: CompletionRequest): Promise<CompletionResult> {
+  const response = await client.chat.completions.create({
+    model,
+    messages: [{ role: 'user', content: toOpenAIContent(prompt, images) }],
+    temperature
+  }, { signal });
+  return {
+    text: response.choices[0]?.message?.content || '',
+    usage: response.usage ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens } : undefined
+  };
+}
+
+export const openaiProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  billingUrl: 'platform.openai.com',
+  capabilities: { streaming: true, images: true, maxTemperature: 2, abortable: true },
+
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+
+  stream: (request: CompletionRequest) => streamChatCompletion(createClient(), request),
+
+  complete: (request: CompletionRequest) => completeChat(createClient(), request),
+
+  normalizeError(error) {
+    return normalizeProviderError(error, this);
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AIModel, AVAILABLE_MODELS, MOCK_MODEL, ModelProvider } from '../models';
+import type { LLMProvider } from './types';
+import { geminiProvider } from './gemini';
+import { claudeProvider } from './claude';
+import { openaiProvider } from './openai';
+import { localProvider } from './local';
+import { mockProvider } from './mock';
+
+// Every provider a model in models.ts can point at; adding a backend means adding it here
+export const PROVIDERS: Record<ModelProvider, LLMProvider> = {
+  gemini: geminiProvider,
+  claude: claudeProvider,
+  openai: openaiProvider,
+  local: localProvider,
+  mock: mockProvider
+};
+
+export function getProvider(id: ModelProvider): LLMProvider | undefined {
+  // LLM_MOCK (the dev server's --mock flag) answers every model offline
+  if (process.env.LLM_MOCK) return mockProvider;
+  return PROVIDERS[id];
+}
+
+// Fills in what only the server knows: whether the provider's key is set and what the provider supports.
+// Mock mode only swaps the transport, so models keep their own provider's capabilities and limits.
+function describeModel(model: AIModel): AIModel {
+  const provider = PROVIDERS[model.provider];
+  if (!provider) {
+    return { ...model, available: false, unavailableReason: `No provider is registered for "${model.provider}"` };
+  }
+  const available = !!process.env.LLM_MOCK || provider.isConfigured();
+  // Report the limit requests actually run with, not just what the model could produce
+  const caps = [model.maxOutputTokens, provider.capabilities.maxOutputTokens].filter((n): n is number => n !== undefined);
+  return {
+    ...model,
+    available,
+    unavailableReason: available ? undefined : `Set ${provider.apiKeyEnv} on the server to use ${provider.label} models`,
+    capabilities: {
+      vision: provider.capabilities.images,
+      maxOutputTokens: caps.length > 0 ? Math.min(...caps) : undefined,
+      temperature: { min: 0, max: provider.capabilities.maxTemperature }
+    }
+  };
+}
+
+// The built-in models plus whatever configured providers report themselves, with real availability
+export async function listAllModels(): Promise<AIModel[]> {
+  const discovered = await Promise.all(
+    Object.values(PROVIDERS).map(provider => (provider.listModels && provider.isConfigured() ? provider.listModels() : []))
+  );
+  // The mock model is a development aid; where it can't run, real users shouldn't see it at all
+  const mock = mockProvider.isConfigured() ? [MOCK_MODEL] : [];
+  return [...AVAILABLE_MODELS, ...mock, ...discovered.flat()].map(describeModel);
+}
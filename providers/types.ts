@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AIModel, ModelProvider } from '../models';
+import type { ImagePart, TokenUsage } from '../types';
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  images: boolean;
+  /** Highest temperature the API accepts; requests above it are clamped */
+  maxTemperature: number;
+  /** Whether an in-flight request can be cancelled through an AbortSignal, rather than by leaving the stream */
+  abortable: boolean;
+  /** Output cap the provider sends with every request, when it sets one below the model's own limit */
+  maxOutputTokens?: number;
+}
+
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  images: ImagePart[];
+  /** Already clamped to the provider's range */
+  temperature: number;
+  signal: AbortSignal;
+}
+
+/** Streams yield text deltas, then the token usage once the provider reports it */
+export type ProviderChunk = { text: string } | { usage: TokenUsage };
+
+export interface CompletionResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+/** An upstream failure mapped to the status and message the API answers with */
+export interface ProviderError {
+  status: number;
+  message: string;
+}
+
+// One AI backend behind /api/generate and /api/variations
+export interface LLMProvider {
+  id: ModelProvider;
+  /** Display name used in error messages */
+  label: string;
+  apiKeyEnv: string;
+  /** Where billing problems can be sorted out */
+  billingUrl: string;
+  capabilities: ProviderCapabilities;
+  isConfigured(): boolean;
+  /** Yields text deltas until the response is complete or the signal aborts, and usage when known */
+  stream(request: CompletionRequest): AsyncIterable<ProviderChunk>;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** Models found on the provider itself, for providers whose models aren't listed in models.ts */
+  listModels?(): Promise<AIModel[]>;
+  normalizeError(error: unknown): ProviderError;
+}
@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// IndexedDB-backed persistence for session history and the component library.
+// localStorage caps out at a few MB, which a handful of saved HTML payloads can exhaust.
+import type { Artifact, Session, SavedComponent, Collection, StylePreset, Comparison, UsageRecord } from './types';
+
+const DB_NAME = 'flash-ui';
+const DB_VERSION = 4;
+
+const SESSIONS_STORE = 'sessions';
+const COMPONENTS_STORE = 'components';
+const COLLECTIONS_STORE = 'collections';
+const STYLE_PRESETS_STORE = 'stylePresets';
+const COMPARISONS_STORE = 'comparisons';
+const USAGE_STORE = 'usage';
+
+// Legacy localStorage keys, migrated into IndexedDB on first open
+const LEGACY_LIBRARY_KEY = 'flash-ui-library';
+const LEGACY_COLLECTIONS_KEY = 'flash-ui-collections';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+// Null when the stored value can't be parsed, so the caller knows to leave it alone
+function readLegacy<T>(key: string): T[] | null {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error(`Could not parse ${key}, leaving it in localStorage:`, e);
+    return null;
+  }
+}
+
+// Copy the old localStorage library into IndexedDB, then drop the keys so it only runs once.
+// A key that fails to parse is kept, since it may be the only copy of the user's library.
+async function migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+  if (localStorage.getItem(LEGACY_LIBRARY_KEY) === null && localStorage.getItem(LEGACY_COLLECTIONS_KEY) === null) {
+    return;
+  }
+
+  const components = readLegacy<SavedComponent>(LEGACY_LIBRARY_KEY);
+  const collections = readLegacy<Collection>(LEGACY_COLLECTIONS_KEY);
+
+  const tx = db.transaction([COMPONENTS_STORE, COLLECTIONS_STORE], 'readwrite');
+  components?.forEach(c => tx.objectStore(COMPONENTS_STORE).put(c));
+  collections?.forEach(c => tx.objectStore(COLLECTIONS_STORE).put(c));
+  await promisifyTransaction(tx);
+
+  if (components) localStorage.removeItem(LEGACY_LIBRARY_KEY);
+  if (collections) localStorage.removeItem(LEGACY_COLLECTIONS_KEY);
+}
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(COMPONENTS_STORE)) {
+          db.createObjectStore(COMPONENTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
+          db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STYLE_PRESETS_STORE)) {
+          db.createObjectStore(STYLE_PRESETS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(COMPARISONS_STORE)) {
+          db.createObjectStore(COMPARISONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      try {
+        await migrateLegacyStorage(db);
+      } catch (e) {
+        console.warn('Failed to migrate legacy library from localStorage', e);
+      }
+      return db;
+    });
+
+    // Allow a retry on the next call if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function getAll<T>(storeName: string): Promise<T[]> {
+  const db = await getDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  return promisifyRequest(tx.objectStore(storeName).getAll() as IDBRequest<T[]>);
+}
+
+async function put<T>(storeName: string, value: T): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).put(value);
+  await promisifyTransaction(tx);
+}
+
+async function remove(storeName: string, key: string): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).delete(key);
+  await promisifyTransaction(tx);
+}
+
+// Session history
+
+const INTERRUPTED_HTML = `
+    <div style="padding: 40px; text-align: center; color: #ff6b6b; font-family: system-ui, -apple-system, sans-serif;">
+        <div style="font-size: 24px; margin-bottom: 16px;">⚠️ Generation Interrupted</div>
+        <div style="font-size: 14px; color: #ff9999;">
+            The page was closed before this design finished streaming.
+        </div>
+    </div>
+`;
+
+// Artifacts still marked as streaming were cut off when the page closed; nothing will ever finish them.
+// Ones with recorded history (a fix, refinement or regeneration) fall back to their last version.
+function recoverArtifact(art: Artifact): Artifact {
+  const lastVersion = art.versions?.[art.versions.length - 1];
+  if (lastVersion) {
+    return { ...art, html: lastVersion.html, styleName: lastVersion.styleName, status: 'complete' };
+  }
+  return {
+    ...art,
+    html: art.html.trim() ? art.html : INTERRUPTED_HTML,
+    status: 'error',
+    styleName: art.styleName.endsWith('...') ? 'Interrupted' : art.styleName
+  };
+}
+
+function recoverInterrupted(session: Session): Session {
+  if (!session.artifacts.some(a => a.status === 'streaming')) return session;
+  return {
+    ...session,
+    artifacts: session.artifacts.map(art => art.status === 'streaming' ? recoverArtifact(art) : art)
+  };
+}
+
+// Blend recipes used to hold a two-source `ratios` table; they now hold a weighted mix per slot
+type LegacyBlendRecipe = { ratios?: { a: number; b: number }[] };
+
+function upgradeRecipe(session: Session): Session {
+  const recipe = session.recipe;
+  if (recipe?.kind !== 'blend' || recipe.mixes) return session;
+  const ratios = (recipe as LegacyBlendRecipe).ratios ?? [];
+  const { ratios: _, ...rest } = recipe as typeof recipe & LegacyBlendRecipe;
+  return { ...session, recipe: { ...rest, mixes: ratios.map(r => ({ weights: [r.a, r.b] })) } };
+}
+
+export async function loadSessions(): Promise<Session[]> {
+  const sessions = await getAll<Session>(SESSIONS_STORE);
+  return sessions
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(upgradeRecipe)
+    .map(recoverInterrupted);
+}
+
+export async function saveSessions(sessions: Session[]): Promise<void> {
+  if (sessions.length === 0) return;
+  const db = await getDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  sessions.forEach(s => tx.objectStore(SESSIONS_STORE).put(s));
+  await promisifyTransaction(tx);
+}
+
+// Library
+
+export function getSavedComponents(): Promise<SavedComponent[]> {
+  return getAll<SavedComponent>(COMPONENTS_STORE);
+}
+
+export function saveComponent(component: SavedComponent): Promise<void> {
+  return put(COMPONENTS_STORE, component);
+}
+
+export function removeComponent(componentId: string): Promise<void> {
+  return remove(COMPONENTS_STORE, componentId);
+}
+
+export function getCollections(): Promise<Collection[]> {
+  return getAll<Collection>(COLLECTIONS_STORE);
+}
+
+export function saveCollection(collection: Collection): Promise<void> {
+  return put(COLLECTIONS_STORE, collection);
+}
+
+export async function deleteCollection(collectionId: string): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction([COMPONENTS_STORE, COLLECTIONS_STORE], 'readwrite');
+  tx.objectStore(COLLECTIONS_STORE).delete(collectionId);
+
+  // Remove collection from all components
+  const componentStore = tx.objectStore(COMPONENTS_STORE);
+  const request = componentStore.getAll() as IDBRequest<SavedComponent[]>;
+  request.onsuccess = () => {
+    request.result
+      .filter(comp => comp.collectionIds.includes(collectionId))
+      .forEach(comp => componentStore.put({
+        ...comp,
+        collectionIds: comp.collectionIds.filter(id => id !== collectionId)
+      }));
+  };
+
+  await promisifyTransaction(tx);
+}
+
+// Style DNA presets
+
+export async function getStylePresets(): Promise<StylePreset[]> {
+  const presets = await getAll<StylePreset>(STYLE_PRESETS_STORE);
+  return presets.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function saveStylePreset(preset: StylePreset): Promise<void> {
+  return put(STYLE_PRESETS_STORE, preset);
+}
+
+export function deleteStylePreset(presetId: string): Promise<void> {
+  return remove(STYLE_PRESETS_STORE, presetId);
+}
+
+// Compare verdicts
+
+export async function getComparisons(): Promise<Comparison[]> {
+  const comparisons = await getAll<Comparison>(COMPARISONS_STORE);
+  return comparisons.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function saveComparison(comparison: Comparison): Promise<void> {
+  return put(COMPARISONS_STORE, comparison);
+}
+
+// Token usage log
+
+export async function getUsageRecords(): Promise<UsageRecord[]> {
+  const records = await getAll<UsageRecord>(USAGE_STORE);
+  return records.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function saveUsageRecord(record: UsageRecord): Promise<void> {
+  return put(USAGE_STORE, record);
+}
@@ -7,7 +7,36 @@ export interface Artifact {
   id: string;
   styleName: string;
   html: string;
-  status: 'streaming' | 'complete' | 'error';
+  status: 'streaming' | 'complete' | 'error' | 'cancelled';
+  /** Every version this artifact has had, oldest first; the last entry matches `html` */
+  versions?: ArtifactVersion[];
+  /** Chat refinement turns, kept so the conversation can be resumed later */
+  conversation?: RefinementMessage[];
+  /** Tokens spent on this artifact: its generation plus every fix, refinement and edit since */
+  usage?: TokenUsage;
+}
+
+export type ArtifactVersionSource = 'initial' | 'variation' | 'ai-fix' | 'manual-edit' | 'revert' | 'refinement' | 'element-edit';
+
+export interface ArtifactVersion {
+  id: string;
+  html: string;
+  styleName: string;
+  source: ArtifactVersionSource;
+  createdAt: number;
+  /** For reverts, the version whose html was restored */
+  revertedFrom?: string;
+}
+
+export interface RefinementMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: number;
+  /** Assistant turns point at the version their rewrite produced */
+  versionId?: string;
+  /** Set on assistant turns that didn't produce a version */
+  status?: 'error' | 'cancelled';
 }
 
 export interface Session {
@@ -15,11 +44,86 @@ export interface Session {
     prompt: string;
     timestamp: number;
     artifacts: Artifact[];
+    recipe?: GenerationRecipe;
+    /** Tokens spent on the whole exploration, including style naming and variations */
+    usage?: TokenUsage;
+}
+
+// Usage types
+/** Tokens billed for one or more model calls, as reported by the provider */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from list prices when the calls were made; absent for models without pricing */
+  costUsd?: number;
+}
+
+export type UsageFlow = 'generate' | 'similar' | 'blend' | 'remix' | 'variations' | 'word-suggestions' | 'refine' | 'fix' | 'export' | 'placeholders';
+
+// One model call, kept in its own store so totals outlive deleted sessions
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  timestamp: number;
+  modelId: string;
+  flow: UsageFlow;
+  sessionId?: string;
+  artifactId?: string;
+}
+
+export interface StyleReference { html: string; styleName: string; description?: string; }
+
+// A screenshot or mockup sent alongside the prompt, as base64 without the data: prefix
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/gif';
+export interface ImagePart { mimeType: ImageMimeType; data: string; }
+
+export type BlendDimension = 'color' | 'typography' | 'layout' | 'surface';
+/** One slot of a blend: each source's share of the overall look, plus dimensions taken from a single source */
+export interface BlendMix {
+  /** Percent per source, in source order, adding up to 100 */
+  weights: number[];
+  /** Source index that owns a dimension outright; unassigned dimensions follow the weights */
+  dimensions?: Partial<Record<BlendDimension, number>>;
 }
 
+// How a session's artifacts were produced, kept so a single slot can be regenerated later
+export type GenerationRecipe =
+  | { kind: 'fresh'; prompt: string; styleReference?: StyleReference; images?: ImagePart[] }
+  | { kind: 'similar'; prompt: string; source: StyleReference }
+  | { kind: 'blend'; prompt: string; sources: StyleReference[]; mixes: BlendMix[] }
+  | { kind: 'remix'; prompt: string; styleReference: StyleReference };
+
 export interface ComponentVariation { name: string; html: string; }
 export interface LayoutOption { name: string; css: string; previewHtml: string; }
 
+// W3C design tokens (DTCG format) extracted from an artifact's CSS
+export interface ShadowLayer {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+export type DesignToken =
+  | { $type: 'color'; $value: string }
+  | { $type: 'dimension'; $value: string }
+  | { $type: 'fontFamily'; $value: string[] }
+  | { $type: 'fontWeight'; $value: number }
+  | { $type: 'shadow'; $value: ShadowLayer[] };
+
+export type DesignTokens = Record<string, Record<string, DesignToken>>;
+
+// A named Style DNA saved for reuse across prompts
+export interface StylePreset {
+  id: string;
+  name: string;
+  html: string;
+  tokens: DesignTokens;
+  description: string;
+  createdAt: number;
+}
+
 // Library types
 export interface SavedComponent {
   id: string;
@@ -32,6 +136,9 @@ export interface SavedComponent {
   tags: string[];
   collectionIds: string[];
   isFavorite: boolean;
+  tokens?: DesignTokens;
+  /** The artifact version this entry holds; the library copy stays put while the artifact keeps changing */
+  versionId?: string;
 }
 
 export interface Collection {
@@ -41,4 +148,27 @@ export interface Collection {
   color?: string;
   createdAt: number;
   componentIds: string[];
-}
\ No newline at end of file
+}
+
+// Compare types
+/** Something picked for side-by-side comparison: an artifact in a session, or a library entry */
+export type CompareTarget =
+  | { kind: 'artifact'; sessionId: string; artifactId: string }
+  | { kind: 'library'; componentId: string };
+
+export interface ComparisonEntry {
+  target: CompareTarget;
+  styleName: string;
+  /** The version that was on screen, for artifacts that have kept changing since */
+  versionId?: string;
+}
+
+// A finished comparison: what was looked at together and which one won
+export interface Comparison {
+  id: string;
+  createdAt: number;
+  entries: ComparisonEntry[];
+  winnerIndex: number;
+  /** Library entry the winner was saved as */
+  winnerComponentId: string;
+}
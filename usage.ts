@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Token usage and cost: pricing lookups, running totals on sessions and artifacts,
+// and the groupings and budget check behind the usage panel.
+import { getModelById } from './models';
+import type { GenerationRecipe, TokenUsage, UsageFlow, UsageRecord } from './types';
+
+export const FLOW_LABELS: Record<UsageFlow, string> = {
+  generate: 'Generate',
+  similar: 'Similar styles',
+  blend: 'Blend',
+  remix: 'Remix layout',
+  variations: 'Explore UX',
+  'word-suggestions': 'Word suggestions',
+  refine: 'Refine & edit',
+  fix: 'Accessibility & responsive fixes',
+  export: 'Export cleanup',
+  placeholders: 'Prompt ideas'
+};
+
+// The panel turns amber at this share of the monthly budget and red past it
+export const BUDGET_WARNING_SHARE = 0.8;
+
+export type BudgetStatus = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export function flowForRecipe(kind: GenerationRecipe['kind']): UsageFlow {
+  return kind === 'fresh' ? 'generate' : kind;
+}
+
+// List price at the time of the call; models without pricing (local, mock) cost nothing we can know
+export function estimateCostUsd(modelId: string, usage: TokenUsage): number | undefined {
+  const pricing = getModelById(modelId)?.pricing;
+  if (!pricing) return undefined;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  const costUsd = total?.costUsd === undefined && usage.costUsd === undefined
+    ? undefined
+    : (total?.costUsd ?? 0) + (usage.costUsd ?? 0);
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    costUsd
+  };
+}
+
+export interface UsageGroup {
+  key: string;
+  calls: number;
+  usage: TokenUsage;
+}
+
+// Totals per key, most expensive first (then most tokens, for groups without pricing)
+export function groupUsage(records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    const group = groups.get(key) ?? { key, calls: 0, usage: { inputTokens: 0, outputTokens: 0 } };
+    group.calls++;
+    group.usage = addUsage(group.usage, record);
+    groups.set(key, group);
+  });
+  const tokens = (g: UsageGroup) => g.usage.inputTokens + g.usage.outputTokens;
+  return [...groups.values()].sort((a, b) => (b.usage.costUsd ?? 0) - (a.usage.costUsd ?? 0) || tokens(b) - tokens(a));
+}
+
+// Local calendar day, so "today" matches the user's clock rather than UTC
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function isSameMonth(timestamp: number, now = Date.now()): boolean {
+  const a = new Date(timestamp);
+  const b = new Date(now);
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+}
+
+export function budgetStatus(spentUsd: number, budgetUsd: number | null): BudgetStatus {
+  if (!budgetUsd || budgetUsd <= 0) return 'none';
+  if (spentUsd >= budgetUsd) return 'exceeded';
+  return spentUsd >= budgetUsd * BUDGET_WARNING_SHARE ? 'warning' : 'ok';
+}
+
+export function formatUsd(amount: number | undefined): string {
+  if (amount === undefined) return '—';
+  if (amount > 0 && amount < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return String(tokens);
+}
@@ -3,88 +3,66 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
-
-// Library storage utilities
-import type { SavedComponent, Collection } from './types';
+import type { ImagePart, TokenUsage } from './types';
+import type { AIModel } from './models';
 
-const LIBRARY_STORAGE_KEY = 'flash-ui-library';
-const COLLECTIONS_STORAGE_KEY = 'flash-ui-collections';
+export const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
 
-export function getSavedComponents(): SavedComponent[] {
-  try {
-    const stored = localStorage.getItem(LIBRARY_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
+// True when a fetch or stream read was stopped via AbortController rather than failing
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError';
 }
 
-export function saveComponent(component: SavedComponent): void {
-  const components = getSavedComponents();
-  const existingIndex = components.findIndex(c => c.id === component.id);
-  if (existingIndex >= 0) {
-    components[existingIndex] = component;
-  } else {
-    components.push(component);
+// Failure reported by the API routes, keeping the HTTP status so callers can tell retryable ones apart
+export class ApiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'ApiError';
   }
-  localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(components));
 }
 
-export function removeComponent(componentId: string): void {
-  const components = getSavedComponents();
-  const filtered = components.filter(c => c.id !== componentId);
-  localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(filtered));
+// One SSE event from /api/generate or /api/variations: a text delta, or the usage that closes the stream
+export interface StreamChunk {
+  text?: string;
+  usage?: TokenUsage;
 }
 
-export function getCollections(): Collection[] {
+// A stream that goes this long without sending anything is treated as stalled. Long but
+// healthy streams keep going; the error carries no status, so withRetry won't restart them.
+const STREAM_IDLE_TIMEOUT_MS = 60000;
+
+async function readWithIdleTimeout(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const stalled = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reader.cancel().catch(() => {});
+      reject(new Error(`Request timeout: The API sent nothing for ${STREAM_IDLE_TIMEOUT_MS / 1000} seconds. Please try again.`));
+    }, STREAM_IDLE_TIMEOUT_MS);
+  });
   try {
-    const stored = localStorage.getItem(COLLECTIONS_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
+    return await Promise.race([reader.read(), stalled]);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
-export function saveCollection(collection: Collection): void {
-  const collections = getCollections();
-  const existingIndex = collections.findIndex(c => c.id === collection.id);
-  if (existingIndex >= 0) {
-    collections[existingIndex] = collection;
-  } else {
-    collections.push(collection);
-  }
-  localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
-}
-
-export function deleteCollection(collectionId: string): void {
-  const collections = getCollections();
-  const filtered = collections.filter(c => c.id !== collectionId);
-  localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(filtered));
-  
-  // Remove collection from all components
-  const components = getSavedComponents();
-  components.forEach(comp => {
-    comp.collectionIds = comp.collectionIds.filter(id => id !== collectionId);
-  });
-  localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(components));
-}
-
 // API helper functions for Vercel serverless functions
 // Use current window location in dev to support any port, or empty string for production
 const API_BASE = import.meta.env.DEV 
   ? `${window.location.protocol}//${window.location.hostname}:${window.location.port || (window.location.protocol === 'https:' ? '443' : '80')}`
   : '';
 
-export async function* streamGenerateContent(prompt: string, temperature?: number, modelId?: string) {
+export async function* streamGenerateContent(prompt: string, temperature?: number, modelId?: string, signal?: AbortSignal, images?: ImagePart[]): AsyncGenerator<StreamChunk> {
   let response: Response;
   try {
     response = await fetch(`${API_BASE}/api/generate`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt, stream: true, temperature, model: modelId })
+      body: JSON.stringify({ prompt, stream: true, temperature, model: modelId, images }),
+      signal
     });
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     throw new Error(`Network error: ${error.message || 'Failed to connect to API. Make sure the dev server is running on port 3001.'}`);
   }
 
@@ -98,7 +76,7 @@ export async function* streamGenerateContent(prompt: string, temperature?: numbe
     } catch {
       // If response isn't JSON, use status text
     }
-    throw new Error(errorMessage);
+    throw new ApiError(errorMessage, response.status);
   }
 
   const reader = response.body?.getReader();
@@ -108,16 +86,10 @@ export async function* streamGenerateContent(prompt: string, temperature?: numbe
 
   let buffer = '';
   let hasReceivedData = false;
-  const timeout = 60000; // 60 second timeout
-  const startTime = Date.now();
 
   try {
     while (true) {
-      if (Date.now() - startTime > timeout) {
-        throw new Error('Request timeout: The API took too long to respond. Please try again.');
-      }
-
-      const { done, value } = await reader.read();
+      const { done, value } = await readWithIdleTimeout(reader);
       if (done) break;
 
       hasReceivedData = true;
@@ -134,8 +106,11 @@ export async function* streamGenerateContent(prompt: string, temperature?: numbe
             if (parsed.text) {
               yield { text: parsed.text };
             }
+            if (parsed.usage) {
+              yield { usage: parsed.usage };
+            }
             if (parsed.error) {
-              throw new Error(`API error: ${parsed.error}`);
+              throw new ApiError(`API error: ${parsed.error}`, parsed.status);
             }
           } catch (e: any) {
             if (e.message && e.message.includes('API error')) {
@@ -151,6 +126,7 @@ export async function* streamGenerateContent(prompt: string, temperature?: numbe
       throw new Error('No data received from API. The server may not be responding correctly.');
     }
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     // Re-throw with more context if it's not already a formatted error
     if (error.message && !error.message.includes('error') && !error.message.includes('timeout')) {
       throw new Error(`Stream error: ${error.message}`);
@@ -159,15 +135,17 @@ export async function* streamGenerateContent(prompt: string, temperature?: numbe
   }
 }
 
-export async function generateContent(prompt: string, modelId?: string) {
+export async function generateContent(prompt: string, modelId?: string, signal?: AbortSignal, images?: ImagePart[]): Promise<{ text: string; usage?: TokenUsage }> {
   let response: Response;
   try {
     response = await fetch(`${API_BASE}/api/generate`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt, stream: false, model: modelId })
+      body: JSON.stringify({ prompt, stream: false, model: modelId, images }),
+      signal
     });
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     throw new Error(`Network error: ${error.message || 'Failed to connect to API. Make sure the dev server is running on port 3001.'}`);
   }
 
@@ -181,25 +159,27 @@ export async function generateContent(prompt: string, modelId?: string) {
     } catch {
       // If response isn't JSON, use status text
     }
-    throw new Error(errorMessage);
+    throw new ApiError(errorMessage, response.status);
   }
 
   const data = await response.json();
   if (data.error) {
     throw new Error(`API error: ${data.error}`);
   }
-  return { text: data.text || '' };
+  return { text: data.text || '', usage: data.usage as TokenUsage | undefined };
 }
 
-export async function* streamVariations(prompt: string, modelId?: string) {
+export async function* streamVariations(prompt: string, modelId?: string, signal?: AbortSignal, images?: ImagePart[]): AsyncGenerator<StreamChunk> {
   let response: Response;
   try {
     response = await fetch(`${API_BASE}/api/variations`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt, model: modelId })
+      body: JSON.stringify({ prompt, model: modelId, images }),
+      signal
     });
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     throw new Error(`Network error: ${error.message || 'Failed to connect to API. Make sure the dev server is running on port 3001.'}`);
   }
 
@@ -213,7 +193,7 @@ export async function* streamVariations(prompt: string, modelId?: string) {
     } catch {
       // If response isn't JSON, use status text
     }
-    throw new Error(errorMessage);
+    throw new ApiError(errorMessage, response.status);
   }
 
   const reader = response.body?.getReader();
@@ -223,16 +203,10 @@ export async function* streamVariations(prompt: string, modelId?: string) {
 
   let buffer = '';
   let hasReceivedData = false;
-  const timeout = 60000; // 60 second timeout
-  const startTime = Date.now();
 
   try {
     while (true) {
-      if (Date.now() - startTime > timeout) {
-        throw new Error('Request timeout: The API took too long to respond. Please try again.');
-      }
-
-      const { done, value } = await reader.read();
+      const { done, value } = await readWithIdleTimeout(reader);
       if (done) break;
 
       hasReceivedData = true;
@@ -249,8 +223,11 @@ export async function* streamVariations(prompt: string, modelId?: string) {
             if (parsed.text) {
               yield { text: parsed.text };
             }
+            if (parsed.usage) {
+              yield { usage: parsed.usage };
+            }
             if (parsed.error) {
-              throw new Error(`API error: ${parsed.error}`);
+              throw new ApiError(`API error: ${parsed.error}`, parsed.status);
             }
           } catch (e: any) {
             if (e.message && e.message.includes('API error')) {
@@ -266,10 +243,21 @@ export async function* streamVariations(prompt: string, modelId?: string) {
       throw new Error('No data received from API. The server may not be responding correctly.');
     }
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     // Re-throw with more context if it's not already a formatted error
     if (error.message && !error.message.includes('error') && !error.message.includes('timeout')) {
       throw new Error(`Stream error: ${error.message}`);
     }
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Built-in models plus any the server discovered on a local endpoint
+export async function fetchModels(signal?: AbortSignal): Promise<AIModel[]> {
+  const response = await fetch(`${API_BASE}/api/models`, { signal });
+  if (!response.ok) {
+    throw new ApiError(`API error: ${response.status} ${response.statusText}`, response.status);
+  }
+  const data = await response.json();
+  return Array.isArray(data.models) ? data.models : [];
+}
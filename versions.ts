@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Artifact, ArtifactVersion, ArtifactVersionSource } from './types';
+import { generateId } from './utils';
+
+export const VERSION_SOURCE_LABELS: Record<ArtifactVersionSource, string> = {
+  'initial': 'Generated',
+  'variation': 'Variation',
+  'ai-fix': 'AI fix',
+  'manual-edit': 'Manual edit',
+  'revert': 'Reverted',
+  'refinement': 'Chat refinement',
+  'element-edit': 'Element edit'
+};
+
+// Above this many cells the LCS table gets too big to build on every render
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+function createVersion(html: string, styleName: string, source: ArtifactVersionSource, revertedFrom?: string): ArtifactVersion {
+  const version: ArtifactVersion = { id: generateId(), html, styleName, source, createdAt: Date.now() };
+  if (revertedFrom) version.revertedFrom = revertedFrom;
+  return version;
+}
+
+// Artifacts generated before history existed get their current html recorded as the initial version
+export function getArtifactVersions(artifact: Artifact): ArtifactVersion[] {
+  if (artifact.versions && artifact.versions.length > 0) return artifact.versions;
+  return [createVersion(artifact.html, artifact.styleName, 'initial')];
+}
+
+export function getCurrentVersion(artifact: Artifact): ArtifactVersion | undefined {
+  return artifact.versions?.[artifact.versions.length - 1];
+}
+
+export function appendArtifactVersion(
+  artifact: Artifact,
+  html: string,
+  source: ArtifactVersionSource,
+  styleName: string = artifact.styleName
+): ArtifactVersion[] {
+  // A fresh generation streams over `html`, so only versions recorded earlier count as history
+  const history = source === 'initial' ? (artifact.versions ?? []) : getArtifactVersions(artifact);
+  return [...history, createVersion(html, styleName, source)];
+}
+
+// Reverting appends a copy rather than truncating, so the versions after it stay reachable
+export function revertArtifactToVersion(artifact: Artifact, versionId: string): Partial<Artifact> | null {
+  const versions = getArtifactVersions(artifact);
+  const target = versions.find(v => v.id === versionId);
+  if (!target) return null;
+  return {
+    html: target.html,
+    styleName: target.styleName,
+    versions: [...versions, createVersion(target.html, target.styleName, 'revert', target.id)]
+  };
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Trim the shared head and tail so the table only covers what changed
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...tail
+    ];
+  }
+
+  // Longest common subsequence, filled from the end so the walk below can go forwards
+  const cols = midB.length + 1;
+  const table = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      table[i * cols + j] = midA[i] === midB[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}